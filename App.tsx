@@ -1,8 +1,26 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { GeminiLiveService } from './services/geminiLive';
+import { loadGuestBookings, rememberGuestBooking } from './services/guestBookings';
+import { selectProfileFromLocation } from './services/restaurantProfiles';
+import { getLanguage, resolveUiLanguage } from './services/languages';
+import { GenAITransport } from './services/liveTransport';
+import { RecordingTransport, ReplayTransport } from './services/liveFixtures';
+import { InputMode } from './services/geminiLive';
+import { AudioSettings, loadAudioSettings, saveAudioSettings } from './services/audioDevices';
+import { AgentSettings, DEFAULT_AGENT_SETTINGS, resolvePersona } from './services/agentSettings';
+import { fetchAgentSettings } from './services/agentSettingsClient';
+import { useGeminiLive } from './hooks/useGeminiLive';
+import { downloadBlob } from './utils/download';
 import Visualizer from './components/Visualizer';
-import { ConnectionState, Language, MessageLog } from './types';
-import { RESTAURANT_INFO } from './constants';
+import ReservationList from './components/ReservationList';
+import TranscriptPanel from './components/TranscriptPanel';
+import ConsentNotice from './components/ConsentNotice';
+import RecordingDownloads from './components/RecordingDownloads';
+import TalkControls from './components/TalkControls';
+import AudioSettingsPanel from './components/AudioSettingsPanel';
+import ChatInput from './components/ChatInput';
+import CaptionsPanel from './components/CaptionsPanel';
+import LiveAnnouncer from './components/LiveAnnouncer';
+import { LanguageMode, Reservation } from './types';
 
 // Icons
 const MicIcon = () => (
@@ -17,119 +35,205 @@ const StopIcon = () => (
   </svg>
 );
 
+// Debug modes: `?record` captures a session fixture, `?replay=<url>` plays one back without a microphone
+const debugParams = new URLSearchParams(window.location.search);
+const replayUrl = debugParams.get('replay');
+const fixtureRecorder = !replayUrl && debugParams.has('record') ? new RecordingTransport(new GenAITransport()) : null;
+const debugTransport = replayUrl ? new ReplayTransport(new URL(replayUrl, window.location.href)) : fixtureRecorder ?? undefined;
+
+const RECORD_CALLS_KEY = 'golden-spice:record-calls';
+const INPUT_MODE_KEY = 'golden-spice:input-mode';
+const CAPTIONS_KEY = 'golden-spice:captions';
+
+// Visible keyboard focus for the call and language controls
+const FOCUS_RING = 'focus:outline-none focus-visible:ring-2 focus-visible:ring-gold-300 focus-visible:ring-offset-2 focus-visible:ring-offset-slate-900';
+
+// Venue chosen by `/r/<id>` or `?restaurant=<id>`
+const profile = selectProfileFromLocation(window.location);
+
+// Fixed languages first, then 'auto' when the venue speaks more than one
+const languageModes: LanguageMode[] = profile.languages.length > 1 ? [...profile.languages, 'auto'] : profile.languages;
+
 const App: React.FC = () => {
-  const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
-  const [language, setLanguage] = useState<Language>(Language.ENGLISH);
-  const [audioVolume, setAudioVolume] = useState(0);
-  const [logs, setLogs] = useState<MessageLog[]>([]);
-  const [error, setError] = useState<string | null>(null);
-  const logsEndRef = useRef<HTMLDivElement>(null);
+  const [language, setLanguage] = useState<LanguageMode>(profile.languages[0]);
+  const [reservations, setReservations] = useState<Reservation[]>(() => loadGuestBookings(profile.id));
+  const [recordCalls, setRecordCalls] = useState(() => localStorage.getItem(RECORD_CALLS_KEY) === '1');
+  const [showConsent, setShowConsent] = useState(false);
+  const [captions, setCaptions] = useState(() => localStorage.getItem(CAPTIONS_KEY) === '1');
+  const languageButtons = useRef<(HTMLButtonElement | null)[]>([]);
+  const [inputMode, setInputMode] = useState<InputMode>(() =>
+    localStorage.getItem(INPUT_MODE_KEY) === 'push-to-talk' ? 'push-to-talk' : 'voice-activity'
+  );
 
-  // Ref for the service to persist across renders without re-initializing unnecessarily
-  const serviceRef = useRef<GeminiLiveService | null>(null);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(() => loadAudioSettings());
+  // Chosen on the admin dashboard; the service reads them again for each
+  // call, this copy only names the agent in the interface
+  const [agentSettings, setAgentSettings] = useState<AgentSettings>(DEFAULT_AGENT_SETTINGS);
+
+  const live = useGeminiLive({
+    profile,
+    audioSettings,
+    transport: debugTransport,
+    useMicrophone: !replayUrl,
+    autoReconnect: !replayUrl,
+    // Fixture replays are not real calls
+    reportCalls: !replayUrl,
+    handoffUrl: replayUrl ? null : undefined,
+  });
+  const connectionState = live.status;
+  const agentName = resolvePersona(profile, agentSettings).name;
+
+  // Interface language follows the agent's language; 'auto' uses the browser's preference
+  const uiLanguage = resolveUiLanguage(language, profile.languages);
+  const strings = uiLanguage.ui;
+
+  // Bookings this guest made; the restaurant's full book is on the server
+  useEffect(() => live.serviceRef.current?.on('booked', reservation => {
+    setReservations(rememberGuestBooking(profile.id, reservation));
+  }), [live.serviceRef]);
 
   useEffect(() => {
-    // Check for API Key
-    if (!process.env.GEMINI_API_KEY) {
-      console.error("GEMINI_API_KEY is missing");
-      return;
-    }
+    fetchAgentSettings(profile.id)
+      .then(setAgentSettings)
+      .catch(err => console.warn('[App] Could not load agent settings:', err));
+  }, []);
 
-    try {
-      // Initialize service
-      serviceRef.current = new GeminiLiveService(
-        (status) => setConnectionState(status as ConnectionState),
-        (vol) => setAudioVolume(vol),
-        (err) => {
-          console.error(err);
-          setError(err);
-          setConnectionState('disconnected');
-        },
-        (text, isUser) => {
-          setLogs(prev => [
-            ...prev,
-            {
-              id: Date.now().toString(),
-              role: isUser ? 'user' : 'model',
-              text,
-              timestamp: new Date()
-            }
-          ].slice(-5)); // Keep last 5 messages for display
-        }
+  useEffect(() => {
+    document.title = `${profile.name} Hostess`;
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = uiLanguage.code;
+    document.documentElement.dir = uiLanguage.dir;
+  }, [uiLanguage]);
+
+  useEffect(() => {
+    localStorage.setItem(RECORD_CALLS_KEY, recordCalls ? '1' : '0');
+  }, [recordCalls]);
+
+  useEffect(() => {
+    localStorage.setItem(INPUT_MODE_KEY, inputMode);
+  }, [inputMode]);
+
+  useEffect(() => {
+    localStorage.setItem(CAPTIONS_KEY, captions ? '1' : '0');
+  }, [captions]);
+
+  // Push-to-talk: hold the spacebar to speak (ignored while typing in a field)
+  const { startTalking, stopTalking } = live;
+  useEffect(() => {
+    if (inputMode !== 'push-to-talk' || connectionState !== 'connected' || !live.voiceEnabled) return;
+
+    // Space on another control reached with the keyboard presses that
+    // control instead, so keyboard users can still end the call
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (
+        target.isContentEditable ||
+        ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+        (target.tagName === 'BUTTON' && !('pushToTalk' in target.dataset) && target.matches(':focus-visible'))
       );
-    } catch (error) {
-      console.error("Failed to initialize GeminiLiveService:", error);
-    }
 
-    return () => {
-      // Cleanup on unmount
-      serviceRef.current?.disconnect();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
     };
-  }, []);
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+    // Releasing the key in another window never fires keyup here
+    const onBlur = () => stopTalking();
 
-  if (!process.env.GEMINI_API_KEY) {
-    return (
-      <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-slate-900 text-slate-50 font-sans">
-        <div className="max-w-md text-center space-y-6">
-          <h1 className="text-3xl font-serif text-gold-400 font-bold">Setup Required</h1>
-          <p className="text-slate-300">
-            To use this application, you need to provide a Google Gemini API key.
-          </p>
-          <div className="bg-slate-800 p-4 rounded-lg text-left text-sm font-mono text-slate-400 overflow-x-auto">
-            <p>1. Create a <span className="text-gold-400">.env</span> file in the project root.</p>
-            <p className="mt-2">2. Add your API key:</p>
-            <p className="mt-1 text-emerald-400">GEMINI_API_KEY=your_api_key_here</p>
-          </div>
-          <p className="text-xs text-slate-500">
-            You can get an API key from Google AI Studio.
-          </p>
-        </div>
-      </div>
-    );
-  }
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      stopTalking();
+    };
+  }, [inputMode, connectionState, live.voiceEnabled, startTalking, stopTalking]);
 
-  useEffect(() => {
-    if (logsEndRef.current) {
-      logsEndRef.current.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, [logs]);
+  const startSession = async (withRecording: boolean) => {
+    setShowConsent(false);
+    await live.connect(language, { record: withRecording, inputMode });
+  };
 
   const toggleConnection = async () => {
-    if (connectionState === 'connected' || connectionState === 'connecting') {
-      await serviceRef.current?.disconnect();
+    if (connectionState === 'connected' || connectionState === 'connecting' || connectionState === 'reconnecting') {
+      await live.disconnect();
+    } else if (recordCalls) {
+      // Recording needs the guest's consent before the session starts
+      setShowConsent(true);
     } else {
-      setError(null);
-      await serviceRef.current?.connect(language);
+      await startSession(false);
     }
   };
 
-  const changeLanguage = async (lang: Language) => {
-    if (language === lang) return;
-    setLanguage(lang);
-
-    // If currently connected, we need to reconnect to update the System Instruction
-    if (connectionState === 'connected') {
-      await serviceRef.current?.disconnect();
-      // Short timeout to allow cleanup
-      setTimeout(() => {
-        serviceRef.current?.connect(lang);
-      }, 500);
-    }
+  const downloadFixture = () => {
+    if (!fixtureRecorder) return;
+    const blob = new Blob([fixtureRecorder.toJsonl()], { type: 'application/x-ndjson' });
+    downloadBlob(blob, `live-session-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`);
+  };
+
+  const changeAudioSettings = (settings: AudioSettings) => {
+    setAudioSettings(settings);
+    saveAudioSettings(settings);
+    // Applies immediately when a call is in progress
+    live.setAudioSettings(settings);
+  };
+
+  const changeLanguage = async (mode: LanguageMode) => {
+    if (language === mode) return;
+    setLanguage(mode);
+    // A live call switches over in place; otherwise this applies to the next call
+    await live.setLanguage(mode);
+  };
+
+  // Arrow keys move between languages (mirrored in RTL); Enter or Space
+  // picks one, since each switch restarts a live session
+  const handleLanguageKeyDown = (e: React.KeyboardEvent, index: number) => {
+    const [next, previous] = uiLanguage.dir === 'rtl' ? ['ArrowLeft', 'ArrowRight'] : ['ArrowRight', 'ArrowLeft'];
+    const last = languageModes.length - 1;
+    const target =
+      e.key === next || e.key === 'ArrowDown' ? (index === last ? 0 : index + 1)
+        : e.key === previous || e.key === 'ArrowUp' ? (index === 0 ? last : index - 1)
+          : e.key === 'Home' ? 0
+            : e.key === 'End' ? last
+              : null;
+    if (target === null) return;
+    e.preventDefault();
+    languageButtons.current[target]?.focus();
   };
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-between p-6 bg-slate-900 text-slate-50 font-sans relative overflow-hidden">
 
+      {showConsent && (
+        <ConsentNotice
+          restaurantName={profile.name}
+          strings={strings}
+          onAccept={() => startSession(true)}
+          onDecline={() => startSession(false)}
+        />
+      )}
+
+      {/* Finished agent utterances, for screen readers */}
+      <LiveAnnouncer turns={live.turns} agentName={agentName} strings={strings} />
+
       {/* Background Ambience */}
       <div className="absolute inset-0 z-0 pointer-events-none opacity-20 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-gold-600 via-slate-900 to-slate-950"></div>
 
       {/* Header */}
       <header className="z-10 w-full max-w-2xl text-center space-y-2 mt-8">
         <h1 className="text-4xl md:text-5xl font-serif text-gold-400 font-bold tracking-tight">
-          {RESTAURANT_INFO.name}
+          {profile.name}
         </h1>
         <p className="text-slate-400 font-light text-sm md:text-base tracking-widest uppercase">
-          {RESTAURANT_INFO.cuisine} &bull; Reservations
+          {profile.cuisine} &bull; {strings.tagline}
         </p>
       </header>
 
@@ -137,88 +241,205 @@ const App: React.FC = () => {
       <main className="z-10 w-full max-w-lg flex flex-col items-center justify-center flex-grow space-y-8">
 
         {/* Error Alert */}
-        {error && (
-          <div className="w-full bg-rose-950/50 border border-rose-500/50 text-rose-200 px-4 py-3 rounded-lg text-sm text-center">
-            {error}
+        {live.error && (
+          <div role="alert" className="w-full bg-rose-950/50 border border-rose-500/50 text-rose-200 px-4 py-3 rounded-lg text-sm text-center">
+            {live.error}
+          </div>
+        )}
+
+        {/* Microphone fallback notice */}
+        {live.voiceUnavailable && !live.voiceEnabled && (
+          <div role="status" className="w-full bg-amber-950/40 border border-amber-500/40 text-amber-200 px-4 py-3 rounded-lg text-sm text-center">
+            {strings.voiceUnavailable}
+          </div>
+        )}
+
+        {/* Call ended by a deployment limit */}
+        {live.status === 'disconnected' && live.usage?.endReason && live.usage.endReason !== 'hangup' && (
+          <div role="status" className="w-full bg-slate-800/60 border border-slate-600/50 text-slate-300 px-4 py-3 rounded-lg text-sm text-center">
+            {live.usage.endReason === 'idle' ? strings.callEndedIdle : strings.callEndedMaxDuration}
+          </div>
+        )}
+
+        {/* Escalated to staff */}
+        {live.status === 'connected' && (live.handoff === 'waiting' || live.handoff === 'staff') && (
+          <div role="status" className="w-full bg-gold-600/10 border border-gold-500/40 text-gold-200 px-4 py-3 rounded-lg text-sm text-center">
+            {live.handoff === 'waiting' ? strings.handoffWaiting : strings.handoffStaff}
           </div>
         )}
 
-        {/* Connection Status Badge */}
-        <div className={`
+        {/* Connection Status Badge (announced when it changes) */}
+        <div role="status" className={`
           px-4 py-1.5 rounded-full text-xs font-semibold tracking-wider uppercase border
           ${connectionState === 'connected'
             ? 'bg-emerald-950/50 border-emerald-500/50 text-emerald-400'
-            : connectionState === 'connecting'
-              ? 'bg-amber-950/50 border-amber-500/50 text-amber-400 animate-pulse'
+            : connectionState === 'connecting' || connectionState === 'reconnecting'
+              ? 'bg-amber-950/50 border-amber-500/50 text-amber-400 motion-safe:animate-pulse'
               : 'bg-slate-800/50 border-slate-700 text-slate-400'}
         `}>
-          {connectionState === 'connected' ? 'Live Agent Active' : connectionState === 'connecting' ? 'Connecting...' : 'Ready to Connect'}
+          {connectionState === 'connected'
+            ? strings.statusConnected
+            : connectionState === 'connecting'
+              ? strings.statusConnecting
+              : connectionState === 'reconnecting'
+                ? strings.statusReconnecting
+                : strings.statusReady}
         </div>
 
+        {/* Large captions for hard-of-hearing guests */}
+        {captions && <CaptionsPanel turns={live.turns} agentName={agentName} strings={strings} />}
+
         {/* Visualizer */}
-        <div className="relative w-full aspect-square max-h-[350px] flex items-center justify-center">
-          <Visualizer
-            isActive={connectionState === 'connected'}
-            volume={audioVolume}
-            mode="listening" // Simplified for visualizer; in reality we'd track "speaking" vs "listening" more granularly if needed
-          />
+        <div className={`relative w-full aspect-square flex items-center justify-center ${captions ? 'max-h-[200px]' : 'max-h-[350px]'}`}>
+          <Visualizer state={live.conversationState} levels={live.levels} />
         </div>
 
         {/* Action Button */}
         <button
           onClick={toggleConnection}
+          aria-label={connectionState === 'connected' || connectionState === 'reconnecting' ? strings.endCall : strings.startCall}
           className={`
-            group relative flex items-center justify-center w-20 h-20 rounded-full transition-all duration-300 shadow-xl
-            ${connectionState === 'connected'
+            group relative flex items-center justify-center w-20 h-20 rounded-full transition-all duration-300 shadow-xl ${FOCUS_RING}
+            ${connectionState === 'connected' || connectionState === 'reconnecting'
               ? 'bg-rose-600 hover:bg-rose-700 shadow-rose-900/20'
               : 'bg-gold-500 hover:bg-gold-400 shadow-gold-900/20'}
           `}
         >
-          {connectionState === 'connected' ? (
+          {connectionState === 'connected' || connectionState === 'reconnecting' ? (
             <span className="text-white"><StopIcon /></span>
           ) : (
-            <span className="text-slate-900 group-hover:scale-110 transition-transform"><MicIcon /></span>
+            <span className="text-slate-900 motion-safe:group-hover:scale-110 transition-transform"><MicIcon /></span>
           )}
 
           {/* Ring Ping Animation when disconnected */}
           {connectionState === 'disconnected' && (
-            <span className="absolute inline-flex h-full w-full rounded-full bg-gold-400 opacity-20 animate-ping"></span>
+            <span className="absolute inline-flex h-full w-full rounded-full bg-gold-400 opacity-20 motion-safe:animate-ping"></span>
           )}
         </button>
 
+        {/* Voice or text chat, switchable mid-call */}
+        <div className="bg-slate-900/80 p-1 rounded-lg inline-flex">
+          {[true, false].map(voice => (
+            <button
+              key={voice ? 'voice' : 'text'}
+              onClick={() => live.setVoiceEnabled(voice)}
+              aria-pressed={live.voiceEnabled === voice}
+              className={`px-4 py-1.5 rounded-md text-xs font-medium transition-colors ${live.voiceEnabled === voice ? 'text-slate-900 bg-gold-400' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              {voice ? strings.modeVoice : strings.modeText}
+            </button>
+          ))}
+        </div>
+
+        {/* Typed messages on the same session */}
+        {connectionState === 'connected' && !live.voiceEnabled && (
+          <ChatInput
+            strings={strings}
+            playbackEnabled={live.playbackEnabled}
+            onSend={live.sendText}
+            onTogglePlayback={live.setPlaybackEnabled}
+          />
+        )}
+
+        {/* Mute and push-to-talk */}
+        {connectionState === 'connected' && live.voiceEnabled && (
+          <TalkControls
+            inputMode={inputMode}
+            muted={live.muted}
+            talking={live.talking}
+            strings={strings}
+            onToggleMute={() => live.setMuted(!live.muted)}
+            onStartTalking={startTalking}
+            onStopTalking={stopTalking}
+          />
+        )}
+
+        {/* Call recording exports */}
+        {connectionState !== 'connected' && live.recording && <RecordingDownloads recording={live.recording} strings={strings} />}
+
+        {/* Session fixture download (only in ?record mode) */}
+        {connectionState !== 'connected' && fixtureRecorder?.hasRecording && (
+          <button onClick={downloadFixture} className="text-xs text-slate-400 underline hover:text-slate-200">
+            Download session fixture
+          </button>
+        )}
+
       </main>
 
       {/* Footer / Controls */}
       <footer className="z-10 w-full max-w-2xl bg-slate-800/50 backdrop-blur-md rounded-2xl p-4 border border-slate-700/50 flex flex-col gap-4">
 
-        {/* Language Toggle */}
+        {/* Language Toggle (only the languages this venue supports) */}
+        {profile.languages.length > 1 && (
+          <div className="flex justify-center w-full">
+            <div role="group" aria-label={strings.languageLabel} className="bg-slate-900/80 p-1 rounded-lg inline-flex flex-wrap justify-center relative">
+              {languageModes.map((mode, index) => (
+                <button
+                  key={mode}
+                  ref={el => { languageButtons.current[index] = el; }}
+                  onClick={() => changeLanguage(mode)}
+                  onKeyDown={(e) => handleLanguageKeyDown(e, index)}
+                  // One tab stop for the group, on the current language
+                  tabIndex={language === mode ? 0 : -1}
+                  aria-pressed={language === mode}
+                  lang={mode === 'auto' ? undefined : mode}
+                  className={`relative z-10 px-4 py-2 rounded-md text-sm font-medium transition-colors ${FOCUS_RING} ${language === mode ? 'text-slate-900 bg-gold-400' : 'text-slate-400 hover:text-slate-200'}`}
+                >
+                  {mode === 'auto' ? strings.languageAuto : getLanguage(mode)?.label ?? mode}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Input Mode (applies from the next call) */}
         <div className="flex justify-center w-full">
-          <div className="bg-slate-900/80 p-1 rounded-lg inline-flex relative">
-            <button
-              onClick={() => changeLanguage(Language.ENGLISH)}
-              className={`relative z-10 px-6 py-2 rounded-md text-sm font-medium transition-colors ${language === Language.ENGLISH ? 'text-slate-900 bg-gold-400' : 'text-slate-400 hover:text-slate-200'}`}
-            >
-              English
-            </button>
-            <button
-              onClick={() => changeLanguage(Language.ARABIC)}
-              className={`relative z-10 px-6 py-2 rounded-md text-sm font-medium transition-colors ${language === Language.ARABIC ? 'text-slate-900 bg-gold-400' : 'text-slate-400 hover:text-slate-200'}`}
-            >
-              Arabic (العربية)
-            </button>
+          <div className="bg-slate-900/80 p-1 rounded-lg inline-flex">
+            {(['voice-activity', 'push-to-talk'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setInputMode(mode)}
+                disabled={connectionState !== 'disconnected' && connectionState !== 'error'}
+                className={`px-4 py-1.5 rounded-md text-xs font-medium transition-colors disabled:cursor-not-allowed ${inputMode === mode ? 'text-slate-900 bg-gold-400' : 'text-slate-400 hover:text-slate-200 disabled:hover:text-slate-400'}`}
+              >
+                {mode === 'voice-activity' ? strings.inputModeVoice : strings.inputModePushToTalk}
+              </button>
+            ))}
           </div>
         </div>
 
-        {/* Recent Transcript (Fading) */}
-        <div className="h-24 overflow-y-auto scrollbar-hide text-center space-y-2 px-2 mask-linear-gradient">
-          {logs.length === 0 && <p className="text-slate-600 italic text-sm mt-8">Transcripts will appear here...</p>}
-          {logs.map((log) => (
-            <div key={log.id} className={`text-sm ${log.role === 'user' ? 'text-slate-400' : 'text-gold-200'}`}>
-              <span className="opacity-50 text-xs uppercase mr-2">{log.role === 'user' ? 'You' : 'Layla'}:</span>
-              {log.text}
-            </div>
-          ))}
-          <div ref={logsEndRef} />
+        {/* Recording Opt-in */}
+        <label className="flex items-center justify-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={recordCalls}
+            onChange={(e) => setRecordCalls(e.target.checked)}
+            className="accent-gold-500"
+          />
+          {strings.recordCalls}
+        </label>
+
+        {/* Captions mode */}
+        <label className="flex items-center justify-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={captions}
+            onChange={(e) => setCaptions(e.target.checked)}
+            className="accent-gold-500"
+          />
+          {strings.captionsMode}
+        </label>
+
+        {/* Devices and capture processing */}
+        <AudioSettingsPanel settings={audioSettings} strings={strings} onChange={changeAudioSettings} />
+
+        {/* Conversation History */}
+        <TranscriptPanel turns={live.turns} agentName={agentName} strings={strings} locale={uiLanguage.code} />
+
+        {/* Confirmed Bookings */}
+        <div className="border-t border-slate-700/50 pt-3">
+          <h2 className="text-xs uppercase tracking-widest text-slate-500 mb-2 text-center">{strings.reservationsHeading}</h2>
+          <ReservationList reservations={reservations} strings={strings} />
         </div>
       </footer>
     </div>
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { CallAnalytics, CallOutcome } from '../services/callAnalytics';
+import { fetchCallAnalytics } from '../services/callHistoryClient';
+import { getLanguage } from '../services/languages';
+import AgentSettingsPanel from './AgentSettingsPanel';
+import { RestaurantProfile } from '../types';
+
+// Kept for the browser tab only, so a shared device does not keep it
+const TOKEN_KEY = 'golden-spice:admin-token';
+
+interface AdminDashboardProps {
+  profile: RestaurantProfile;
+}
+
+const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const languageName = (code: string): string =>
+  code === 'auto' ? 'Auto' : getLanguage(code)?.englishName ?? code;
+
+const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-slate-900/60 border border-slate-800 rounded-lg px-4 py-3">
+    <p className="text-xs uppercase tracking-widest text-slate-500">{label}</p>
+    <p className="text-2xl font-serif text-gold-400 mt-1">{value}</p>
+  </div>
+);
+
+/**
+ * Staff view of past calls for one restaurant, with date and outcome filters
+ * and headline numbers for the filtered range. Served at `/admin` (or
+ * `/r/<id>/admin`). The server filters and summarizes the calls every guest
+ * session reported; reading them needs ADMIN_TOKEN.
+ */
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ profile }) => {
+  const [analytics, setAnalytics] = useState<CallAnalytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [outcome, setOutcome] = useState<CallOutcome>('all');
+  const [token, setToken] = useState(() => sessionStorage.getItem(TOKEN_KEY) ?? '');
+  const [adminToken, setAdminToken] = useState(token);
+
+  useEffect(() => {
+    document.title = `${profile.name} Call History`;
+  }, [profile]);
+
+  useEffect(() => {
+    if (!adminToken) return;
+    let current = true;
+    setError(null);
+    fetchCallAnalytics(profile.id, { from, to, outcome }, adminToken)
+      .then(next => {
+        if (current) setAnalytics(next);
+      })
+      .catch(err => {
+        console.error('[AdminDashboard] Failed to load call history', err);
+        if (current) setError(err instanceof Error ? err.message : 'The call history could not be loaded');
+      });
+    return () => {
+      current = false;
+    };
+  }, [profile, adminToken, from, to, outcome]);
+
+  const calls = analytics?.calls ?? [];
+  const summary = analytics?.summary ?? { calls: 0, bookings: 0, conversionRate: 0, averageDurationSec: 0, languages: [] };
+
+  const signIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    sessionStorage.setItem(TOKEN_KEY, token);
+    setAdminToken(token);
+  };
+
+  const inputClass = 'bg-slate-900/80 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200';
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-50 font-sans px-4 py-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-serif text-gold-400">{profile.name}</h1>
+            <p className="text-slate-400 text-sm tracking-widest uppercase">Call history</p>
+          </div>
+          <form onSubmit={signIn} className="flex items-end gap-2">
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              Admin token
+              <input type="password" value={token} onChange={(e) => setToken(e.target.value)} className={inputClass} />
+            </label>
+            <button type="submit" className="px-3 py-1.5 rounded-md text-sm font-semibold bg-slate-700 text-slate-100 disabled:opacity-40" disabled={!token || token === adminToken}>
+              Use token
+            </button>
+          </form>
+        </header>
+
+        {error && (
+          <p role="alert" className="bg-rose-950/50 border border-rose-500/50 text-rose-200 px-4 py-2 rounded-lg text-sm">{error}</p>
+        )}
+
+        <AgentSettingsPanel profile={profile} adminToken={adminToken} />
+
+        <div className="flex flex-wrap items-end gap-4">
+          <label className="flex flex-col gap-1 text-xs text-slate-400">
+            From
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-400">
+            To
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-slate-400">
+            Outcome
+            <select value={outcome} onChange={(e) => setOutcome(e.target.value as CallOutcome)} className={inputClass}>
+              <option value="all">All calls</option>
+              <option value="booked">Booked</option>
+              <option value="not-booked">No booking</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          <StatCard label="Calls" value={String(summary.calls)} />
+          <StatCard label="Conversion rate" value={`${Math.round(summary.conversionRate * 100)}%`} />
+          <StatCard label="Average length" value={formatDuration(summary.averageDurationSec)} />
+        </div>
+
+        <section className="bg-slate-900/60 border border-slate-800 rounded-lg px-4 py-3 space-y-2">
+          <h2 className="text-xs uppercase tracking-widest text-slate-500">Languages</h2>
+          {summary.languages.length === 0 && <p className="text-sm text-slate-600 italic">No calls</p>}
+          {summary.languages.map(({ language, calls: count }) => (
+            <div key={language} className="flex items-center gap-3 text-sm">
+              <span className="w-24 text-slate-300">{languageName(language)}</span>
+              <div className="flex-grow h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-gold-500" style={{ width: `${(count / summary.calls) * 100}%` }} />
+              </div>
+              <span className="w-16 text-end text-slate-400">{Math.round((count / summary.calls) * 100)}%</span>
+            </div>
+          ))}
+        </section>
+
+        <section className="space-y-2">
+          {!adminToken && <p className="text-sm text-slate-500">Enter the admin token to see calls.</p>}
+          {adminToken && !analytics && !error && <p className="text-sm text-slate-500">Loading…</p>}
+          {analytics && calls.length === 0 && (
+            <p className="text-sm text-slate-600 italic">No calls match these filters.</p>
+          )}
+          {calls.map(call => (
+            <details key={call.id} className="bg-slate-900/60 border border-slate-800 rounded-lg">
+              <summary className="cursor-pointer flex flex-wrap items-center gap-x-4 gap-y-1 px-4 py-3 text-sm">
+                <span className="text-slate-200">{new Date(call.startedAt).toLocaleString()}</span>
+                <span className="text-slate-400">{formatDuration(call.durationSec)}</span>
+                <span className="text-slate-400">{languageName(call.language)}</span>
+                {call.bookingConfirmed
+                  ? <span className="text-emerald-400">Booked <span className="font-mono text-gold-400">{call.confirmationCodes.join(', ')}</span></span>
+                  : <span className="text-slate-500">No booking</span>}
+                {call.endReason !== 'hangup' && (
+                  <span className="text-amber-400 text-xs">{call.endReason === 'idle' ? 'Idle timeout' : 'Time limit'}</span>
+                )}
+              </summary>
+              <ol className="px-4 pb-3 space-y-1 text-sm">
+                {call.turns.length === 0 && <li className="text-slate-600 italic">No transcript</li>}
+                {call.turns.map((turn, index) => (
+                  <li key={index} dir="auto">
+                    <span className={turn.role === 'user' ? 'text-slate-400' : 'text-gold-400'}>
+                      {turn.role === 'user' ? 'Guest' : turn.channel === 'staff' ? 'Staff' : profile.persona.name}:
+                    </span>{' '}
+                    <span className="text-slate-200">{turn.text}</span>
+                    {turn.status === 'interrupted' && <span className="text-slate-500"> …</span>}
+                  </li>
+                ))}
+              </ol>
+            </details>
+          ))}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default AdminDashboard;
@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  AgentSettings,
+  DEFAULT_AGENT_SETTINGS,
+  LIVE_MODELS,
+  PERSONA_TONES,
+  PREBUILT_VOICES,
+} from '../services/agentSettings';
+import { fetchAgentSettings, updateAgentSettings } from '../services/agentSettingsClient';
+import { VoicePreview } from '../services/voicePreview';
+import { PersonaTone, RestaurantProfile } from '../types';
+
+interface AgentSettingsPanelProps {
+  profile: RestaurantProfile;
+  // ADMIN_TOKEN, needed to save
+  adminToken: string;
+}
+
+type SaveState = 'loading' | 'saved' | 'changed' | 'saving';
+
+/**
+ * Model, voice and persona for the restaurant's agent, saved on the server
+ * and used by web and phone calls from their next call. The voice preview
+ * plays a short greeting with the current choices, saved or not.
+ */
+const AgentSettingsPanel: React.FC<AgentSettingsPanelProps> = ({ profile, adminToken }) => {
+  const [settings, setSettings] = useState<AgentSettings>(DEFAULT_AGENT_SETTINGS);
+  const [saveState, setSaveState] = useState<SaveState>('loading');
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const preview = useMemo(() => new VoicePreview(), []);
+
+  useEffect(() => () => preview.stop(), [preview]);
+
+  useEffect(() => {
+    fetchAgentSettings(profile.id)
+      .then(saved => {
+        setSettings(saved);
+        setSaveState('saved');
+      })
+      .catch(err => {
+        console.error('[AgentSettings] Failed to load agent settings', err);
+        setSaveError('The saved settings could not be loaded.');
+        setSaveState('changed');
+      });
+  }, [profile]);
+
+  const update = (patch: Partial<AgentSettings>) => {
+    setSettings({ ...settings, ...patch });
+    setSaveState('changed');
+  };
+
+  const save = async () => {
+    setSaveError(null);
+    setSaveState('saving');
+    try {
+      setSettings(await updateAgentSettings(profile.id, settings, adminToken));
+      setSaveState('saved');
+    } catch (err) {
+      console.warn('[AgentSettings] Saving failed:', err);
+      setSaveError(err instanceof Error ? err.message : 'The settings could not be saved');
+      setSaveState('changed');
+    }
+  };
+
+  const playPreview = async () => {
+    if (previewing) {
+      preview.stop();
+      return;
+    }
+    setPreviewError(null);
+    setPreviewing(true);
+    try {
+      await preview.play(profile, settings);
+    } catch (err) {
+      console.warn('[AgentSettings] Voice preview failed:', err);
+      setPreviewError(err instanceof Error ? err.message : 'The preview could not be played');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const nativeAudio = LIVE_MODELS.find(m => m.id === settings.model)?.nativeAudio ?? false;
+  const inputClass = 'bg-slate-900/80 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200';
+
+  return (
+    <details className="bg-slate-900/60 border border-slate-800 rounded-lg px-4 py-3">
+      <summary className="cursor-pointer text-xs uppercase tracking-widest text-slate-500">Agent settings</summary>
+      <div className="grid gap-4 pt-3 sm:grid-cols-2">
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Persona name
+          <input
+            value={settings.personaName ?? ''}
+            placeholder={profile.persona.name}
+            onChange={(e) => update({ personaName: e.target.value.trim() ? e.target.value : null })}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Tone
+          <select value={settings.tone} onChange={(e) => update({ tone: e.target.value as PersonaTone })} className={inputClass}>
+            {PERSONA_TONES.map(tone => <option key={tone.id} value={tone.id}>{tone.label}</option>)}
+          </select>
+        </label>
+        <div className="flex items-end gap-2">
+          <label className="flex flex-col gap-1 text-xs text-slate-400 flex-grow">
+            Voice
+            <select value={settings.voice ?? ''} onChange={(e) => update({ voice: e.target.value || null })} className={inputClass}>
+              <option value="">Restaurant default ({profile.persona.voice})</option>
+              {PREBUILT_VOICES.map(voice => <option key={voice.name} value={voice.name}>{voice.name} · {voice.style}</option>)}
+            </select>
+          </label>
+          <button onClick={playPreview} className="px-3 py-1.5 rounded-md text-sm font-semibold bg-slate-700 text-slate-100">
+            {previewing ? 'Stop' : 'Preview'}
+          </button>
+        </div>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Model
+          <select value={settings.model} onChange={(e) => update({ model: e.target.value })} className={inputClass}>
+            {LIVE_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+          </select>
+        </label>
+        <div className="flex flex-wrap gap-x-4 gap-y-2 sm:col-span-2">
+          <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.affectiveDialog}
+              disabled={!nativeAudio}
+              onChange={(e) => update({ affectiveDialog: e.target.checked })}
+              className="accent-gold-500"
+            />
+            Affective dialog (responds to the guest's tone of voice)
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.proactiveAudio}
+              disabled={!nativeAudio}
+              onChange={(e) => update({ proactiveAudio: e.target.checked })}
+              className="accent-gold-500"
+            />
+            Proactive audio (ignores speech not meant for the agent)
+          </label>
+          {!nativeAudio && <p className="text-xs text-slate-500">These need a native audio model.</p>}
+        </div>
+        {previewError && <p role="alert" className="text-sm text-rose-300 sm:col-span-2">{previewError}</p>}
+        {saveError && <p role="alert" className="text-sm text-rose-300 sm:col-span-2">{saveError}</p>}
+        <div className="flex items-center gap-3 sm:col-span-2">
+          <button
+            onClick={save}
+            disabled={saveState !== 'changed' || !adminToken}
+            className="px-3 py-1.5 rounded-md text-sm font-semibold bg-gold-500 text-slate-900 disabled:opacity-40"
+          >
+            {saveState === 'saving' ? 'Saving…' : saveState === 'saved' ? 'Saved' : 'Save'}
+          </button>
+          <p className="text-xs text-slate-500">
+            {adminToken ? 'Changes apply from the next web or phone call.' : 'Enter the admin token to save changes.'}
+          </p>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default AgentSettingsPanel;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AudioDeviceList,
+  AudioSettings,
+  listAudioDevices,
+  supportsOutputSelection,
+  watchDeviceChanges,
+} from '../services/audioDevices';
+import { formatMessage } from '../services/languages';
+import { UiStrings } from '../types';
+
+interface AudioSettingsPanelProps {
+  settings: AudioSettings;
+  strings: UiStrings;
+  onChange: (settings: AudioSettings) => void;
+}
+
+const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ settings, strings, onChange }) => {
+  const [devices, setDevices] = useState<AudioDeviceList>({ inputs: [], outputs: [] });
+
+  // Re-list on hot-plug; labels also appear once microphone access is granted
+  useEffect(() => {
+    const refresh = () => {
+      listAudioDevices().then(setDevices).catch(err => console.warn('[AudioSettings] Failed to list devices', err));
+    };
+    refresh();
+    return watchDeviceChanges(refresh);
+  }, []);
+
+  const update = (patch: Partial<AudioSettings>) => onChange({ ...settings, ...patch });
+
+  const deviceSelect = (
+    id: string,
+    label: string,
+    options: MediaDeviceInfo[],
+    value: string | null,
+    onSelect: (deviceId: string | null) => void
+  ) => {
+    // Keep a remembered device selectable while it is unplugged
+    const missing = value && !options.some(d => d.deviceId === value);
+    return (
+      <label htmlFor={id} className="flex flex-col gap-1 text-xs text-slate-400">
+        {label}
+        <select
+          id={id}
+          value={value ?? ''}
+          onChange={(e) => onSelect(e.target.value || null)}
+          className="bg-slate-900/80 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200"
+        >
+          <option value="">{strings.systemDefault}</option>
+          {options.map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || formatMessage(strings.unnamedDevice, { index: index + 1 })}
+            </option>
+          ))}
+          {missing && <option value={value}>{formatMessage(strings.unnamedDevice, { index: '?' })}</option>}
+        </select>
+      </label>
+    );
+  };
+
+  const toggles: Array<{ key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }> = [
+    { key: 'echoCancellation', label: strings.echoCancellation },
+    { key: 'noiseSuppression', label: strings.noiseSuppression },
+    { key: 'autoGainControl', label: strings.autoGainControl },
+  ];
+
+  return (
+    <details className="group">
+      <summary className="cursor-pointer text-xs uppercase tracking-widest text-slate-500 text-center hover:text-slate-300">
+        {strings.audioSettings}
+      </summary>
+      <div className="grid gap-3 pt-3 sm:grid-cols-2">
+        {deviceSelect('audio-input', strings.microphone, devices.inputs, settings.inputDeviceId, (inputDeviceId) => update({ inputDeviceId }))}
+        {supportsOutputSelection()
+          ? deviceSelect('audio-output', strings.speaker, devices.outputs, settings.outputDeviceId, (outputDeviceId) => update({ outputDeviceId }))
+          : <p className="text-xs text-slate-500 self-end">{strings.speakerUnsupported}</p>}
+        <div className="flex flex-wrap gap-x-4 gap-y-2 sm:col-span-2">
+          {toggles.map(toggle => (
+            <label key={toggle.key} className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings[toggle.key]}
+                onChange={(e) => update({ [toggle.key]: e.target.checked })}
+                className="accent-gold-500"
+              />
+              {toggle.label}
+            </label>
+          ))}
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default AudioSettingsPanel;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { MessageLog, UiStrings } from '../types';
+
+interface CaptionsPanelProps {
+  turns: MessageLog[];
+  agentName: string;
+  strings: UiStrings;
+}
+
+// Latest turns shown, and how much of a long turn stays on screen
+const VISIBLE_TURNS = 2;
+const MAX_CAPTION_CHARS = 220;
+
+// Keeps the end of a long turn, cut at a word boundary
+const tail = (text: string) => {
+  if (text.length <= MAX_CAPTION_CHARS) return text;
+  const cut = text.slice(-MAX_CAPTION_CHARS);
+  const space = cut.indexOf(' ');
+  return `…${space > 0 ? cut.slice(space + 1) : cut}`;
+};
+
+/**
+ * Large, high-contrast captions of the latest turns from both speakers,
+ * updated as they are transcribed. Screen readers get the finished turns
+ * from LiveAnnouncer instead, so this region is not itself live.
+ */
+const CaptionsPanel: React.FC<CaptionsPanelProps> = ({ turns, agentName, strings }) => {
+  const latest = turns.filter(turn => turn.text.trim()).slice(-VISIBLE_TURNS);
+
+  return (
+    <section
+      aria-label={strings.captionsLabel}
+      className="w-full bg-black border-2 border-white/80 rounded-xl px-5 py-4 space-y-3 min-h-[8rem]"
+    >
+      {latest.length === 0 && <p className="text-xl text-white/80">{strings.captionsEmpty}</p>}
+      {latest.map(turn => (
+        <p key={turn.id} dir="auto" className="text-2xl md:text-3xl leading-snug font-medium">
+          <span className={`block text-base font-bold uppercase tracking-wide ${turn.role === 'user' ? 'text-yellow-300' : 'text-cyan-300'}`}>
+            {turn.role === 'user' ? strings.transcriptYou : turn.channel === 'staff' ? strings.transcriptStaff : agentName}
+          </span>
+          <span className="text-white">{tail(turn.text)}</span>
+        </p>
+      ))}
+    </section>
+  );
+};
+
+export default CaptionsPanel;
@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { UiStrings } from '../types';
+
+interface ChatInputProps {
+  strings: UiStrings;
+  playbackEnabled: boolean;
+  // Returns false when the message could not be sent, keeping the draft
+  onSend: (text: string) => boolean;
+  onTogglePlayback: (enabled: boolean) => void;
+}
+
+const ChatInput: React.FC<ChatInputProps> = ({ strings, playbackEnabled, onSend, onTogglePlayback }) => {
+  const [draft, setDraft] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.trim() && onSend(draft)) setDraft('');
+  };
+
+  return (
+    <div className="w-full space-y-2">
+      <form onSubmit={submit} className="flex gap-2">
+        <input
+          type="text"
+          dir="auto"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={strings.typeMessage}
+          aria-label={strings.typeMessage}
+          autoFocus
+          className="flex-grow bg-slate-900/80 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:outline-none focus:border-gold-500"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-gold-500 hover:bg-gold-400 text-slate-900 transition-colors disabled:opacity-40"
+        >
+          {strings.send}
+        </button>
+      </form>
+      <label className="flex items-center justify-center gap-2 text-xs text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={playbackEnabled}
+          onChange={(e) => onTogglePlayback(e.target.checked)}
+          className="accent-gold-500"
+        />
+        {strings.playReplies}
+      </label>
+    </div>
+  );
+};
+
+export default ChatInput;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { UiStrings } from '../types';
+import { formatMessage } from '../services/languages';
+
+interface ConsentNoticeProps {
+  restaurantName: string;
+  strings: UiStrings;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+const ConsentNotice: React.FC<ConsentNoticeProps> = ({ restaurantName, strings, onAccept, onDecline }) => (
+  <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-6">
+    <div role="dialog" aria-modal="true" aria-labelledby="consent-title" className="max-w-md w-full bg-slate-800 border border-slate-700 rounded-2xl p-6 space-y-4 shadow-2xl">
+      <h2 id="consent-title" className="text-xl font-serif text-gold-400 font-bold">{strings.consentTitle}</h2>
+      <p className="text-sm text-slate-300">
+        {formatMessage(strings.consentBody, { restaurant: restaurantName })}
+      </p>
+      <p className="text-sm text-slate-400">
+        {strings.consentOptOut}
+      </p>
+      <div className="flex gap-3 justify-end pt-2">
+        <button
+          onClick={onDecline}
+          className="px-4 py-2 rounded-lg text-sm font-medium text-slate-300 hover:text-white hover:bg-slate-700 transition-colors"
+        >
+          {strings.consentDecline}
+        </button>
+        <button
+          onClick={onAccept}
+          className="px-4 py-2 rounded-lg text-sm font-medium bg-gold-500 hover:bg-gold-400 text-slate-900 transition-colors"
+        >
+          {strings.consentAccept}
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default ConsentNotice;
@@ -0,0 +1,41 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageLog, UiStrings } from '../types';
+
+interface LiveAnnouncerProps {
+  turns: MessageLog[];
+  agentName: string;
+  strings: UiStrings;
+}
+
+/**
+ * Reads each finished agent (or staff) utterance to screen readers through
+ * a polite live region. Streaming fragments are not announced, so readers
+ * hear whole sentences instead of every partial transcript update.
+ */
+const LiveAnnouncer: React.FC<LiveAnnouncerProps> = ({ turns, agentName, strings }) => {
+  const [message, setMessage] = useState('');
+  // Turns already announced; null until the first render, whose turns
+  // predate this page view's announcements
+  const announced = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    const finished = turns.filter(turn => turn.role === 'model' && turn.status !== 'streaming' && turn.text);
+    if (!announced.current) {
+      announced.current = new Set(finished.map(turn => turn.id));
+      return;
+    }
+    const seen = announced.current;
+    const fresh = finished.filter(turn => !seen.has(turn.id));
+    if (!fresh.length) return;
+    fresh.forEach(turn => seen.add(turn.id));
+    setMessage(fresh.map(turn => `${turn.channel === 'staff' ? strings.transcriptStaff : agentName}: ${turn.text}`).join(' '));
+  }, [turns, agentName, strings]);
+
+  return (
+    <div aria-live="polite" aria-atomic="true" className="sr-only">
+      {message}
+    </div>
+  );
+};
+
+export default LiveAnnouncer;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { ConversationRecording } from '../services/conversationRecorder';
+import { downloadBlob } from '../utils/download';
+import { UiStrings } from '../types';
+
+interface RecordingDownloadsProps {
+  recording: ConversationRecording;
+  strings: UiStrings;
+}
+
+const RecordingDownloads: React.FC<RecordingDownloadsProps> = ({ recording, strings }) => {
+  const stamp = recording.startedAt.toISOString().replace(/[:.]/g, '-');
+  const files: Array<{ label: string; blob: () => Blob; name: string }> = [
+    { label: 'Mixed WAV', blob: () => recording.mixedWav, name: `call-${stamp}-mixed.wav` },
+    { label: 'Guest WAV', blob: () => recording.guestWav, name: `call-${stamp}-guest.wav` },
+    { label: 'Agent WAV', blob: () => recording.agentWav, name: `call-${stamp}-agent.wav` },
+    { label: 'Transcript JSON', blob: () => new Blob([recording.transcriptJson], { type: 'application/json' }), name: `call-${stamp}.json` },
+    { label: 'Subtitles SRT', blob: () => new Blob([recording.transcriptSrt], { type: 'application/x-subrip' }), name: `call-${stamp}.srt` },
+  ];
+
+  return (
+    <div className="w-full bg-slate-800/60 border border-slate-700/50 rounded-lg p-3 text-center space-y-2">
+      <p className="text-xs uppercase tracking-widest text-slate-500">
+        {strings.recordingTitle} &bull; {Math.round(recording.durationSec)}s
+      </p>
+      <div className="flex flex-wrap justify-center gap-2">
+        {files.map(file => (
+          <button
+            key={file.label}
+            onClick={() => downloadBlob(file.blob(), file.name)}
+            className="px-3 py-1 rounded-md text-xs bg-slate-900/80 text-slate-300 hover:text-gold-400 transition-colors"
+          >
+            {file.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecordingDownloads;
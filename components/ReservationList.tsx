@@ -0,0 +1,33 @@
+import React from 'react';
+import { Reservation, UiStrings } from '../types';
+import { formatMessage } from '../services/languages';
+
+interface ReservationListProps {
+  reservations: Reservation[];
+  strings: UiStrings;
+}
+
+const ReservationList: React.FC<ReservationListProps> = ({ reservations, strings }) => {
+  if (reservations.length === 0) {
+    return <p className="text-slate-600 italic text-sm text-center">{strings.reservationsEmpty}</p>;
+  }
+
+  // Soonest bookings first
+  const sorted = [...reservations].sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+
+  return (
+    <ul className="max-h-40 overflow-y-auto scrollbar-hide divide-y divide-slate-700/50 text-sm">
+      {sorted.map((r) => (
+        <li key={r.id} className="flex items-center justify-between py-2 px-2">
+          <div>
+            <p className="text-slate-200">{r.guestName} &bull; {formatMessage(strings.reservationGuests, { count: r.partySize })}</p>
+            <p className="text-slate-500 text-xs">{formatMessage(strings.reservationWhen, { date: r.date, time: r.time })} &bull; <span dir="ltr">{r.phone}</span></p>
+          </div>
+          <span className="font-mono text-xs text-gold-400">{r.id}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ReservationList;
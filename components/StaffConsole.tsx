@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { HandoffConversation, HandoffReason } from '../services/handoffProtocol';
+import { getProfile } from '../services/restaurantProfiles';
+import { StaffConsoleClient, StaffConsoleStatus } from '../services/staffConsole';
+
+// Kept for the browser tab only, so a shared device does not keep it
+const TOKEN_KEY = 'golden-spice:staff-token';
+
+const REASON_LABELS: Record<HandoffReason, string> = {
+  complaint: 'Complaint',
+  'large-event': 'Large event',
+  other: 'Other',
+};
+
+const STATE_LABELS: Record<HandoffConversation['state'], string> = {
+  waiting: 'Waiting',
+  staff: 'With staff',
+  agent: 'Back with agent',
+};
+
+/**
+ * Staff view of conversations the agent escalated. Staff can read the
+ * transcript, take a conversation over to speak with the guest directly,
+ * and hand it back to the agent. Served at `/staff`; needs STAFF_TOKEN.
+ */
+const StaffConsole: React.FC = () => {
+  const client = useMemo(() => new StaffConsoleClient(), []);
+  const [token, setToken] = useState(() => sessionStorage.getItem(TOKEN_KEY) ?? '');
+  const [status, setStatus] = useState<StaffConsoleStatus>('disconnected');
+  const [conversations, setConversations] = useState<HandoffConversation[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    document.title = 'Staff Console';
+    const unsubscribers = [
+      client.on('status', setStatus),
+      client.on('conversations', setConversations),
+      client.on('active', setActiveId),
+      client.on('error', setError),
+    ];
+    const saved = sessionStorage.getItem(TOKEN_KEY);
+    if (saved) client.connect(saved);
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      client.disconnect();
+    };
+  }, [client]);
+
+  const connect = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    sessionStorage.setItem(TOKEN_KEY, token);
+    client.connect(token);
+  };
+
+  const sendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeId || !message.trim()) return;
+    client.sendText(activeId, message.trim());
+    setMessage('');
+  };
+
+  const selected = conversations.find(c => c.id === selectedId) ?? conversations[0] ?? null;
+  const inputClass = 'bg-slate-900/80 border border-slate-700 rounded-md px-2 py-1.5 text-sm text-slate-200';
+  const buttonClass = 'px-3 py-1.5 rounded-md text-sm font-semibold disabled:opacity-40';
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-50 font-sans px-4 py-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-serif text-gold-400">Staff Console</h1>
+            <p className="text-slate-400 text-sm tracking-widest uppercase">Escalated conversations</p>
+          </div>
+          <form onSubmit={connect} className="flex items-end gap-2">
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              Staff token
+              <input type="password" value={token} onChange={(e) => setToken(e.target.value)} className={inputClass} />
+            </label>
+            <button type="submit" className={`${buttonClass} bg-slate-700 text-slate-100`} disabled={!token || status === 'connecting'}>
+              {status === 'connected' ? 'Reconnect' : 'Connect'}
+            </button>
+          </form>
+        </header>
+
+        {error && (
+          <p role="alert" className="bg-rose-950/50 border border-rose-500/50 text-rose-200 px-4 py-2 rounded-lg text-sm">{error}</p>
+        )}
+
+        <div className="grid gap-4 md:grid-cols-[16rem_1fr]">
+          <ul className="space-y-2" aria-label="Conversations">
+            {conversations.length === 0 && (
+              <li className="text-sm text-slate-600 italic">{status === 'connected' ? 'Nobody is waiting.' : 'Not connected.'}</li>
+            )}
+            {conversations.map(conversation => (
+              <li key={conversation.id}>
+                <button
+                  onClick={() => setSelectedId(conversation.id)}
+                  className={`w-full text-start bg-slate-900/60 border rounded-lg px-3 py-2 text-sm ${selected?.id === conversation.id ? 'border-gold-500/60' : 'border-slate-800'}`}
+                >
+                  <span className="block text-slate-200">{getProfile(conversation.restaurantId)?.name ?? conversation.restaurantId}</span>
+                  <span className="block text-xs text-slate-400">
+                    {REASON_LABELS[conversation.reason]} · {new Date(conversation.createdAt).toLocaleTimeString()}
+                  </span>
+                  <span className={`block text-xs ${conversation.state === 'waiting' ? 'text-amber-400' : 'text-slate-500'}`}>
+                    {STATE_LABELS[conversation.state]}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          {selected && (
+            <section className="bg-slate-900/60 border border-slate-800 rounded-lg px-4 py-3 space-y-3">
+              <p className="text-sm text-slate-300">{selected.summary || 'No summary from the agent.'}</p>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => client.takeOver(selected.id)}
+                  disabled={status !== 'connected' || activeId === selected.id || selected.state === 'staff'}
+                  className={`${buttonClass} bg-gold-500 text-slate-900`}
+                >
+                  Take over
+                </button>
+                <button
+                  onClick={() => client.release(selected.id)}
+                  disabled={activeId !== selected.id}
+                  className={`${buttonClass} bg-slate-700 text-slate-100`}
+                >
+                  Hand back to agent
+                </button>
+              </div>
+
+              <ol className="space-y-1 text-sm max-h-96 overflow-y-auto">
+                {selected.turns.length === 0 && <li className="text-slate-600 italic">No transcript yet</li>}
+                {selected.turns.map((turn, index) => (
+                  <li key={index} dir="auto">
+                    <span className={turn.role === 'user' ? 'text-slate-400' : 'text-gold-400'}>
+                      {turn.role === 'user' ? 'Guest' : turn.channel === 'staff' ? 'Staff' : 'Agent'}:
+                    </span>{' '}
+                    <span className="text-slate-200">{turn.text}</span>
+                  </li>
+                ))}
+              </ol>
+
+              {activeId === selected.id && (
+                <form onSubmit={sendMessage} className="flex gap-2">
+                  <input
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    placeholder="Type to the guest"
+                    className={`${inputClass} flex-grow`}
+                  />
+                  <button type="submit" className={`${buttonClass} bg-slate-700 text-slate-100`} disabled={!message.trim()}>
+                    Send
+                  </button>
+                </form>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StaffConsole;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { InputMode } from '../services/geminiLive';
+import { UiStrings } from '../types';
+
+interface TalkControlsProps {
+  inputMode: InputMode;
+  muted: boolean;
+  talking: boolean;
+  strings: UiStrings;
+  onToggleMute: () => void;
+  onStartTalking: () => void;
+  onStopTalking: () => void;
+}
+
+const MicOffIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
+    <path strokeLinecap="round" strokeLinejoin="round" d="M3 3l18 18" />
+  </svg>
+);
+
+const MicSmallIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
+  </svg>
+);
+
+/**
+ * In-call microphone controls: a mute toggle and, in push-to-talk mode,
+ * a hold-to-talk button (pointer or touch; the spacebar is wired in App).
+ */
+const TalkControls: React.FC<TalkControlsProps> = ({
+  inputMode,
+  muted,
+  talking,
+  strings,
+  onToggleMute,
+  onStartTalking,
+  onStopTalking,
+}) => (
+  <div className="flex items-center justify-center gap-3">
+    <button
+      onClick={onToggleMute}
+      aria-pressed={muted}
+      aria-label={muted ? strings.unmute : strings.mute}
+      title={muted ? strings.unmute : strings.mute}
+      className={`flex items-center justify-center w-11 h-11 rounded-full border transition-colors ${muted
+        ? 'bg-rose-950/60 border-rose-500/50 text-rose-300'
+        : 'bg-slate-800/60 border-slate-700 text-slate-300 hover:text-white'}`}
+    >
+      {muted ? <MicOffIcon /> : <MicSmallIcon />}
+    </button>
+
+    {inputMode === 'push-to-talk' && (
+      <button
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          onStartTalking();
+        }}
+        onPointerUp={onStopTalking}
+        onPointerCancel={onStopTalking}
+        onContextMenu={(e) => e.preventDefault()}
+        // Space held while this has keyboard focus still talks (see App)
+        data-push-to-talk
+        disabled={muted}
+        aria-pressed={talking}
+        className={`select-none touch-none px-6 py-3 rounded-full text-sm font-medium border transition-colors disabled:opacity-40 ${talking
+          ? 'bg-gold-400 border-gold-400 text-slate-900'
+          : 'bg-slate-800/60 border-gold-500/50 text-gold-400 hover:bg-slate-800'}`}
+      >
+        {talking ? strings.releaseToSend : strings.holdToTalk}
+      </button>
+    )}
+
+    {muted && <span className="text-xs text-rose-300">{strings.micMuted}</span>}
+  </div>
+);
+
+export default TalkControls;
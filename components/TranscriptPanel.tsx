@@ -0,0 +1,60 @@
+import React, { useEffect, useRef } from 'react';
+import { LanguageCode, MessageLog, UiStrings } from '../types';
+
+interface TranscriptPanelProps {
+  turns: MessageLog[];
+  agentName: string;
+  strings: UiStrings;
+  locale: LanguageCode; // formats the turn timestamps
+}
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ turns, agentName, strings, locale }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stickToBottom = useRef(true);
+
+  // Follow new text only while the reader is already at the bottom
+  const handleScroll = () => {
+    const el = containerRef.current;
+    if (!el) return;
+    stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+  };
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (el && stickToBottom.current) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [turns]);
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      // Focusable so the history can be scrolled from the keyboard
+      tabIndex={0}
+      role="region"
+      aria-label={strings.transcriptLabel}
+      className="h-48 overflow-y-auto space-y-3 px-2 text-sm rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-gold-300"
+    >
+      {turns.length === 0 && <p className="text-slate-600 italic text-center mt-16">{strings.transcriptEmpty}</p>}
+      {turns.map((turn) => (
+        <div key={turn.id} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+          <div className={`max-w-[80%] rounded-xl px-3 py-2 ${turn.role === 'user' ? 'bg-slate-700/60 text-slate-200' : 'bg-gold-600/10 text-gold-200'}`}>
+            <p className="opacity-50 text-xs uppercase mb-0.5">
+              {turn.role === 'user' ? strings.transcriptYou : turn.channel === 'staff' ? strings.transcriptStaff : agentName}
+              <span className="normal-case ms-2">{turn.timestamp.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })}</span>
+            </p>
+            {/* Guests may speak a different language from the interface */}
+            <p dir="auto" className={turn.status === 'interrupted' ? 'opacity-70' : ''}>
+              {turn.text}
+              {turn.status === 'streaming' && <span className="inline-block w-1.5 h-3 ml-1 bg-current opacity-60 motion-safe:animate-pulse align-middle" />}
+              {turn.status === 'interrupted' && <span className="ms-1 text-xs italic text-slate-400">— {strings.transcriptInterrupted}</span>}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
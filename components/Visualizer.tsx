@@ -1,13 +1,30 @@
-import React, { useEffect, useRef } from 'react';
+import React, { MutableRefObject, useEffect, useRef } from 'react';
+import { ConversationState } from '../types';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { AudioLevels } from '../hooks/useGeminiLive';
 
 interface VisualizerProps {
-  isActive: boolean;
-  volume: number; // 0 to 1
-  mode: 'listening' | 'speaking' | 'idle';
+  state: ConversationState;
+  // Read on every frame, so level changes never re-render
+  levels: MutableRefObject<AudioLevels>;
 }
 
-const Visualizer: React.FC<VisualizerProps> = ({ isActive, volume, mode }) => {
+const GOLD = '#FACC15'; // Guest
+const SKY = '#38BDF8'; // Agent
+const ROSE = '#FB7185'; // Interrupted
+const SLATE = '#334155';
+const BACKGROUND = '#0F172A';
+
+const withAlpha = (color: string, opacity: number) =>
+  `${color}${Math.floor(Math.max(0, Math.min(1, opacity)) * 255).toString(16).padStart(2, '0')}`;
+
+/**
+ * Orb showing who has the floor. With reduced motion requested, each state
+ * is drawn once as a still image that does not follow the audio levels.
+ */
+const Visualizer: React.FC<VisualizerProps> = ({ state, levels }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const reducedMotion = usePrefersReducedMotion();
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -17,78 +34,127 @@ const Visualizer: React.FC<VisualizerProps> = ({ isActive, volume, mode }) => {
 
     let animationId: number;
     let time = 0;
+    // Smoothed level so the orb eases instead of jittering
+    let level = 0;
 
-    const render = () => {
-      time += 0.05;
-      const width = canvas.width;
-      const height = canvas.height;
-      const centerX = width / 2;
-      const centerY = height / 2;
-      const baseRadius = 80;
-
-      ctx.clearRect(0, 0, width, height);
-
-      if (!isActive) {
-        // Idle state: Subtle breathing pulse
-        ctx.beginPath();
-        ctx.arc(centerX, centerY, baseRadius, 0, Math.PI * 2);
-        ctx.strokeStyle = '#334155'; // Slate 700
-        ctx.lineWidth = 2;
-        ctx.stroke();
-        return;
-      }
+    const drawCore = (color: string, lineWidth = 4) => {
+      ctx.beginPath();
+      ctx.arc(canvas.width / 2, canvas.height / 2, 80, 0, Math.PI * 2);
+      ctx.fillStyle = BACKGROUND;
+      ctx.fill();
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.stroke();
+    };
 
-      // Active state
-      // Dynamic radius based on volume
-      const dynamicRadius = baseRadius + (volume * 100); 
-      
-      // Color based on mode
-      const color = mode === 'listening' ? '#FACC15' : '#38BDF8'; // Gold (User) vs Sky Blue (AI)
-      
-      // Create glow effect
-      const gradient = ctx.createRadialGradient(centerX, centerY, baseRadius * 0.5, centerX, centerY, dynamicRadius * 1.5);
+    const drawGlow = (color: string, radius: number) => {
+      const centerX = canvas.width / 2;
+      const centerY = canvas.height / 2;
+      const gradient = ctx.createRadialGradient(centerX, centerY, 40, centerX, centerY, radius * 1.5);
       gradient.addColorStop(0, color);
       gradient.addColorStop(1, 'transparent');
-
       ctx.fillStyle = gradient;
       ctx.beginPath();
-      ctx.arc(centerX, centerY, dynamicRadius, 0, Math.PI * 2);
-      ctx.fill();
-
-      // Inner solid circle
-      ctx.beginPath();
-      ctx.arc(centerX, centerY, baseRadius, 0, Math.PI * 2);
-      ctx.fillStyle = '#0F172A'; // Back to bg color
+      ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
       ctx.fill();
-      ctx.strokeStyle = color;
-      ctx.lineWidth = 4;
-      ctx.stroke();
+    };
 
-      // Ripples
+    const drawRipples = (color: string, speed: number) => {
       for (let i = 0; i < 3; i++) {
-        const rippleRadius = baseRadius + ((time * 20 + i * 30) % 100);
-        const opacity = 1 - ((rippleRadius - baseRadius) / 100);
-        
+        const rippleRadius = 80 + ((time * speed + i * 30) % 100);
         ctx.beginPath();
-        ctx.arc(centerX, centerY, rippleRadius, 0, Math.PI * 2);
-        ctx.strokeStyle = `${color}${Math.floor(opacity * 255).toString(16).padStart(2, '0')}`;
+        ctx.arc(canvas.width / 2, canvas.height / 2, rippleRadius, 0, Math.PI * 2);
+        ctx.strokeStyle = withAlpha(color, 1 - (rippleRadius - 80) / 100);
         ctx.lineWidth = 1;
         ctx.stroke();
       }
+    };
+
+    const render = () => {
+      if (!reducedMotion) time += 0.05;
+      const centerX = canvas.width / 2;
+      const centerY = canvas.height / 2;
+      const baseRadius = 80;
+
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      const target = state === 'user-speaking' || state === 'listening'
+        ? levels.current.input
+        : state === 'model-speaking'
+          ? levels.current.output
+          : 0;
+      if (!reducedMotion) level += (target - level) * 0.3;
+
+      switch (state) {
+        case 'idle':
+          // Not connected: plain ring, no animation
+          drawCore(SLATE, 2);
+          return;
+
+        case 'listening': {
+          // Waiting for the guest: slow breathing gold ring
+          const breath = reducedMotion ? 0.5 : (Math.sin(time) + 1) / 2;
+          drawGlow(withAlpha(GOLD, 0.25 + breath * 0.15), baseRadius + 10 + breath * 10 + level * 60);
+          drawCore(GOLD, 3);
+          break;
+        }
+
+        case 'user-speaking':
+          // Guest talking: gold orb follows the microphone
+          drawGlow(GOLD, baseRadius + level * 100);
+          drawCore(GOLD);
+          if (!reducedMotion) drawRipples(GOLD, 20);
+          break;
+
+        case 'waiting-for-model': {
+          // Agent thinking: sky blue arc orbiting the ring (dashed when still)
+          drawCore(withAlpha(SKY, 0.4), 3);
+          if (reducedMotion) {
+            ctx.setLineDash([12, 12]);
+            drawCore(SKY, 3);
+            ctx.setLineDash([]);
+            break;
+          }
+          const start = time * 2;
+          ctx.beginPath();
+          ctx.arc(centerX, centerY, baseRadius, start, start + Math.PI / 2);
+          ctx.strokeStyle = SKY;
+          ctx.lineWidth = 4;
+          ctx.lineCap = 'round';
+          ctx.stroke();
+          ctx.lineCap = 'butt';
+          break;
+        }
+
+        case 'model-speaking':
+          // Agent talking: sky blue orb follows playback
+          drawGlow(SKY, baseRadius + level * 100);
+          drawCore(SKY);
+          if (!reducedMotion) drawRipples(SKY, 30);
+          break;
+
+        case 'interrupted':
+          // Guest barged in: brief rose flash
+          drawGlow(withAlpha(ROSE, 0.5), baseRadius + 20);
+          drawCore(ROSE);
+          break;
+      }
 
-      animationId = requestAnimationFrame(render);
+      if (!reducedMotion) animationId = requestAnimationFrame(render);
     };
 
     render();
 
     return () => cancelAnimationFrame(animationId);
-  }, [isActive, volume, mode]);
+  }, [state, reducedMotion, levels]);
 
   return (
-    <canvas 
-      ref={canvasRef} 
-      width={400} 
-      height={400} 
+    <canvas
+      ref={canvasRef}
+      width={400}
+      height={400}
+      // Decorative: the status badge and live regions carry the same information
+      aria-hidden="true"
       className="w-full max-w-[400px] h-auto mx-auto"
     />
   );
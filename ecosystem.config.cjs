@@ -3,7 +3,7 @@ module.exports = {
         {
             name: 'demo-voice',
             script: 'npm',
-            args: 'run preview',
+            args: 'run server',
             cwd: '/opt/demo-voice',
             instances: 1,
             autorestart: true,
@@ -12,6 +12,8 @@ module.exports = {
             env: {
                 NODE_ENV: 'production',
                 PORT: 3000
+                // Behind nginx/Caddy, add TRUST_PROXY: '1' so rate limits use the real
+                // client IP. Only do so when the port is not reachable directly (see DEPLOY.md)
             },
             error_file: './logs/err.log',
             out_file: './logs/out.log',
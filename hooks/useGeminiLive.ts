@@ -0,0 +1,183 @@
+import { MutableRefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { GeminiLiveOptions, GeminiLiveService, InputMode } from '../services/geminiLive';
+import { ConversationRecording } from '../services/conversationRecorder';
+import { AudioSettings } from '../services/audioDevices';
+import { AgentSettings } from '../services/agentSettings';
+import { SessionUsage } from '../services/sessionLimits';
+import { HandoffState } from '../services/handoffProtocol';
+import { ConnectionState, ConversationState, LanguageMode, MessageLog } from '../types';
+
+export interface ConnectOptions {
+  record?: boolean; // only after the guest has consented
+  inputMode?: InputMode;
+  voice?: boolean; // false starts the call as text chat
+}
+
+// Guest microphone and agent playback, 0 to 1
+export interface AudioLevels {
+  input: number;
+  output: number;
+}
+
+export interface UseGeminiLiveResult {
+  status: ConnectionState;
+  conversationState: ConversationState;
+  // Updated every audio frame without re-rendering; read it while animating
+  levels: MutableRefObject<AudioLevels>;
+  turns: MessageLog[];
+  error: string | null;
+  // Exports from the last recorded call, if recording was enabled
+  recording: ConversationRecording | null;
+  muted: boolean;
+  // Push-to-talk button currently held
+  talking: boolean;
+  // Microphone on (voice) or off (text chat)
+  voiceEnabled: boolean;
+  playbackEnabled: boolean;
+  // Agent audio is audible right now, not just received
+  isPlaying: boolean;
+  // Why the microphone could not be used, if the call fell back to text
+  voiceUnavailable: string | null;
+  // Tokens and duration of the current or last call, with its end reason
+  usage: SessionUsage | null;
+  // Staff handoff after the agent escalated the call, if any
+  handoff: HandoffState | null;
+  connect: (language: LanguageMode, options?: ConnectOptions) => Promise<void>;
+  disconnect: () => Promise<void>;
+  setLanguage: (language: LanguageMode) => Promise<void>;
+  setMuted: (muted: boolean) => void;
+  startTalking: () => void;
+  stopTalking: () => void;
+  setAudioSettings: (settings: AudioSettings) => Promise<void>;
+  setVoiceEnabled: (enabled: boolean) => Promise<void>;
+  setPlaybackEnabled: (enabled: boolean) => void;
+  // Model, voice and persona for the next call
+  setAgentSettings: (settings: AgentSettings) => void;
+  sendText: (text: string) => boolean;
+  clearError: () => void;
+  // The underlying service, for subscribing to events not mirrored as state
+  serviceRef: MutableRefObject<GeminiLiveService | null>;
+}
+
+/**
+ * Owns a GeminiLiveService for the lifetime of the component and mirrors
+ * its events into React state, except the audio levels, which change too
+ * often to re-render for. Options are read once, on mount.
+ */
+export function useGeminiLive(options: GeminiLiveOptions = {}): UseGeminiLiveResult {
+  const [status, setStatus] = useState<ConnectionState>('disconnected');
+  const [conversationState, setConversationState] = useState<ConversationState>('idle');
+  const [turns, setTurns] = useState<MessageLog[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [recording, setRecording] = useState<ConversationRecording | null>(null);
+  const [muted, setMutedState] = useState(false);
+  const [talking, setTalking] = useState(false);
+  const [voiceEnabled, setVoiceEnabledState] = useState(options.useMicrophone ?? true);
+  const [playbackEnabled, setPlaybackEnabledState] = useState(true);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [voiceUnavailable, setVoiceUnavailable] = useState<string | null>(null);
+  const [usage, setUsage] = useState<SessionUsage | null>(null);
+  const [handoff, setHandoff] = useState<HandoffState | null>(null);
+
+  const serviceRef = useRef<GeminiLiveService | null>(null);
+  const levels = useRef<AudioLevels>({ input: 0, output: 0 });
+  const optionsRef = useRef(options);
+
+  useEffect(() => {
+    const service = new GeminiLiveService(optionsRef.current);
+    serviceRef.current = service;
+
+    const unsubscribers = [
+      service.on('status', setStatus),
+      service.on('conversationState', setConversationState),
+      service.on('level', (source, level) => { levels.current[source] = level; }),
+      service.on('transcript', setTurns),
+      service.on('recording', setRecording),
+      service.on('muted', setMutedState),
+      service.on('talking', setTalking),
+      service.on('voice', setVoiceEnabledState),
+      service.on('playback', setPlaybackEnabledState),
+      service.on('playing', setIsPlaying),
+      service.on('voiceUnavailable', setVoiceUnavailable),
+      service.on('sessionUsage', setUsage),
+      service.on('handoff', setHandoff),
+      service.on('error', (message) => {
+        console.error(message);
+        setError(message);
+        setStatus('disconnected');
+      }),
+    ];
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      service.disconnect().catch(err => console.error('[GeminiLive] Failed to end the call on unmount:', err));
+      if (serviceRef.current === service) serviceRef.current = null;
+    };
+  }, []);
+
+  const connect = useCallback(async (language: LanguageMode, connectOptions: ConnectOptions = {}) => {
+    const service = serviceRef.current;
+    if (!service) return;
+    setError(null);
+    setRecording(null);
+    setVoiceUnavailable(null);
+    setUsage(null);
+    service.setRecordingEnabled(!!connectOptions.record);
+    if (connectOptions.inputMode) service.setInputMode(connectOptions.inputMode);
+    if (connectOptions.voice !== undefined) await service.setVoiceEnabled(connectOptions.voice);
+    await service.connect(language);
+  }, []);
+
+  const disconnect = useCallback(async () => {
+    await serviceRef.current?.disconnect();
+  }, []);
+
+  const setLanguage = useCallback(async (language: LanguageMode) => {
+    await serviceRef.current?.setLanguage(language);
+  }, []);
+
+  const setMuted = useCallback((next: boolean) => serviceRef.current?.setMuted(next), []);
+  const startTalking = useCallback(() => serviceRef.current?.startTalking(), []);
+  const stopTalking = useCallback(() => serviceRef.current?.stopTalking(), []);
+  const setAudioSettings = useCallback(async (settings: AudioSettings) => {
+    await serviceRef.current?.setAudioSettings(settings);
+  }, []);
+  const setVoiceEnabled = useCallback(async (enabled: boolean) => {
+    if (enabled) setVoiceUnavailable(null);
+    await serviceRef.current?.setVoiceEnabled(enabled);
+  }, []);
+  const setPlaybackEnabled = useCallback((enabled: boolean) => serviceRef.current?.setPlaybackEnabled(enabled), []);
+  const setAgentSettings = useCallback((settings: AgentSettings) => serviceRef.current?.setAgentSettings(settings), []);
+  const sendText = useCallback((text: string) => serviceRef.current?.sendText(text) ?? false, []);
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    status,
+    conversationState,
+    levels,
+    turns,
+    error,
+    recording,
+    muted,
+    talking,
+    voiceEnabled,
+    playbackEnabled,
+    isPlaying,
+    voiceUnavailable,
+    usage,
+    handoff,
+    connect,
+    disconnect,
+    setLanguage,
+    setMuted,
+    startTalking,
+    stopTalking,
+    setAudioSettings,
+    setVoiceEnabled,
+    setPlaybackEnabled,
+    setAgentSettings,
+    sendText,
+    clearError,
+    serviceRef,
+  };
+}
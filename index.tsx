@@ -1,15 +1,25 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import AdminDashboard from './components/AdminDashboard';
+import StaffConsole from './components/StaffConsole';
+import { selectProfileFromLocation } from './services/restaurantProfiles';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Staff call history lives at `/admin` or `/r/<id>/admin`
+const isAdminRoute = /\/admin\/?$/.test(window.location.pathname);
+// Escalated conversations for every venue are handled at `/staff`
+const isStaffRoute = /^\/staff\/?$/.test(window.location.pathname);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isStaffRoute ? <StaffConsole />
+      : isAdminRoute ? <AdminDashboard profile={selectProfileFromLocation(window.location)} />
+      : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
@@ -0,0 +1,18 @@
+import en from './en.json';
+import ar from './ar.json';
+import fr from './fr.json';
+import ru from './ru.json';
+import tr from './tr.json';
+
+/**
+ * Raw language definitions, validated by services/languages.ts.
+ * To add a language, add its JSON file here and list its code in a
+ * restaurant profile's `languages`.
+ */
+export const LANGUAGE_CONFIGS: unknown[] = [
+  en,
+  ar,
+  fr,
+  ru,
+  tr,
+];
@@ -0,0 +1,17 @@
+import goldenSpice from './golden-spice.json';
+import goldenSpiceMenu from './golden-spice.menu.json';
+
+/**
+ * Raw restaurant configs, validated by services/restaurantProfiles.ts.
+ * To onboard a venue, add its JSON file here; the first entry is the default.
+ */
+export const RESTAURANT_CONFIGS: unknown[] = [
+  goldenSpice,
+];
+
+/**
+ * Raw menus keyed by restaurant id, validated by services/menu.ts.
+ */
+export const RESTAURANT_MENUS: Record<string, unknown> = {
+  'golden-spice': goldenSpiceMenu,
+};
@@ -0,0 +1,537 @@
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { createHostessServer } from './app';
+import { readServerConfig } from './config';
+import { createMockUpstream, MockUpstreamOptions } from './mockUpstream';
+
+const running: Server[] = [];
+
+async function listen(server: Server): Promise<string> {
+  running.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * Starts the mock upstream and a server pointed at it. Requests can claim an
+ * IP through X-Forwarded-For, since the server trusts the proxy header.
+ */
+async function startServer(env: NodeJS.ProcessEnv = {}, upstream: MockUpstreamOptions = {}) {
+  const upstreamUrl = await listen(createMockUpstream(upstream));
+  const config = readServerConfig({
+    GEMINI_API_KEY: 'test',
+    GEMINI_API_BASE_URL: upstreamUrl,
+    TRUST_PROXY: '1',
+    // Reservations stay in memory
+    DATA_DIR: '',
+    ...env,
+  });
+  const baseUrl = await listen(createHostessServer(config));
+
+  // With a sessionId, renews that call's lease
+  const createSession = (ip = '203.0.113.1', sessionId?: string) => fetch(`${baseUrl}/api/session`, {
+    method: 'POST',
+    headers: { 'X-Forwarded-For': ip },
+    ...(sessionId ? { body: JSON.stringify({ sessionId }) } : {}),
+  });
+  const releaseSession = (sessionId: string, ip = '203.0.113.1') => fetch(`${baseUrl}/api/session/release`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': ip },
+    body: JSON.stringify({ sessionId }),
+  });
+  const callBookingTool = (tool: string, args: Record<string, unknown>, ip = '203.0.113.1') =>
+    fetch(`${baseUrl}/api/bookings/${tool}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': ip },
+      body: JSON.stringify({ restaurant: 'golden-spice', args }),
+    });
+  return { baseUrl, createSession, releaseSession, callBookingTool };
+}
+
+afterEach(async () => {
+  await Promise.all(running.splice(0).map(server => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(resolve);
+  })));
+});
+
+describe('POST /api/session', () => {
+  it('mints a single-use token from the upstream', async () => {
+    const { createSession } = await startServer({ SESSION_MAX_SECONDS: '600', IDLE_TIMEOUT_SECONDS: '45' });
+
+    const res = await createSession();
+    expect(res.status).toBe(200);
+    expect(res.headers.get('cache-control')).toBe('no-store');
+    const body = await res.json();
+    expect(body.token).toMatch(/^auth_tokens\/mock-/);
+    expect(body.sessionId).toEqual(expect.any(String));
+    expect(Date.parse(body.expiresAt)).toBeGreaterThan(Date.now());
+    // The token outlives the call limit by a minute at most, not the full token lifetime
+    expect(Date.parse(body.expiresAt)).toBeLessThanOrEqual(Date.now() + 660_000);
+    expect(body.limits).toEqual({ maxSessionSeconds: 600, idleTimeoutSeconds: 45, warningSeconds: 30 });
+  });
+
+  it('rate-limits each IP separately', async () => {
+    const { createSession } = await startServer({ RATE_LIMIT_MAX_REQUESTS: '2', MAX_SESSIONS_PER_IP: '10' });
+
+    expect((await createSession()).status).toBe(200);
+    expect((await createSession()).status).toBe(200);
+    const limited = await createSession();
+    expect(limited.status).toBe(429);
+    expect((await limited.json()).error).toBe('rate_limited');
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+
+    expect((await createSession('198.51.100.7')).status).toBe(200);
+  });
+
+  it('caps concurrent sessions per IP until one is released', async () => {
+    const { createSession, releaseSession } = await startServer({ MAX_SESSIONS_PER_IP: '1' });
+
+    const first = await (await createSession()).json();
+    const capped = await createSession();
+    expect(capped.status).toBe(429);
+    expect((await capped.json()).error).toBe('ip_cap');
+
+    // Another IP cannot release someone else's session
+    expect(await (await releaseSession(first.sessionId, '198.51.100.7')).json()).toEqual({ released: false });
+    expect(await (await releaseSession(first.sessionId)).json()).toEqual({ released: true });
+    expect((await createSession()).status).toBe(200);
+  });
+
+  it('caps concurrent sessions across all IPs', async () => {
+    const { createSession } = await startServer({ MAX_SESSIONS_PER_IP: '5', MAX_SESSIONS_TOTAL: '2' });
+
+    expect((await createSession('203.0.113.1')).status).toBe(200);
+    expect((await createSession('203.0.113.2')).status).toBe(200);
+    const busy = await createSession('203.0.113.3');
+    expect(busy.status).toBe(429);
+    expect((await busy.json()).error).toBe('global_cap');
+  });
+
+  it('renews a reconnecting call without counting it against the limits', async () => {
+    const { createSession } = await startServer({ RATE_LIMIT_MAX_REQUESTS: '2', MAX_SESSIONS_PER_IP: '1' });
+
+    const first = await (await createSession()).json();
+    for (let i = 0; i < 3; i++) {
+      const renewed = await createSession('203.0.113.1', first.sessionId);
+      expect(renewed.status).toBe(200);
+      expect(await renewed.json()).toMatchObject({ sessionId: first.sessionId, expiresAt: first.expiresAt });
+    }
+    // Still one slot in use and one request left in the window
+    expect((await (await createSession()).json()).error).toBe('ip_cap');
+    // Another IP cannot renew it: it is given a session of its own
+    expect((await createSession('198.51.100.7', first.sessionId)).status).toBe(200);
+    expect((await createSession('198.51.100.7', first.sessionId)).status).toBe(429);
+  });
+
+  it('reports upstream failures and frees the session slot', async () => {
+    const { createSession } = await startServer({ MAX_SESSIONS_PER_IP: '1' }, { fail: true });
+
+    const failed = await createSession();
+    expect(failed.status).toBe(502);
+    expect((await failed.json()).error).toBe('upstream_error');
+    // Not ip_cap: the failed attempt did not keep its lease
+    expect((await createSession()).status).toBe(502);
+  });
+
+  it('refuses to mint tokens without an API key', async () => {
+    const { createSession } = await startServer({ GEMINI_API_KEY: '' });
+
+    const res = await createSession();
+    expect(res.status).toBe(503);
+    expect((await res.json()).error).toBe('missing_api_key');
+  });
+});
+
+describe('POST /api/bookings/<tool>', () => {
+  // A week ahead, at a time Golden Spice is open
+  const date = new Date(Date.now() + 7 * 86_400_000).toISOString().slice(0, 10);
+  const party = (guestName: string) => ({ partySize: 10, date, time: '19:00', guestName, phone: '+12125550123' });
+
+  it('books every session into the same reservation book', async () => {
+    const { callBookingTool } = await startServer();
+
+    // Only one table seats ten, so the second guest cannot have it
+    const first = await (await callBookingTool('create_reservation', party('Sam Carter'))).json();
+    expect(first).toMatchObject({ confirmed: true, confirmationCode: expect.stringMatching(/^GS-/) });
+
+    const check = await (await callBookingTool('check_availability', party('Ana Ruiz'), '198.51.100.7')).json();
+    expect(check.available).toBe(false);
+    const second = await (await callBookingTool('create_reservation', party('Ana Ruiz'), '198.51.100.7')).json();
+    expect(second.confirmed).toBeUndefined();
+    expect(second.error).toEqual(expect.any(String));
+  });
+
+  it('rejects unknown tools and restaurants', async () => {
+    const { baseUrl, callBookingTool } = await startServer();
+
+    expect((await callBookingTool('lookup_menu', {})).status).toBe(404);
+    const unknown = await fetch(`${baseUrl}/api/bookings/check_availability`, {
+      method: 'POST',
+      body: JSON.stringify({ restaurant: 'nowhere', args: party('Sam Carter') }),
+    });
+    expect((await unknown.json()).error).toBe('unknown_restaurant');
+  });
+
+  it('rate-limits booking calls per IP', async () => {
+    const { callBookingTool } = await startServer({ BOOKING_RATE_LIMIT_MAX_REQUESTS: '1' });
+
+    expect((await callBookingTool('find_available_times', { partySize: 2, date })).status).toBe(200);
+    expect((await callBookingTool('find_available_times', { partySize: 2, date })).status).toBe(429);
+    expect((await callBookingTool('find_available_times', { partySize: 2, date }, '198.51.100.7')).status).toBe(200);
+  });
+});
+
+describe('/api/agent-settings', () => {
+  const saveSettings = (baseUrl: string, settings: Record<string, unknown>, token?: string) =>
+    fetch(`${baseUrl}/api/agent-settings?restaurant=golden-spice`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify(settings),
+    });
+
+  it('serves the saved settings to every session', async () => {
+    const { baseUrl } = await startServer({ ADMIN_TOKEN: 'admin-secret' });
+
+    const defaults = await (await fetch(`${baseUrl}/api/agent-settings?restaurant=golden-spice`)).json();
+    expect(defaults).toMatchObject({ voice: null, personaName: null, tone: 'warm' });
+
+    const saved = await saveSettings(baseUrl, { ...defaults, voice: 'Puck', personaName: 'Mira', model: 'retired-model' }, 'admin-secret');
+    expect(saved.status).toBe(200);
+    // Values we do not offer fall back to the defaults
+    expect(await saved.json()).toMatchObject({ voice: 'Puck', personaName: 'Mira', model: defaults.model });
+    const reread = await (await fetch(`${baseUrl}/api/agent-settings?restaurant=golden-spice`)).json();
+    expect(reread).toMatchObject({ voice: 'Puck', personaName: 'Mira' });
+  });
+
+  it('only lets the admin token change them', async () => {
+    const { baseUrl } = await startServer({ ADMIN_TOKEN: 'admin-secret' });
+
+    expect((await saveSettings(baseUrl, { voice: 'Puck' })).status).toBe(401);
+    expect((await saveSettings(baseUrl, { voice: 'Puck' }, 'admin-secreT')).status).toBe(401);
+    const current = await (await fetch(`${baseUrl}/api/agent-settings?restaurant=golden-spice`)).json();
+    expect(current.voice).toBeNull();
+  });
+
+  it('stays read-only without an admin token', async () => {
+    const { baseUrl } = await startServer();
+
+    const res = await saveSettings(baseUrl, { voice: 'Puck' }, 'anything');
+    expect(res.status).toBe(503);
+    expect((await res.json()).error).toBe('admin_disabled');
+  });
+});
+
+describe('/api/calls', () => {
+  const call = (overrides: Record<string, unknown> = {}) => ({
+    startedAt: '2026-10-18T16:00:00.000Z',
+    endedAt: '2026-10-18T16:02:30.000Z',
+    language: 'en',
+    turns: [
+      { role: 'model', text: 'Good evening, Golden Spice.', startedAt: '2026-10-18T16:00:01.000Z', status: 'complete' },
+      { role: 'user', text: 'A table for ten, please.', startedAt: '2026-10-18T16:00:05.000Z', status: 'complete', channel: 'voice' },
+    ],
+    confirmationCodes: [],
+    endReason: 'hangup',
+    totalTokens: 1200,
+    ...overrides,
+  });
+  const reportCall = (baseUrl: string, sessionId: string, body: unknown, ip = '203.0.113.1') => fetch(`${baseUrl}/api/calls`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': ip },
+    body: JSON.stringify({ restaurant: 'golden-spice', sessionId, call: body }),
+  });
+  // A session lease for the call, as the guest's browser holds
+  const sessionFor = async (createSession: (ip?: string) => Promise<Response>) => (await (await createSession()).json()).sessionId as string;
+  const analytics = (baseUrl: string, query = '', token = 'admin-secret') =>
+    fetch(`${baseUrl}/api/calls?restaurant=golden-spice${query}`, { headers: { Authorization: `Bearer ${token}` } });
+
+  it('builds the analytics from every reported call', async () => {
+    const { baseUrl, callBookingTool, createSession } = await startServer({ ADMIN_TOKEN: 'admin-secret' });
+    const date = new Date(Date.now() + 7 * 86_400_000).toISOString().slice(0, 10);
+    const booking = await (await callBookingTool('create_reservation', {
+      partySize: 2, date, time: '19:00', guestName: 'Sam Carter', phone: '+12125550123',
+    })).json();
+
+    const bookedCall = call({ confirmationCodes: [booking.confirmationCode] });
+    expect((await reportCall(baseUrl, await sessionFor(createSession), bookedCall)).status).toBe(200);
+    // A code that is not in the reservation book does not count as a booking
+    const unbookedCall = call({ language: 'fr', confirmationCodes: ['GS-FAKE'] });
+    expect((await reportCall(baseUrl, await sessionFor(createSession), unbookedCall)).status).toBe(200);
+
+    const { calls, summary } = await (await analytics(baseUrl)).json();
+    expect(calls).toHaveLength(2);
+    expect(summary).toMatchObject({ calls: 2, bookings: 1, conversionRate: 0.5, averageDurationSec: 150 });
+    expect(calls.find((c: { language: string }) => c.language === 'fr').confirmationCodes).toEqual([]);
+
+    const booked = await (await analytics(baseUrl, '&outcome=booked')).json();
+    expect(booked.calls.map((c: { confirmationCodes: string[] }) => c.confirmationCodes)).toEqual([[booking.confirmationCode]]);
+    // Dates are the restaurant's: 16:00 UTC is still the 18th in New York
+    expect((await (await analytics(baseUrl, '&from=2026-10-19')).json()).calls).toEqual([]);
+  });
+
+  it('rejects malformed or oversized reports', async () => {
+    const { baseUrl, createSession } = await startServer({ ADMIN_TOKEN: 'admin-secret' });
+    const sessionId = await sessionFor(createSession);
+
+    const many = Array.from({ length: 501 }, () => call().turns[0]);
+    const bad = [
+      call({ turns: many }),
+      call({ turns: [{ role: 'system', text: 'hi', startedAt: '2026-10-18T16:00:01.000Z', status: 'complete' }] }),
+      call({ turns: [{ ...call().turns[0], text: 'x'.repeat(4001) }] }),
+      call({ language: 'de' }),
+      call({ endedAt: '2026-10-18T15:00:00.000Z' }),
+    ];
+    for (const report of bad) {
+      const res = await reportCall(baseUrl, sessionId, report);
+      expect(res.status).toBe(400);
+      expect((await res.json()).error).toBe('invalid_call');
+    }
+    expect((await (await analytics(baseUrl)).json()).calls).toEqual([]);
+  });
+
+  it('takes one report per issued session', async () => {
+    const { baseUrl, createSession } = await startServer({ ADMIN_TOKEN: 'admin-secret' });
+    const sessionId = await sessionFor(createSession);
+
+    expect((await reportCall(baseUrl, 'made-up', call())).status).toBe(403);
+    expect((await reportCall(baseUrl, sessionId, call(), '198.51.100.7')).status).toBe(403);
+    expect((await reportCall(baseUrl, sessionId, call())).status).toBe(200);
+    expect((await reportCall(baseUrl, sessionId, call())).status).toBe(403);
+    expect((await (await analytics(baseUrl)).json()).calls).toHaveLength(1);
+  });
+
+  it('stores a long call without its last turns', async () => {
+    const { baseUrl, createSession } = await startServer({ ADMIN_TOKEN: 'admin-secret' });
+    const turns = Array.from({ length: 100 }, (_, i) => ({ ...call().turns[0], text: `${i} ${'x'.repeat(1000)}` }));
+
+    expect((await reportCall(baseUrl, await sessionFor(createSession), call({ turns }))).status).toBe(200);
+    const [stored] = (await (await analytics(baseUrl)).json()).calls;
+    expect(stored.turns.length).toBeGreaterThan(0);
+    expect(stored.turns.length).toBeLessThan(100);
+    expect(stored.turns[0].text).toMatch(/^0 /);
+  });
+
+  it('only shows calls to the admin token', async () => {
+    const { baseUrl } = await startServer({ ADMIN_TOKEN: 'admin-secret' });
+
+    expect((await analytics(baseUrl, '', 'wrong')).status).toBe(401);
+    expect((await fetch(`${baseUrl}/api/calls?restaurant=golden-spice`)).status).toBe(401);
+  });
+});
+
+describe('WS /api/telephony/media', () => {
+  const PHONE = { TELEPHONY_ENABLED: '1', TELEPHONY_TOKEN: 'phone-secret' };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Opens a media stream from `ip`; resolves with the socket once open, or
+   * with the HTTP status the upgrade was refused with.
+   */
+  const dial = (baseUrl: string, ip = '203.0.113.9') => new Promise<WebSocket | number>((resolve, reject) => {
+    const ws = new WebSocket(`${baseUrl.replace('http', 'ws')}/api/telephony/media`, { headers: { 'X-Forwarded-For': ip } });
+    ws.on('open', () => resolve(ws));
+    ws.on('unexpected-response', (_req, res) => resolve(res.statusCode ?? 0));
+    ws.on('error', reject);
+  });
+  const closed = (ws: WebSocket) => new Promise<void>(resolve => {
+    if (ws.readyState === ws.CLOSED) resolve();
+    else ws.on('close', () => resolve());
+  });
+  const start = (ws: WebSocket, token: string) => ws.send(JSON.stringify({
+    event: 'start',
+    start: { streamSid: 'MZ1', customParameters: { token, restaurant: 'golden-spice' } },
+  }));
+
+  it('refuses calls while no token is configured', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { baseUrl } = await startServer({ TELEPHONY_ENABLED: '1' });
+
+    expect(await dial(baseUrl)).toBe(503);
+  });
+
+  it('hangs up on a wrong token or a stream that never starts', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { baseUrl } = await startServer({ ...PHONE, TELEPHONY_START_TIMEOUT_SECONDS: '0.1' });
+
+    const impostor = await dial(baseUrl) as WebSocket;
+    start(impostor, 'guess');
+    await closed(impostor);
+
+    const silent = await dial(baseUrl) as WebSocket;
+    await closed(silent);
+  });
+
+  it('hangs up on a caller who stays silent', async () => {
+    const { baseUrl } = await startServer({ ...PHONE, IDLE_TIMEOUT_SECONDS: '1', LIMIT_WARNING_SECONDS: '0' });
+
+    const call = await dial(baseUrl) as WebSocket;
+    start(call, 'phone-secret');
+    // The mock agent's two-second greeting does not count as idle time
+    const startedAt = Date.now();
+    await closed(call);
+    expect(Date.now() - startedAt).toBeGreaterThan(2000);
+  }, 10_000);
+
+  // Resumed sessions show up in the mock upstream's log
+  const resumedSessions = () => vi.mocked(console.log).mock.calls
+    .filter(([line]) => String(line).startsWith('[MockUpstream] Live session resumed from mock-handle-')).length;
+
+  it('keeps the caller on the line when the Live session sends goAway', async () => {
+    const { baseUrl } = await startServer(PHONE, { goAwayAfterSeconds: 0.5 });
+
+    const call = await dial(baseUrl) as WebSocket;
+    start(call, 'phone-secret');
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    expect(call.readyState).toBe(call.OPEN);
+    expect(resumedSessions()).toBeGreaterThan(0);
+    call.close();
+  });
+
+  it('resumes the Live session when it drops mid-call', async () => {
+    const { baseUrl } = await startServer(PHONE, { dropAfterSeconds: 0.3 });
+
+    const call = await dial(baseUrl) as WebSocket;
+    start(call, 'phone-secret');
+    // The first reconnect waits 500 ms
+    await new Promise(resolve => setTimeout(resolve, 1000));
+    expect(call.readyState).toBe(call.OPEN);
+    expect(resumedSessions()).toBeGreaterThan(0);
+    call.close();
+  });
+
+  it('counts phone calls against the rate limit and session caps', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { baseUrl, createSession } = await startServer({ ...PHONE, MAX_SESSIONS_PER_IP: '1', RATE_LIMIT_MAX_REQUESTS: '3' });
+
+    const call = await dial(baseUrl, '203.0.113.1') as WebSocket;
+    start(call, 'phone-secret');
+    // The call holds this IP's only session slot
+    expect(await dial(baseUrl, '203.0.113.1')).toBe(429);
+
+    // Hanging up frees it, and both dials counted towards the rate limit
+    call.close();
+    await closed(call);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect((await createSession('203.0.113.1')).status).toBe(200);
+    const limited = await createSession('203.0.113.1');
+    expect((await limited.json()).error).toBe('rate_limited');
+  });
+});
+
+describe('WS /api/handoff/*', () => {
+  const HANDOFF = { STAFF_TOKEN: 'staff-secret' };
+  const turn = (text: string) => ({ role: 'user', text, startedAt: '2026-10-18T16:00:00.000Z', status: 'complete' });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Opens a relay socket from `ip`; resolves with it once open, or with the
+   * HTTP status the upgrade was refused with.
+   */
+  const dial = (baseUrl: string, side: 'guest' | 'staff', ip = '203.0.113.9') => new Promise<WebSocket | number>((resolve, reject) => {
+    const ws = new WebSocket(`${baseUrl.replace('http', 'ws')}/api/handoff/${side}`, { headers: { 'X-Forwarded-For': ip } });
+    ws.on('open', () => resolve(ws));
+    ws.on('unexpected-response', (_req, res) => resolve(res.statusCode ?? 0));
+    ws.on('error', reject);
+  });
+  const closeCode = (ws: WebSocket) => new Promise<number>(resolve => ws.on('close', code => resolve(code)));
+  const nextMessage = (ws: WebSocket) => new Promise<any>(resolve => ws.once('message', data => resolve(JSON.parse(data.toString()))));
+  const escalate = (ws: WebSocket, turns: unknown[], restaurantId = 'golden-spice') =>
+    ws.send(JSON.stringify({ type: 'escalate', restaurantId, reason: 'complaint', summary: 'Cold soup', turns }));
+
+  it('only lists conversations to a console that sends the staff token', async () => {
+    const { baseUrl } = await startServer(HANDOFF);
+
+    const impostor = await dial(baseUrl, 'staff') as WebSocket;
+    impostor.send(JSON.stringify({ type: 'auth', token: 'guess' }));
+    expect(await closeCode(impostor)).toBe(1008);
+
+    const staff = await dial(baseUrl, 'staff') as WebSocket;
+    staff.send(JSON.stringify({ type: 'auth', token: 'staff-secret' }));
+    expect(await nextMessage(staff)).toEqual({ type: 'conversations', conversations: [] });
+    staff.close();
+  });
+
+  it('appends each transcript update to the escalated conversation', async () => {
+    const { baseUrl } = await startServer(HANDOFF);
+    const staff = await dial(baseUrl, 'staff') as WebSocket;
+    staff.send(JSON.stringify({ type: 'auth', token: 'staff-secret' }));
+    await nextMessage(staff);
+
+    const guest = await dial(baseUrl, 'guest') as WebSocket;
+    escalate(guest, [turn('The soup was cold')]);
+    expect((await nextMessage(staff)).conversations[0].turns.map((t: { text: string }) => t.text)).toEqual(['The soup was cold']);
+
+    guest.send(JSON.stringify({ type: 'transcript', turns: [turn('Can I speak to someone?')] }));
+    const { conversations } = await nextMessage(staff);
+    expect(conversations[0].turns.map((t: { text: string }) => t.text)).toEqual(['The soup was cold', 'Can I speak to someone?']);
+    guest.close();
+    staff.close();
+  });
+
+  it('turns away malformed escalations', async () => {
+    const { baseUrl } = await startServer(HANDOFF);
+
+    const badTurns = await dial(baseUrl, 'guest') as WebSocket;
+    escalate(badTurns, [{ role: 'staff', text: 42 }]);
+    expect(await closeCode(badTurns)).toBe(1008);
+
+    const unknownRestaurant = await dial(baseUrl, 'guest') as WebSocket;
+    escalate(unknownRestaurant, [], 'nowhere');
+    expect(await closeCode(unknownRestaurant)).toBe(1008);
+  });
+
+  it('rate-limits escalations per IP', async () => {
+    const { baseUrl } = await startServer({ ...HANDOFF, HANDOFF_RATE_LIMIT_MAX_REQUESTS: '1' });
+
+    const first = await dial(baseUrl, 'guest', '203.0.113.1') as WebSocket;
+    expect(await dial(baseUrl, 'guest', '203.0.113.1')).toBe(429);
+    const elsewhere = await dial(baseUrl, 'guest', '203.0.113.2') as WebSocket;
+    first.close();
+    elsewhere.close();
+  });
+});
+
+describe('static files', () => {
+  let dir: string | null = null;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it('never serves files outside the static directory', async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'hostess-static-'));
+    await mkdir(path.join(dir, 'dist'));
+    await mkdir(path.join(dir, 'dist-private'));
+    await writeFile(path.join(dir, 'dist', 'index.html'), '<p>app</p>');
+    await writeFile(path.join(dir, 'dist-private', 'secret.txt'), 'secret');
+    const { baseUrl } = await startServer({ STATIC_DIR: path.join(dir, 'dist') });
+
+    const app = await fetch(`${baseUrl}/`);
+    expect(await app.text()).toBe('<p>app</p>');
+    // Encoded so neither fetch nor URL parsing resolves the dot segments
+    expect((await fetch(`${baseUrl}/..%2Fdist-private%2Fsecret.txt`)).status).toBe(403);
+    expect((await fetch(`${baseUrl}/..%2F..%2Fetc%2Fpasswd`)).status).toBe(403);
+  });
+});
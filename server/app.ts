@@ -0,0 +1,448 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { GoogleGenAI } from '@google/genai';
+import { WebSocketServer } from 'ws';
+import { ServerConfig } from './config';
+import { RateLimiter } from './rateLimiter';
+import { SessionLease, SessionRegistry } from './sessionRegistry';
+import { applyCors, bearerToken, clientIp, isSameOrigin, readJsonBody, sendJson, serveStatic, tokensMatch } from './http';
+import { PhoneCallBridge } from './telephonyBridge';
+import { HandoffRelay } from './handoffRelay';
+import { BookingDesk } from './bookingDesk';
+import { JsonFileStorage } from './jsonFileStorage';
+import { MemoryStorage } from './memoryStorage';
+import { HANDOFF_GUEST_PATH, HANDOFF_STAFF_PATH } from '../services/handoffProtocol';
+import { getProfile } from '../services/restaurantProfiles';
+import { ToolArgs, isBookingTool } from '../services/tools';
+import { loadAgentSettings, saveAgentSettings } from '../services/agentSettings';
+import { CallHistoryStore, validateCallReport } from '../services/callHistory';
+import { CallOutcome, filterCalls, summarizeCalls } from '../services/callAnalytics';
+import { RestaurantProfile } from '../types';
+
+/**
+ * Production server, returned unstarted: serves the built app and hands out
+ * short-lived Live API credentials so GEMINI_API_KEY never reaches the browser.
+ *
+ *   POST /api/session          -> { token, sessionId, expiresAt, limits } (<- { sessionId } renews a lease)
+ *   POST /api/session/release  <- { sessionId }
+ *   POST /api/bookings/<tool>  <- { restaurant, args } -> the booking tool's result
+ *   GET  /api/agent-settings?restaurant=<id>  -> the agent's model, voice and persona
+ *   PUT  /api/agent-settings?restaurant=<id>  <- new settings (Bearer ADMIN_TOKEN)
+ *   POST /api/calls            <- { restaurant, sessionId, call } once, when a guest's call ends
+ *   GET  /api/calls?restaurant=<id>&from&to&outcome  -> { calls, summary } (Bearer ADMIN_TOKEN)
+ *   WS   /api/telephony/media  Twilio-style media stream (TELEPHONY_ENABLED=1, TELEPHONY_TOKEN)
+ *   WS   /api/handoff/guest    a guest's escalated conversation
+ *   WS   /api/handoff/staff    the staff console (sends STAFF_TOKEN first)
+ *
+ * Cross-origin API calls (the embeddable widget) are allowed for ALLOWED_ORIGINS.
+ */
+// Time to open a web session and say goodbye, past SESSION_MAX_SECONDS
+const SESSION_LIMIT_MARGIN_SECONDS = 60;
+
+export function createHostessServer(config: ServerConfig): Server {
+  const ai = new GoogleGenAI({
+    apiKey: config.apiKey,
+    httpOptions: { apiVersion: 'v1alpha', baseUrl: config.apiBaseUrl },
+  });
+
+  const rateLimiter = new RateLimiter(
+    config.rateLimitWindowSeconds * 1000,
+    config.rateLimitMaxRequests
+  );
+  const sessions = new SessionRegistry(config.maxSessionsPerIp, config.maxSessionsTotal);
+  // Tokens, and so calls, expire shortly after the call limit even if a
+  // browser ignores it; the margin covers opening the session and goodbyes
+  const leaseTtlMs = (config.sessionMaxSeconds > 0
+    ? Math.min(config.tokenSessionTtlSeconds, config.sessionMaxSeconds + SESSION_LIMIT_MARGIN_SECONDS)
+    : config.tokenSessionTtlSeconds) * 1000;
+
+  // Reservations and agent settings, shared by every session and phone call
+  const storage = config.dataDir ? new JsonFileStorage(config.dataDir) : new MemoryStorage();
+  const bookings = new BookingDesk(storage);
+  const bookingLimiter = new RateLimiter(
+    config.rateLimitWindowSeconds * 1000,
+    config.bookingRateLimitMaxRequests
+  );
+
+  // Finished calls, for the admin dashboard's analytics. A guest reports
+  // each call once, so reports are limited like credential requests
+  const callLogs = new Map<string, CallHistoryStore>();
+  const callLogFor = (profile: RestaurantProfile) => {
+    let log = callLogs.get(profile.id);
+    if (!log) {
+      log = new CallHistoryStore(profile.id, storage);
+      callLogs.set(profile.id, log);
+    }
+    return log;
+  };
+  const callReportLimiter = new RateLimiter(
+    config.rateLimitWindowSeconds * 1000,
+    config.rateLimitMaxRequests
+  );
+
+  /**
+   * Lets the request through with a valid ADMIN_TOKEN; otherwise answers it.
+   */
+  function requireAdmin(req: IncomingMessage, res: ServerResponse): boolean {
+    if (!config.adminToken) {
+      sendJson(res, 503, { error: 'admin_disabled', message: 'Set ADMIN_TOKEN on the server to use the admin dashboard.' });
+      return false;
+    }
+    if (!tokensMatch(bearerToken(req), config.adminToken)) {
+      console.warn(`[Server] Rejecting ${req.method} ${req.url} with a bad admin token`);
+      sendJson(res, 401, { error: 'unauthorized', message: 'The admin token was not accepted.' });
+      return false;
+    }
+    return true;
+  }
+
+  async function handleCreateSession(req: IncomingMessage, res: ServerResponse) {
+    const ip = clientIp(req, config.trustProxy);
+
+    // A call reconnecting or replacing its session sends its sessionId and
+    // keeps its lease: it is not rate limited again and takes no new slot
+    const { sessionId } = await readJsonBody<{ sessionId?: unknown }>(req).catch(() => ({ sessionId: undefined }));
+    const renewed = typeof sessionId === 'string' && config.apiKey ? sessions.renew(sessionId, ip) : null;
+    if (renewed) {
+      await issueToken(res, renewed, ip);
+      return;
+    }
+
+    const limit = rateLimiter.hit(ip);
+    if (!limit.allowed) {
+      sendJson(res, 429, { error: 'rate_limited', message: 'Too many requests, please wait a moment.' }, {
+        'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)),
+      });
+      return;
+    }
+
+    if (!config.apiKey) {
+      console.error('[Server] GEMINI_API_KEY is missing');
+      sendJson(res, 503, { error: 'missing_api_key', message: 'The server is missing GEMINI_API_KEY.' });
+      return;
+    }
+
+    const lease = sessions.acquire(ip, leaseTtlMs);
+    if (typeof lease === 'string') {
+      const message = lease === 'ip_cap'
+        ? 'Too many active sessions from this device.'
+        : 'All lines are busy right now, please try again shortly.';
+      sendJson(res, 429, { error: lease, message });
+      return;
+    }
+    if (!await issueToken(res, lease, ip)) sessions.release(lease.id, ip);
+  }
+
+  /**
+   * Mints a single-use Live API token that expires with the lease. Returns
+   * false once it has answered with an upstream error.
+   */
+  async function issueToken(res: ServerResponse, lease: SessionLease, ip: string): Promise<boolean> {
+    try {
+      const now = Date.now();
+      const token = await ai.authTokens.create({
+        config: {
+          uses: 1,
+          expireTime: new Date(lease.expiresAt).toISOString(),
+          newSessionExpireTime: new Date(Math.min(now + config.tokenNewSessionTtlSeconds * 1000, lease.expiresAt)).toISOString(),
+        },
+      });
+      const issued = lease.renewals > 0 ? `Renewed session ${lease.id} for` : `Issued session ${lease.id} to`;
+      console.log(`[Server] ${issued} ${ip} (${sessions.activeCount} active)`);
+      sendJson(res, 200, {
+        token: token.name,
+        sessionId: lease.id,
+        expiresAt: new Date(lease.expiresAt).toISOString(),
+        limits: {
+          maxSessionSeconds: config.sessionMaxSeconds > 0
+            ? Math.min(config.sessionMaxSeconds, config.tokenSessionTtlSeconds)
+            : config.tokenSessionTtlSeconds,
+          idleTimeoutSeconds: config.idleTimeoutSeconds,
+          warningSeconds: config.limitWarningSeconds,
+        },
+      });
+      return true;
+    } catch (err) {
+      console.error('[Server] Failed to create auth token:', err);
+      sendJson(res, 502, { error: 'upstream_error', message: 'Could not start a session with the voice service.' });
+      return false;
+    }
+  }
+
+  async function handleReleaseSession(req: IncomingMessage, res: ServerResponse) {
+    try {
+      const { sessionId } = await readJsonBody<{ sessionId?: string }>(req);
+      const released = !!sessionId && sessions.release(sessionId, clientIp(req, config.trustProxy));
+      sendJson(res, 200, { released });
+    } catch {
+      sendJson(res, 400, { error: 'bad_request' });
+    }
+  }
+
+  async function handleBookingTool(req: IncomingMessage, res: ServerResponse, tool: string) {
+    const limit = bookingLimiter.hit(clientIp(req, config.trustProxy));
+    if (!limit.allowed) {
+      sendJson(res, 429, { error: 'rate_limited', message: 'Too many requests, please wait a moment.' }, {
+        'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)),
+      });
+      return;
+    }
+    if (!isBookingTool(tool)) {
+      sendJson(res, 404, { error: 'not_found' });
+      return;
+    }
+
+    let body: { restaurant?: string; args?: ToolArgs };
+    try {
+      body = await readJsonBody(req);
+    } catch {
+      sendJson(res, 400, { error: 'bad_request' });
+      return;
+    }
+    const profile = getProfile(body.restaurant);
+    if (!profile) {
+      sendJson(res, 404, { error: 'unknown_restaurant' });
+      return;
+    }
+    const args = body.args && typeof body.args === 'object' && !Array.isArray(body.args) ? body.args : {};
+    sendJson(res, 200, await bookings.handlersFor(profile)[tool](args));
+  }
+
+  async function handleAgentSettings(req: IncomingMessage, res: ServerResponse, restaurantId: string | null) {
+    const profile = getProfile(restaurantId);
+    if (!profile) {
+      sendJson(res, 404, { error: 'unknown_restaurant' });
+      return;
+    }
+    if (req.method === 'GET') {
+      sendJson(res, 200, loadAgentSettings(profile.id, storage));
+      return;
+    }
+
+    if (!requireAdmin(req, res)) return;
+    try {
+      saveAgentSettings(profile.id, await readJsonBody(req), storage);
+    } catch {
+      sendJson(res, 400, { error: 'bad_request' });
+      return;
+    }
+    console.log(`[Server] Agent settings for ${profile.id} updated`);
+    sendJson(res, 200, loadAgentSettings(profile.id, storage));
+  }
+
+  async function handleReportCall(req: IncomingMessage, res: ServerResponse) {
+    const ip = clientIp(req, config.trustProxy);
+    const limit = callReportLimiter.hit(ip);
+    if (!limit.allowed) {
+      sendJson(res, 429, { error: 'rate_limited', message: 'Too many requests, please wait a moment.' }, {
+        'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)),
+      });
+      return;
+    }
+
+    let body: { restaurant?: string; sessionId?: unknown; call?: unknown };
+    try {
+      body = await readJsonBody(req, 512 * 1024);
+    } catch {
+      sendJson(res, 400, { error: 'bad_request' });
+      return;
+    }
+    const profile = getProfile(body.restaurant);
+    if (!profile) {
+      sendJson(res, 404, { error: 'unknown_restaurant' });
+      return;
+    }
+    const { report, errors } = validateCallReport(body.call, profile.languages);
+    if (!report) {
+      sendJson(res, 400, { error: 'invalid_call', errors });
+      return;
+    }
+    // Only a call we issued a session for, and only once
+    if (typeof body.sessionId !== 'string' || !sessions.claimReport(body.sessionId, ip)) {
+      sendJson(res, 403, { error: 'unknown_session', message: 'Calls can only be reported once, by the session that made them.' });
+      return;
+    }
+
+    // Only bookings that are really in the book count towards conversions
+    const booked = new Set(bookings.storeFor(profile).list().map(r => r.id));
+    const confirmationCodes = report.confirmationCodes.filter(code => booked.has(code));
+    callLogFor(profile).add({
+      ...report,
+      id: randomUUID(),
+      restaurantId: profile.id,
+      durationSec: (Date.parse(report.endedAt) - Date.parse(report.startedAt)) / 1000,
+      confirmationCodes,
+      bookingConfirmed: confirmationCodes.length > 0,
+    });
+    sendJson(res, 200, { saved: true });
+  }
+
+  function handleCallAnalytics(req: IncomingMessage, res: ServerResponse, params: URLSearchParams) {
+    if (!requireAdmin(req, res)) return;
+    const profile = getProfile(params.get('restaurant'));
+    if (!profile) {
+      sendJson(res, 404, { error: 'unknown_restaurant' });
+      return;
+    }
+    const calls = filterCalls(callLogFor(profile).list(), {
+      from: params.get('from') ?? undefined,
+      to: params.get('to') ?? undefined,
+      outcome: (params.get('outcome') ?? 'all') as CallOutcome,
+    }, profile.timezone);
+    sendJson(res, 200, { calls, summary: summarizeCalls(calls) });
+  }
+
+  const server = createServer(async (req, res) => {
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+
+    try {
+      if (pathname.startsWith('/api/') && !isSameOrigin(req)) {
+        if (!applyCors(req, res, config.allowedOrigins)) {
+          sendJson(res, 403, { error: 'origin_not_allowed' });
+          return;
+        }
+        if (req.method === 'OPTIONS') {
+          res.writeHead(204).end();
+          return;
+        }
+      }
+
+      if (req.method === 'POST' && pathname === '/api/session') {
+        await handleCreateSession(req, res);
+      } else if (req.method === 'POST' && pathname === '/api/session/release') {
+        await handleReleaseSession(req, res);
+      } else if (req.method === 'POST' && pathname.startsWith('/api/bookings/')) {
+        await handleBookingTool(req, res, pathname.slice('/api/bookings/'.length));
+      } else if ((req.method === 'GET' || req.method === 'PUT') && pathname === '/api/agent-settings') {
+        await handleAgentSettings(req, res, searchParams.get('restaurant'));
+      } else if (req.method === 'POST' && pathname === '/api/calls') {
+        await handleReportCall(req, res);
+      } else if (req.method === 'GET' && pathname === '/api/calls') {
+        handleCallAnalytics(req, res, searchParams);
+      } else if (pathname.startsWith('/api/')) {
+        sendJson(res, 404, { error: 'not_found' });
+      } else if (req.method === 'GET' || req.method === 'HEAD') {
+        await serveStatic(req, res, config.staticDir);
+      } else {
+        res.writeHead(405).end();
+      }
+    } catch (err) {
+      console.error('[Server] Unhandled error:', err);
+      if (!res.headersSent) sendJson(res, 500, { error: 'internal_error' });
+    }
+  });
+
+  // Phone calls: each media stream is bridged to its own Live session using the
+  // server's key, so no browser credentials are involved
+  const telephony = new WebSocketServer({ noServer: true });
+  let activePhoneCalls = 0;
+  if (config.telephonyEnabled && !config.telephonyToken) {
+    console.error('[Server] TELEPHONY_ENABLED is set without TELEPHONY_TOKEN, refusing phone calls');
+  }
+
+  /**
+   * Phone calls count against the same per-IP rate limit and session caps
+   * as web sessions. Returns the call's lease, or null once refused.
+   */
+  function admitPhoneCall(req: IncomingMessage, socket: Duplex) {
+    if (!config.telephonyToken) {
+      socket.end('HTTP/1.1 503 Service Unavailable\r\n\r\n');
+      return null;
+    }
+    if (activePhoneCalls >= config.telephonyMaxCalls) {
+      console.warn('[Server] Rejecting phone call, all lines busy');
+      socket.end('HTTP/1.1 503 Service Unavailable\r\n\r\n');
+      return null;
+    }
+    const ip = clientIp(req, config.trustProxy);
+    if (!rateLimiter.hit(ip).allowed) {
+      console.warn(`[Server] Rejecting phone call from ${ip}, rate limited`);
+      socket.end('HTTP/1.1 429 Too Many Requests\r\n\r\n');
+      return null;
+    }
+    const lease = sessions.acquire(ip, leaseTtlMs);
+    if (typeof lease === 'string') {
+      console.warn(`[Server] Rejecting phone call from ${ip} (${lease})`);
+      socket.end('HTTP/1.1 429 Too Many Requests\r\n\r\n');
+      return null;
+    }
+    return { ip, lease };
+  }
+
+  // Escalated conversations, relayed between guests and the staff console.
+  // An escalation carries the transcript so far, so messages are capped
+  // like a call report
+  const handoffSockets = new WebSocketServer({ noServer: true, maxPayload: 512 * 1024 });
+  const handoffRelay = new HandoffRelay(config.handoffMaxConversations, config.staffToken);
+  const handoffLimiter = new RateLimiter(
+    config.rateLimitWindowSeconds * 1000,
+    config.handoffRateLimitMaxRequests
+  );
+
+  function handleHandoffUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer, pathname: string) {
+    if (!config.staffToken) {
+      socket.end('HTTP/1.1 503 Service Unavailable\r\n\r\n');
+      return;
+    }
+    if (pathname === HANDOFF_STAFF_PATH) {
+      handoffSockets.handleUpgrade(req, socket, head, ws => handoffRelay.addStaff(ws));
+      return;
+    }
+    // Browsers always send Origin on WebSocket upgrades
+    if (!isSameOrigin(req) && !config.allowedOrigins.includes(req.headers.origin ?? '')) {
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+    const ip = clientIp(req, config.trustProxy);
+    if (!handoffLimiter.hit(ip).allowed) {
+      console.warn(`[Server] Rejecting escalation from ${ip}, rate limited`);
+      socket.end('HTTP/1.1 429 Too Many Requests\r\n\r\n');
+      return;
+    }
+    handoffSockets.handleUpgrade(req, socket, head, ws => handoffRelay.addGuest(ws));
+  }
+
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname === HANDOFF_GUEST_PATH || pathname === HANDOFF_STAFF_PATH) {
+      handleHandoffUpgrade(req, socket, head, pathname);
+      return;
+    }
+    if (pathname !== '/api/telephony/media' || !config.telephonyEnabled) {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+    const admitted = admitPhoneCall(req, socket);
+    if (!admitted) return;
+
+    telephony.handleUpgrade(req, socket, head, (ws) => {
+      activePhoneCalls++;
+      new PhoneCallBridge(ws, ai, {
+        token: config.telephonyToken,
+        startTimeoutSeconds: config.telephonyStartTimeoutSeconds,
+        limits: {
+          maxSessionSeconds: config.sessionMaxSeconds,
+          idleTimeoutSeconds: config.idleTimeoutSeconds,
+          warningSeconds: config.limitWarningSeconds,
+        },
+        bookings,
+        agentSettings: restaurantId => loadAgentSettings(restaurantId, storage),
+      }, () => {
+        activePhoneCalls--;
+        sessions.release(admitted.lease.id, admitted.ip);
+      });
+    });
+  });
+
+  const pruneTimer = setInterval(() => {
+    rateLimiter.prune();
+    bookingLimiter.prune();
+    callReportLimiter.prune();
+    handoffLimiter.prune();
+  }, 60_000);
+  pruneTimer.unref();
+  server.on('close', () => clearInterval(pruneTimer));
+
+  return server;
+}
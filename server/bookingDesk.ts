@@ -0,0 +1,33 @@
+import { KeyValueStorage, RestaurantProfile } from '../types';
+import { ReservationStore } from '../services/reservationStore';
+import { BookingHandlers, createBookingHandlers } from '../services/tools';
+
+/**
+ * The one reservation book per restaurant that every guest session and
+ * phone call books into. The booking handlers run synchronously, so
+ * no two calls can take the same table between checking and booking it.
+ */
+export class BookingDesk {
+  private stores = new Map<string, ReservationStore>();
+  private handlers = new Map<string, BookingHandlers>();
+
+  constructor(private storage: KeyValueStorage) {}
+
+  storeFor(profile: RestaurantProfile): ReservationStore {
+    let store = this.stores.get(profile.id);
+    if (!store) {
+      store = new ReservationStore(profile, this.storage);
+      this.stores.set(profile.id, store);
+    }
+    return store;
+  }
+
+  handlersFor(profile: RestaurantProfile): BookingHandlers {
+    let handlers = this.handlers.get(profile.id);
+    if (!handlers) {
+      handlers = createBookingHandlers(this.storeFor(profile), profile);
+      this.handlers.set(profile.id, handlers);
+    }
+    return handlers;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Server configuration from environment variables.
+ */
+export function readServerConfig(env: NodeJS.ProcessEnv = process.env) {
+  return {
+    port: Number(env.PORT ?? 3000),
+    apiKey: env.GEMINI_API_KEY ?? '',
+    // Override the upstream API host, e.g. to point at server/mockUpstream.ts
+    apiBaseUrl: env.GEMINI_API_BASE_URL || undefined,
+    // Directory holding the production bundle from `npm run build`
+    staticDir: env.STATIC_DIR ?? 'dist',
+    // Honour X-Forwarded-For when running behind nginx/Caddy. Only turn it on
+    // when every request comes through a proxy that overwrites the header;
+    // otherwise clients can pick the IP they are rate limited under
+    trustProxy: env.TRUST_PROXY === '1',
+
+    // How long a browser has to open the Live session with a fresh token
+    tokenNewSessionTtlSeconds: Number(env.TOKEN_NEW_SESSION_TTL_SECONDS ?? 60),
+    // Hard ceiling on a single session that uses the token
+    tokenSessionTtlSeconds: Number(env.TOKEN_SESSION_TTL_SECONDS ?? 30 * 60),
+
+    // Sites allowed to call the API from the embeddable widget, comma-separated
+    // (e.g. "https://goldenspice.example,https://www.goldenspice.example")
+    allowedOrigins: (env.ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean),
+
+    // Per-IP rate limit for credential requests
+    rateLimitWindowSeconds: Number(env.RATE_LIMIT_WINDOW_SECONDS ?? 60),
+    rateLimitMaxRequests: Number(env.RATE_LIMIT_MAX_REQUESTS ?? 10),
+    // Per-IP limit for booking tool calls, over the same window
+    bookingRateLimitMaxRequests: Number(env.BOOKING_RATE_LIMIT_MAX_REQUESTS ?? 60),
+
+    // Where reservations, agent settings and call history are kept between
+    // restarts; empty keeps them in memory
+    dataDir: env.DATA_DIR ?? 'data',
+    // Required for the admin dashboard's call history and to change agent
+    // settings; the dashboard shows nothing while it is unset
+    adminToken: env.ADMIN_TOKEN ?? '',
+
+    // Call limits sent to the browser with each session and applied to phone
+    // calls. 0 disables the idle timeout; the session limit is always capped
+    // by the token lifetime above, and tokens expire shortly after it.
+    sessionMaxSeconds: Number(env.SESSION_MAX_SECONDS ?? 15 * 60),
+    idleTimeoutSeconds: Number(env.IDLE_TIMEOUT_SECONDS ?? 90),
+    // How long before either limit the agent warns the guest out loud
+    limitWarningSeconds: Number(env.LIMIT_WARNING_SECONDS ?? 30),
+
+    // Phone calls over a Twilio-style media stream at /api/telephony/media
+    telephonyEnabled: env.TELEPHONY_ENABLED === '1',
+    // Shared secret the stream must send as its `token` custom parameter;
+    // phone calls are refused while it is unset
+    telephonyToken: env.TELEPHONY_TOKEN ?? '',
+    telephonyMaxCalls: Number(env.TELEPHONY_MAX_CALLS ?? 10),
+    // How long a new media stream has to send its `start` message
+    telephonyStartTimeoutSeconds: Number(env.TELEPHONY_START_TIMEOUT_SECONDS ?? 5),
+
+    // Staff handoff relay at /api/handoff/*; the staff console at /staff
+    // sends STAFF_TOKEN first; the relay stays disabled while it is unset
+    staffToken: env.STAFF_TOKEN ?? '',
+    handoffMaxConversations: Number(env.HANDOFF_MAX_CONVERSATIONS ?? 20),
+    // Escalations per IP per rate limit window
+    handoffRateLimitMaxRequests: Number(env.HANDOFF_RATE_LIMIT_MAX_REQUESTS ?? 5),
+
+    // Concurrent session caps
+    maxSessionsPerIp: Number(env.MAX_SESSIONS_PER_IP ?? 2),
+    maxSessionsTotal: Number(env.MAX_SESSIONS_TOTAL ?? 50),
+  };
+}
+
+export type ServerConfig = ReturnType<typeof readServerConfig>;
+
+// Read once at startup
+export const SERVER_CONFIG = readServerConfig();
@@ -0,0 +1,171 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { WebSocket } from 'ws';
+import { encodeWav, int16ToFloat32, resampleLinear } from '../utils/wav';
+import { PHONE_FRAME_BYTES, decodeMulaw, encodeMulaw } from './phoneAudio';
+
+/**
+ * Local stand-in for a phone carrier, for exercising the telephony bridge.
+ *
+ *   TELEPHONY_ENABLED=1 TELEPHONY_TOKEN=test npm run server
+ *   TELEPHONY_TOKEN=test npm run telephony:fake-call [caller.wav]
+ *
+ * Streams the WAV file (16-bit PCM, any rate) as the caller, or a scripted
+ * caller that talks over the agent's reply to trigger barge-in. What the
+ * caller would have heard is written to FAKE_CALL_OUTPUT. Pair with
+ * `npm run server:mock-upstream` to run without an API key.
+ */
+
+const url = process.env.FAKE_CALL_URL ?? `ws://localhost:${process.env.PORT ?? 3000}/api/telephony/media`;
+const outputPath = process.env.FAKE_CALL_OUTPUT ?? path.join(tmpdir(), 'fake-call-agent.wav');
+const FRAME_MS = 20;
+const PHONE_RATE = 8000;
+
+function tone(seconds: number, frequency: number): Float32Array {
+  const out = new Float32Array(Math.round(seconds * PHONE_RATE));
+  for (let i = 0; i < out.length; i++) out[i] = 0.4 * Math.sin((2 * Math.PI * frequency * i) / PHONE_RATE);
+  return out;
+}
+
+const silence = (seconds: number) => new Float32Array(Math.round(seconds * PHONE_RATE));
+
+function concat(parts: Float32Array[]): Float32Array {
+  const out = new Float32Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+/**
+ * Reads a 16-bit PCM WAV file as mono samples at the phone rate.
+ */
+function readWav(file: string): Float32Array {
+  const data = readFileSync(file);
+  if (data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error(`${file} is not a WAV file`);
+  }
+  let channels = 1;
+  let sampleRate = PHONE_RATE;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const id = data.toString('ascii', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      if (data.readUInt16LE(body) !== 1 || data.readUInt16LE(body + 14) !== 16) {
+        throw new Error(`${file} must be 16-bit PCM`);
+      }
+      channels = data.readUInt16LE(body + 2);
+      sampleRate = data.readUInt32LE(body + 4);
+    } else if (id === 'data') {
+      const frames = Math.floor(size / 2 / channels);
+      const mono = new Float32Array(frames);
+      for (let i = 0; i < frames; i++) {
+        mono[i] = data.readInt16LE(body + i * channels * 2) / 32768;
+      }
+      return resampleLinear(mono, sampleRate, PHONE_RATE);
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error(`${file} has no audio data`);
+}
+
+/**
+ * Default caller: waits for the greeting, asks something, then talks over
+ * the reply so the agent audio gets flushed.
+ */
+function scriptedCaller(): Float32Array {
+  return concat([silence(4), tone(1, 300), silence(1.2), tone(0.6, 300), silence(4)]);
+}
+
+function toMulaw(samples: Float32Array): Uint8Array {
+  const int16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return encodeMulaw(int16);
+}
+
+const callerAudio = toMulaw(process.argv[2] ? concat([readWav(process.argv[2]), silence(4)]) : scriptedCaller());
+const streamSid = `MZ${randomUUID().replace(/-/g, '')}`;
+
+// Agent audio the "phone" has buffered, and what the caller actually heard
+let playbackQueue: number[] = [];
+const heard: number[] = [];
+let framesReceived = 0;
+let clears = 0;
+
+const ws = new WebSocket(url);
+
+ws.on('open', () => {
+  console.log(`[FakeCall] Connected to ${url}`);
+  ws.send(JSON.stringify({ event: 'connected', protocol: 'Call', version: '1.0.0' }));
+  ws.send(JSON.stringify({
+    event: 'start',
+    streamSid,
+    start: {
+      streamSid,
+      callSid: `CA${randomUUID().replace(/-/g, '')}`,
+      tracks: ['inbound'],
+      mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: PHONE_RATE, channels: 1 },
+      customParameters: {
+        token: process.env.TELEPHONY_TOKEN ?? '',
+        restaurant: process.env.FAKE_CALL_RESTAURANT ?? '',
+      },
+    },
+  }));
+
+  let frame = 0;
+  const totalFrames = Math.ceil(callerAudio.length / PHONE_FRAME_BYTES);
+  const timer = setInterval(() => {
+    // Play one frame of whatever agent audio is buffered
+    const played = playbackQueue.splice(0, PHONE_FRAME_BYTES);
+    heard.push(...played, ...new Array(PHONE_FRAME_BYTES - played.length).fill(0xff));
+
+    if (frame === totalFrames) {
+      clearInterval(timer);
+      ws.send(JSON.stringify({ event: 'stop', streamSid }));
+      ws.close();
+      return;
+    }
+    const payload = Buffer.from(callerAudio.subarray(frame * PHONE_FRAME_BYTES, (frame + 1) * PHONE_FRAME_BYTES)).toString('base64');
+    ws.send(JSON.stringify({
+      event: 'media',
+      streamSid,
+      media: { track: 'inbound', chunk: String(frame + 1), timestamp: String(frame * FRAME_MS), payload },
+    }));
+    frame++;
+  }, FRAME_MS);
+});
+
+ws.on('message', (raw) => {
+  const message = JSON.parse(raw.toString());
+  if (message.event === 'media') {
+    framesReceived++;
+    playbackQueue.push(...Buffer.from(message.media.payload, 'base64'));
+  } else if (message.event === 'clear') {
+    clears++;
+    console.log(`[FakeCall] Clear received, dropped ${playbackQueue.length} buffered bytes`);
+    playbackQueue = [];
+  } else {
+    console.log('[FakeCall] Received', message.event);
+  }
+});
+
+ws.on('close', async () => {
+  const samples = int16ToFloat32(decodeMulaw(Uint8Array.from(heard)));
+  writeFileSync(outputPath, Buffer.from(await encodeWav(samples, PHONE_RATE).arrayBuffer()));
+  console.log(`[FakeCall] Call ended: ${framesReceived} agent frames, ${clears} clear(s)`);
+  console.log(`[FakeCall] Caller-side audio written to ${outputPath}`);
+});
+
+ws.on('error', (err) => {
+  console.error('[FakeCall] Connection failed:', err.message);
+  process.exitCode = 1;
+});
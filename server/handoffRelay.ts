@@ -0,0 +1,184 @@
+import { randomUUID } from 'node:crypto';
+import type { WebSocket } from 'ws';
+import {
+  GuestToRelay,
+  HANDOFF_REASONS,
+  HandoffConversation,
+  HandoffState,
+  RelayToGuest,
+  RelayToStaff,
+  StaffToRelay,
+  parseHandoffMessage,
+} from '../services/handoffProtocol';
+import { CallTurn, MAX_CALL_TURNS, validateCallTurns } from '../services/callHistory';
+import { getProfile } from '../services/restaurantProfiles';
+import { tokensMatch } from './http';
+
+// How long a staff console has to send its token after connecting
+const STAFF_AUTH_TIMEOUT_MS = 5000;
+const MAX_SUMMARY_LENGTH = 1000;
+
+interface Handoff {
+  conversation: HandoffConversation;
+  guest: WebSocket;
+  // The staff console that has taken over, if any
+  staff: WebSocket | null;
+}
+
+const send = (socket: WebSocket | null, message: RelayToGuest | RelayToStaff) => {
+  if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+/**
+ * Relays escalated conversations between guests and the staff console.
+ * Guests queue themselves with an `escalate` message; every connected staff
+ * console sees the queue with transcripts, and one of them at a time can
+ * take a conversation over and talk to the guest directly. When a guest
+ * leaves, their conversation is dropped; when the staff console that took
+ * over leaves, the guest is handed back to the agent. A staff console must
+ * send STAFF_TOKEN in an `auth` message before it sees anything.
+ */
+export class HandoffRelay {
+  private handoffs = new Map<string, Handoff>();
+  private consoles = new Set<WebSocket>();
+
+  constructor(private maxConversations: number, private staffToken: string) {}
+
+  addGuest(socket: WebSocket) {
+    let id: string | null = null;
+
+    socket.on('message', (data) => {
+      const message = parseHandoffMessage<GuestToRelay>(data.toString());
+      if (!message) return;
+      const handoff = id ? this.handoffs.get(id) : undefined;
+
+      if (message.type === 'escalate') {
+        if (handoff) return;
+        if (this.handoffs.size >= this.maxConversations) {
+          console.warn('[Handoff] Queue full, turning away escalation');
+          socket.close(1013, 'queue full');
+          return;
+        }
+        const { turns } = validateCallTurns(message.turns);
+        if (!turns || !getProfile(message.restaurantId)) {
+          console.warn('[Handoff] Turning away a malformed escalation');
+          socket.close(1008, 'invalid escalation');
+          return;
+        }
+        id = randomUUID();
+        this.handoffs.set(id, {
+          guest: socket,
+          staff: null,
+          conversation: {
+            id,
+            restaurantId: message.restaurantId,
+            reason: HANDOFF_REASONS.includes(message.reason) ? message.reason : 'other',
+            summary: String(message.summary ?? '').slice(0, MAX_SUMMARY_LENGTH),
+            state: 'waiting',
+            createdAt: new Date().toISOString(),
+            turns,
+          },
+        });
+        console.log(`[Handoff] ${message.restaurantId} conversation ${id} waiting for staff (${message.reason})`);
+        send(socket, { type: 'queued', conversationId: id });
+        this.broadcast();
+      } else if (!handoff) {
+        return;
+      } else if (message.type === 'transcript') {
+        this.appendTurns(handoff, message.turns);
+      } else if (message.type === 'audio' && handoff.staff && typeof message.data === 'string') {
+        send(handoff.staff, { type: 'audio', conversationId: handoff.conversation.id, data: message.data });
+      }
+    });
+
+    socket.on('close', () => {
+      if (!id || !this.handoffs.delete(id)) return;
+      console.log(`[Handoff] Guest left conversation ${id}`);
+      this.broadcast();
+    });
+    socket.on('error', (err) => console.error('[Handoff] Guest socket error:', err));
+  }
+
+  addStaff(socket: WebSocket) {
+    let authorized = false;
+    const authTimer = setTimeout(() => socket.close(1008, 'unauthorized'), STAFF_AUTH_TIMEOUT_MS);
+
+    socket.on('message', (data) => {
+      const message = parseHandoffMessage<StaffToRelay>(data.toString());
+      if (!authorized) {
+        clearTimeout(authTimer);
+        if (message?.type !== 'auth' || !tokensMatch(String(message.token ?? ''), this.staffToken)) {
+          console.warn('[Handoff] Rejecting staff console with a bad token');
+          socket.close(1008, 'unauthorized');
+          return;
+        }
+        authorized = true;
+        this.consoles.add(socket);
+        send(socket, { type: 'conversations', conversations: this.list() });
+        return;
+      }
+      if (!message || message.type === 'auth') return;
+      const handoff = this.handoffs.get(message.conversationId);
+      if (!handoff) return;
+      // Only the console that took a conversation over may act on it
+      if (handoff.staff && handoff.staff !== socket) return;
+
+      switch (message.type) {
+        case 'takeover':
+          handoff.staff = socket;
+          this.setState(handoff, 'staff');
+          break;
+        case 'release':
+          if (handoff.staff) this.setState(handoff, 'agent');
+          break;
+        case 'audio':
+          if (handoff.staff && typeof message.data === 'string') send(handoff.guest, { type: 'audio', data: message.data });
+          break;
+        case 'text':
+          if (handoff.staff && message.text) send(handoff.guest, { type: 'text', text: String(message.text) });
+          break;
+      }
+    });
+
+    socket.on('close', () => {
+      clearTimeout(authTimer);
+      this.consoles.delete(socket);
+      for (const handoff of this.handoffs.values()) {
+        if (handoff.staff === socket) this.setState(handoff, 'agent');
+      }
+    });
+    socket.on('error', (err) => console.error('[Handoff] Staff socket error:', err));
+  }
+
+  /**
+   * Adds the turns a guest finished since their last update, keeping the
+   * most recent ones.
+   */
+  private appendTurns(handoff: Handoff, raw: unknown) {
+    const { turns } = validateCallTurns(raw);
+    if (!turns) {
+      console.warn(`[Handoff] Ignoring a malformed transcript for conversation ${handoff.conversation.id}`);
+      return;
+    }
+    const all: CallTurn[] = [...handoff.conversation.turns, ...turns];
+    handoff.conversation.turns = all.slice(-MAX_CALL_TURNS);
+    this.broadcast();
+  }
+
+  private setState(handoff: Handoff, state: HandoffState) {
+    if (state !== 'staff') handoff.staff = null;
+    handoff.conversation.state = state;
+    console.log(`[Handoff] Conversation ${handoff.conversation.id} is now with ${state}`);
+    send(handoff.guest, { type: 'state', state });
+    this.broadcast();
+  }
+
+  private list(): HandoffConversation[] {
+    return [...this.handoffs.values()].map(h => h.conversation);
+  }
+
+  private broadcast() {
+    const message: RelayToStaff = { type: 'conversations', conversations: this.list() };
+    this.consoles.forEach(socket => send(socket, message));
+  }
+}
@@ -0,0 +1,130 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+export function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * True for requests without an Origin header or from the page we serve.
+ * Browsers send Origin on same-origin POSTs too.
+ */
+export function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Adds CORS headers for API requests from sites embedding the widget.
+ * Returns false when the request came from an origin that is not allowed.
+ */
+export function applyCors(req: IncomingMessage, res: ServerResponse, allowedOrigins: string[]): boolean {
+  const origin = req.headers.origin ?? '';
+  res.setHeader('Vary', 'Origin');
+  if (!allowedOrigins.includes(origin)) return false;
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Max-Age', '600');
+  return true;
+}
+
+/**
+ * Resolves the client IP, trusting X-Forwarded-For only when configured to.
+ */
+export function clientIp(req: IncomingMessage, trustProxy: boolean): string {
+  if (trustProxy) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0]?.trim();
+    if (first) return first;
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Compares a secret the client sent with the configured one in constant
+ * time. Hashing first keeps the length of the secret from leaking too.
+ */
+export function tokensMatch(given: string | null | undefined, expected: string): boolean {
+  if (!given || !expected) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(expected));
+}
+
+/**
+ * The token from an `Authorization: Bearer <token>` header, if any.
+ */
+export function bearerToken(req: IncomingMessage): string | null {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  return match ? match[1].trim() : null;
+}
+
+export async function readJsonBody<T>(req: IncomingMessage, limitBytes = 16 * 1024): Promise<T> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limitBytes) throw new Error('Request body too large');
+    chunks.push(chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return (raw ? JSON.parse(raw) : {}) as T;
+}
+
+/**
+ * Serves the built SPA from the static directory, falling back to
+ * index.html for unknown paths so client-side routes keep working.
+ */
+export async function serveStatic(req: IncomingMessage, res: ServerResponse, staticDir: string) {
+  const root = path.resolve(staticDir);
+  const urlPath = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+  let filePath = path.resolve(root, `.${urlPath}`);
+
+  // Never serve anything outside the static root, including siblings that
+  // share its prefix (dist-private next to dist)
+  const relative = path.relative(root, filePath);
+  if (relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    res.writeHead(403).end();
+    return;
+  }
+
+  try {
+    const info = await stat(filePath);
+    if (info.isDirectory()) filePath = path.join(filePath, 'index.html');
+  } catch {
+    filePath = path.join(root, 'index.html');
+  }
+
+  try {
+    await stat(filePath);
+  } catch {
+    res.writeHead(404).end('Not found');
+    return;
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': MIME_TYPES[path.extname(filePath)] ?? 'application/octet-stream' };
+  // The widget bundle and its worklet are loaded by other sites
+  if (urlPath.startsWith('/widget/')) headers['Access-Control-Allow-Origin'] = '*';
+  res.writeHead(200, headers);
+  createReadStream(filePath).pipe(res);
+}
@@ -0,0 +1,21 @@
+import { SERVER_CONFIG } from './config';
+import { createHostessServer } from './app';
+
+/**
+ * Entry point for `npm run server`; see app.ts for the routes.
+ */
+
+const server = createHostessServer(SERVER_CONFIG);
+
+server.listen(SERVER_CONFIG.port, () => {
+  console.log(`[Server] Listening on http://0.0.0.0:${SERVER_CONFIG.port}`);
+  if (SERVER_CONFIG.telephonyEnabled) {
+    console.log(`[Server] Accepting phone media streams on ws://0.0.0.0:${SERVER_CONFIG.port}/api/telephony/media`);
+  }
+  if (SERVER_CONFIG.staffToken) {
+    console.log('[Server] Staff handoff enabled; console at /staff');
+  }
+  if (SERVER_CONFIG.apiBaseUrl) {
+    console.log(`[Server] Using upstream API at ${SERVER_CONFIG.apiBaseUrl}`);
+  }
+});
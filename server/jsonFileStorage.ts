@@ -0,0 +1,34 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { KeyValueStorage } from '../types';
+
+/**
+ * The getItem/setItem half of Storage, backed by one file per key so the
+ * server's stores survive restarts. Writes go through a temporary file and
+ * a rename, so a crash never leaves half a file behind.
+ */
+export class JsonFileStorage implements KeyValueStorage {
+  constructor(private dir: string) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${encodeURIComponent(key)}.json`);
+  }
+
+  getItem(key: string): string | null {
+    try {
+      return readFileSync(this.fileFor(key), 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+  }
+
+  setItem(key: string, value: string) {
+    const file = this.fileFor(key);
+    const temp = `${file}.${process.pid}.tmp`;
+    writeFileSync(temp, value);
+    renameSync(temp, file);
+  }
+}
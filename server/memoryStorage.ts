@@ -0,0 +1,16 @@
+import { KeyValueStorage } from '../types';
+
+/**
+ * Keeps the server's stores in memory when no DATA_DIR is set, e.g. in tests.
+ */
+export class MemoryStorage implements KeyValueStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
@@ -0,0 +1,184 @@
+import { createServer, Server } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+import { WebSocket, WebSocketServer } from 'ws';
+
+/**
+ * Local stand-in for the Gemini API, for exercising the server offline.
+ *
+ *   MOCK_UPSTREAM_PORT=8787 npm run server:mock-upstream
+ *   GEMINI_API_KEY=test GEMINI_API_BASE_URL=http://localhost:8787 npm run server
+ *
+ * Only the endpoints the server calls are implemented. Set
+ * MOCK_UPSTREAM_FAIL=1 to make every call fail with a 500.
+ *
+ * The Live WebSocket is faked for the telephony bridge: whenever the caller
+ * stops talking the "agent" answers with a two-second tone, and talking over
+ * it interrupts the reply, so barge-in can be exercised with
+ * `npm run telephony:fake-call`. Sessions hand out resumption handles, and
+ * can be made to send goAway or drop to exercise resumption.
+ *
+ * The tests start it in-process with createMockUpstream().
+ */
+
+export interface MockUpstreamOptions {
+  // Fail every call with a 500
+  fail?: boolean;
+  // Send goAway this long into each Live session, then close it
+  goAwayAfterSeconds?: number;
+  // Close each Live session this long in, without warning
+  dropAfterSeconds?: number;
+}
+
+// How long a session stays open after goAway
+const GO_AWAY_GRACE_MS = 200;
+
+// Input above this RMS counts as speech; 300 ms below it ends the utterance
+const SPEECH_RMS = 500;
+const END_OF_SPEECH_MS = 300;
+const REPLY_SECONDS = 2;
+const REPLY_CHUNK_MS = 100;
+const OUTPUT_RATE = 24000;
+
+function rms(pcm: Buffer): number {
+  let sum = 0;
+  const count = Math.floor(pcm.length / 2);
+  for (let i = 0; i < count; i++) sum += pcm.readInt16LE(i * 2) ** 2;
+  return count ? Math.sqrt(sum / count) : 0;
+}
+
+function toneChunk(offset: number, samples: number): string {
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    pcm.writeInt16LE(Math.round(8000 * Math.sin((2 * Math.PI * 440 * (offset + i)) / OUTPUT_RATE)), i * 2);
+  }
+  return pcm.toString('base64');
+}
+
+function handleLiveSocket(ws: WebSocket, options: MockUpstreamOptions) {
+  console.log('[MockUpstream] Live session opened');
+  let speaking = false;
+  let silenceMs = 0;
+  let reply: ReturnType<typeof setInterval> | null = null;
+  const send = (message: unknown) => ws.readyState === ws.OPEN && ws.send(JSON.stringify(message));
+
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  if (options.goAwayAfterSeconds !== undefined) {
+    timers.push(setTimeout(() => {
+      send({ goAway: { timeLeft: `${GO_AWAY_GRACE_MS / 1000}s` } });
+      timers.push(setTimeout(() => ws.close(1000, 'session expired'), GO_AWAY_GRACE_MS));
+    }, options.goAwayAfterSeconds * 1000));
+  }
+  if (options.dropAfterSeconds !== undefined) {
+    timers.push(setTimeout(() => ws.close(1011, 'internal error'), options.dropAfterSeconds * 1000));
+  }
+
+  const stopReply = () => {
+    if (reply) clearInterval(reply);
+    reply = null;
+  };
+
+  const startReply = () => {
+    const chunkSamples = (OUTPUT_RATE * REPLY_CHUNK_MS) / 1000;
+    const totalChunks = (REPLY_SECONDS * 1000) / REPLY_CHUNK_MS;
+    let sent = 0;
+    send({ serverContent: { outputTranscription: { text: 'Mock reply.' } } });
+    reply = setInterval(() => {
+      if (sent === totalChunks) {
+        stopReply();
+        send({ serverContent: { turnComplete: true } });
+        return;
+      }
+      const data = toneChunk(sent * chunkSamples, chunkSamples);
+      send({ serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_RATE}`, data } }] } } });
+      sent++;
+    }, REPLY_CHUNK_MS);
+  };
+
+  ws.on('message', (raw) => {
+    const message = JSON.parse(raw.toString());
+    if (message.setup) {
+      const resumption = message.setup.sessionResumption;
+      if (resumption?.handle) console.log(`[MockUpstream] Live session resumed from ${resumption.handle}`);
+      send({ setupComplete: {} });
+      if (resumption) send({ sessionResumptionUpdate: { newHandle: `mock-handle-${randomUUID()}`, resumable: true } });
+      return;
+    }
+    if (message.clientContent) {
+      // Text turns (e.g. the phone greeting) get an immediate reply
+      if (!reply) startReply();
+      return;
+    }
+    const chunk = message.realtimeInput?.audio?.data ?? message.realtimeInput?.mediaChunks?.[0]?.data;
+    if (!chunk) return;
+
+    const pcm = Buffer.from(chunk, 'base64');
+    const chunkMs = (pcm.length / 2 / 16000) * 1000;
+    if (rms(pcm) > SPEECH_RMS) {
+      if (reply) {
+        console.log('[MockUpstream] Caller barged in');
+        stopReply();
+        send({ serverContent: { interrupted: true } });
+      }
+      if (!speaking) send({ serverContent: { inputTranscription: { text: '(caller speaking)' } } });
+      speaking = true;
+      silenceMs = 0;
+    } else if (speaking) {
+      silenceMs += chunkMs;
+      if (silenceMs >= END_OF_SPEECH_MS) {
+        speaking = false;
+        startReply();
+      }
+    }
+  });
+
+  ws.on('close', () => {
+    stopReply();
+    timers.forEach(clearTimeout);
+    console.log('[MockUpstream] Live session closed');
+  });
+}
+
+/**
+ * The mock as an unstarted server.
+ */
+export function createMockUpstream(options: MockUpstreamOptions = {}): Server {
+  const server = createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    console.log(`[MockUpstream] ${req.method} ${pathname}`);
+
+    if (options.fail) {
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 500, message: 'Mock upstream failure', status: 'INTERNAL' } }));
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/v1alpha/auth_tokens') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ name: `auth_tokens/mock-${randomUUID()}` }));
+      return;
+    }
+
+    res.writeHead(404, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: 404, message: `Not mocked: ${pathname}`, status: 'NOT_FOUND' } }));
+  });
+
+  const live = new WebSocketServer({ noServer: true });
+  server.on('upgrade', (req, socket, head) => {
+    if (!req.url?.includes('BidiGenerateContent')) {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+    live.handleUpgrade(req, socket, head, ws => handleLiveSocket(ws, options));
+  });
+
+  return server;
+}
+
+// Run directly: `npm run server:mock-upstream`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.MOCK_UPSTREAM_PORT ?? 8787);
+  createMockUpstream({ fail: process.env.MOCK_UPSTREAM_FAIL === '1' }).listen(port, () => {
+    console.log(`[MockUpstream] Listening on http://localhost:${port}`);
+  });
+}
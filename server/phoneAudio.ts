@@ -0,0 +1,107 @@
+/**
+ * Audio conversion between phone media streams (8 kHz G.711 μ-law) and the
+ * Live API (16 kHz PCM in, 24 kHz PCM out, 16-bit little-endian).
+ */
+
+// 20 ms of 8 kHz μ-law, the frame size phone media streams use
+export const PHONE_FRAME_BYTES = 160;
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+const MULAW_DECODE_TABLE = (() => {
+  const table = new Int16Array(256);
+  for (let i = 0; i < 256; i++) {
+    const u = ~i & 0xff;
+    const exponent = (u >> 4) & 0x07;
+    const mantissa = u & 0x0f;
+    const magnitude = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+    table[i] = u & 0x80 ? -magnitude : magnitude;
+  }
+  return table;
+})();
+
+export function decodeMulaw(bytes: Uint8Array): Int16Array {
+  const out = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) out[i] = MULAW_DECODE_TABLE[bytes[i]];
+  return out;
+}
+
+export function encodeMulaw(samples: Int16Array): Uint8Array {
+  const out = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    let sample = samples[i];
+    const sign = sample < 0 ? 0x80 : 0;
+    if (sign) sample = -sample;
+    sample = Math.min(sample, MULAW_CLIP) + MULAW_BIAS;
+    let exponent = 7;
+    for (let mask = 0x4000; (sample & mask) === 0 && exponent > 0; mask >>= 1) exponent--;
+    const mantissa = (sample >> (exponent + 3)) & 0x0f;
+    out[i] = ~(sign | (exponent << 4) | mantissa) & 0xff;
+  }
+  return out;
+}
+
+/**
+ * Caller audio: 8 kHz μ-law frames to 16 kHz PCM for the Live API. The last
+ * sample is carried over so interpolation is continuous across frames.
+ */
+export class InboundTranscoder {
+  private previous = 0;
+
+  transcode(mulaw: Uint8Array): Int16Array {
+    const narrow = decodeMulaw(mulaw);
+    const wide = new Int16Array(narrow.length * 2);
+    for (let i = 0; i < narrow.length; i++) {
+      wide[i * 2] = (this.previous + narrow[i]) >> 1;
+      wide[i * 2 + 1] = narrow[i];
+      this.previous = narrow[i];
+    }
+    return wide;
+  }
+}
+
+/**
+ * Agent audio: 24 kHz PCM chunks from the Live API to 8 kHz μ-law. Chunks
+ * can end mid-sample or mid-group, so leftovers wait for the next chunk.
+ * Each output sample averages three input samples, which doubles as a
+ * (rough) anti-aliasing filter.
+ */
+export class OutboundTranscoder {
+  private carryByte: number | null = null;
+  private carrySamples: number[] = [];
+
+  transcode(pcm: Uint8Array): Uint8Array {
+    let bytes = pcm;
+    if (this.carryByte !== null) {
+      bytes = new Uint8Array(pcm.length + 1);
+      bytes[0] = this.carryByte;
+      bytes.set(pcm, 1);
+      this.carryByte = null;
+    }
+    if (bytes.length % 2 === 1) {
+      this.carryByte = bytes[bytes.length - 1];
+      bytes = bytes.subarray(0, bytes.length - 1);
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const samples = this.carrySamples;
+    for (let i = 0; i < bytes.length; i += 2) samples.push(view.getInt16(i, true));
+
+    const groups = Math.floor(samples.length / 3);
+    const narrow = new Int16Array(groups);
+    for (let i = 0; i < groups; i++) {
+      narrow[i] = Math.round((samples[i * 3] + samples[i * 3 + 1] + samples[i * 3 + 2]) / 3);
+    }
+    this.carrySamples = samples.slice(groups * 3);
+    return encodeMulaw(narrow);
+  }
+
+  /**
+   * Drops partial samples, e.g. when queued agent audio is flushed.
+   */
+  reset() {
+    this.carryByte = null;
+    this.carrySamples = [];
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Sliding-window rate limiter keyed by client IP.
+ */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+
+  constructor(private windowMs: number, private maxRequests: number) {}
+
+  /**
+   * Records a request and returns whether it is allowed.
+   * `retryAfterMs` tells the caller when the oldest hit leaves the window.
+   */
+  hit(key: string, now = Date.now()): { allowed: boolean; retryAfterMs: number } {
+    const windowStart = now - this.windowMs;
+    const recent = (this.hits.get(key) ?? []).filter(t => t > windowStart);
+
+    if (recent.length >= this.maxRequests) {
+      this.hits.set(key, recent);
+      return { allowed: false, retryAfterMs: recent[0] + this.windowMs - now };
+    }
+
+    recent.push(now);
+    this.hits.set(key, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  /**
+   * Drops keys with no hits inside the window so the map does not grow forever.
+   */
+  prune(now = Date.now()) {
+    const windowStart = now - this.windowMs;
+    for (const [key, times] of this.hits) {
+      if (!times.some(t => t > windowStart)) this.hits.delete(key);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { randomUUID } from 'node:crypto';
+
+export interface SessionLease {
+  id: string;
+  ip: string;
+  expiresAt: number;
+  // Tokens issued under this lease after the first
+  renewals: number;
+}
+
+// Enough for a long call's reconnects, goAways and language switches
+const MAX_RENEWALS = 20;
+
+// How long after its lease expires a call may still be reported
+const REPORT_GRACE_MS = 10 * 60 * 1000;
+
+export type LeaseRejection = 'ip_cap' | 'global_cap';
+
+/**
+ * Tracks issued session credentials so we can cap concurrent sessions
+ * per IP and overall. A lease is released when the browser reports the
+ * session ended, or when its token expires. A call that reconnects renews
+ * its lease instead of taking another one, and each lease may report its
+ * call once, even after it was released.
+ */
+export class SessionRegistry {
+  private leases = new Map<string, SessionLease>();
+  // Leases whose call has not been reported yet, until when they may be
+  private unreported = new Map<string, { ip: string; until: number }>();
+
+  constructor(private maxPerIp: number, private maxTotal: number) {}
+
+  acquire(ip: string, ttlMs: number, now = Date.now()): SessionLease | LeaseRejection {
+    this.expire(now);
+
+    if (this.leases.size >= this.maxTotal) {
+      return 'global_cap';
+    }
+    const forIp = [...this.leases.values()].filter(l => l.ip === ip).length;
+    if (forIp >= this.maxPerIp) {
+      return 'ip_cap';
+    }
+
+    const lease: SessionLease = { id: randomUUID(), ip, expiresAt: now + ttlMs, renewals: 0 };
+    this.leases.set(lease.id, lease);
+    this.unreported.set(lease.id, { ip, until: lease.expiresAt + REPORT_GRACE_MS });
+    return lease;
+  }
+
+  /**
+   * Lets a call open another session under its lease, keeping the lease's
+   * expiry. Returns null for an unknown or expired lease, another IP's
+   * lease or one that has been renewed too often.
+   */
+  renew(id: string, ip: string, now = Date.now()): SessionLease | null {
+    this.expire(now);
+    const lease = this.leases.get(id);
+    if (!lease || lease.ip !== ip || lease.renewals >= MAX_RENEWALS) return null;
+    lease.renewals++;
+    return lease;
+  }
+
+  /**
+   * Accepts the one report for a lease's call. Returns false for an unknown
+   * lease, another IP's lease or one whose call was already reported.
+   */
+  claimReport(id: string, ip: string, now = Date.now()): boolean {
+    this.expire(now);
+    const entry = this.unreported.get(id);
+    if (!entry || entry.ip !== ip) return false;
+    this.unreported.delete(id);
+    return true;
+  }
+
+  /**
+   * Releases a lease. Only the IP that acquired it may release it.
+   */
+  release(id: string, ip: string): boolean {
+    const lease = this.leases.get(id);
+    if (!lease || lease.ip !== ip) return false;
+    this.leases.delete(id);
+    return true;
+  }
+
+  get activeCount(): number {
+    this.expire();
+    return this.leases.size;
+  }
+
+  private expire(now = Date.now()) {
+    for (const [id, lease] of this.leases) {
+      if (lease.expiresAt <= now) this.leases.delete(id);
+    }
+    for (const [id, entry] of this.unreported) {
+      if (entry.until <= now) this.unreported.delete(id);
+    }
+  }
+}
@@ -0,0 +1,379 @@
+import { FunctionCall, GoogleGenAI, LiveServerMessage, Modality, Session } from '@google/genai';
+import type { WebSocket } from 'ws';
+import { buildSystemInstruction } from '../constants';
+import { LanguageMode, RestaurantProfile } from '../types';
+import { encodePcm16 } from '../utils/audio';
+import { getMenu } from '../services/menu';
+import { getProfile, DEFAULT_PROFILE } from '../services/restaurantProfiles';
+import { TOOL_DECLARATIONS, ToolHandler, createToolHandlers, executeToolCall } from '../services/tools';
+import { InboundTranscoder, OutboundTranscoder, PHONE_FRAME_BYTES } from './phoneAudio';
+import { BookingDesk } from './bookingDesk';
+import { tokensMatch } from './http';
+import { AgentSettings, buildAgentConfig, resolvePersona } from '../services/agentSettings';
+import { SessionLimiter, SessionLimits, buildLimitWarning } from '../services/sessionLimits';
+
+/**
+ * Messages on a Twilio-style media stream. Only the fields we use are typed.
+ */
+type PhoneStreamMessage =
+  | { event: 'connected' }
+  | {
+    event: 'start';
+    start: { streamSid: string; callSid?: string; customParameters?: Record<string, string> };
+  }
+  | { event: 'media'; media: { track?: string; payload: string } }
+  | { event: 'mark'; mark: { name: string } }
+  | { event: 'stop' };
+
+export interface PhoneCallOptions {
+  // Required in the stream's `token` custom parameter; calls are refused
+  // while it is empty
+  token: string;
+  // Hang up on streams that have not sent `start` by then
+  startTimeoutSeconds: number;
+  // Call length and silence limits, enforced here like in the browser;
+  // 0 leaves a limit to the upstream session
+  limits: SessionLimits;
+  // The reservation book shared with the web sessions
+  bookings: BookingDesk;
+  // The restaurant's agent settings, as saved on the admin dashboard
+  agentSettings: (restaurantId: string) => AgentSettings;
+}
+
+// Sent once the session is up so the agent answers the phone first
+const GREETING_PROMPT = '[The phone call has just connected. Greet the caller as the restaurant would when answering the phone.]';
+
+// How often call and idle time are checked against the limits
+const LIMIT_CHECK_INTERVAL_MS = 1000;
+
+// Backoff for reopening the Live session after it drops mid-call
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_ATTEMPTS = 5;
+
+/**
+ * Bridges one phone call's media stream to a Live session: caller audio is
+ * transcoded to 16 kHz PCM and streamed up, agent audio is transcoded back
+ * to 8 kHz μ-law and sent down in 20 ms frames. When the caller barges in,
+ * the phone side is told to drop the agent audio it has queued. The Live
+ * session is resumed when the server sends goAway or the socket drops, so
+ * the caller stays on the line.
+ */
+export class PhoneCallBridge {
+  private streamSid: string | null = null;
+  private session: Session | null = null;
+  private sessionReady = false;
+  private call: { profile: RestaurantProfile; language: LanguageMode; settings: AgentSettings } | null = null;
+  private resumptionHandle: string | null = null;
+  // Callbacks of replaced sessions are ignored
+  private sessionGeneration = 0;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private inbound = new InboundTranscoder();
+  private outbound = new OutboundTranscoder();
+  private pendingFrame: number[] = [];
+  private toolHandlers: Record<string, ToolHandler> = {};
+  private limitTimer: ReturnType<typeof setInterval> | null = null;
+  // The caller is only idle while the agent is not talking
+  private agentSpeaking = false;
+  private limiter: SessionLimiter | null = null;
+  private startTimer: ReturnType<typeof setTimeout> | null;
+
+  constructor(
+    private socket: WebSocket,
+    private ai: GoogleGenAI,
+    private options: PhoneCallOptions,
+    private onEnd: () => void = () => {}
+  ) {
+    this.startTimer = setTimeout(() => this.end('no start message'), options.startTimeoutSeconds * 1000);
+    socket.on('message', (data) => this.handleStreamMessage(data.toString()));
+    socket.on('close', () => this.end('phone side closed'));
+    socket.on('error', (err) => console.error('[Telephony] Media stream error:', err));
+  }
+
+  private handleStreamMessage(raw: string) {
+    let message: PhoneStreamMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      console.warn('[Telephony] Ignoring malformed media stream message');
+      return;
+    }
+
+    switch (message.event) {
+      case 'connected':
+        console.log('[Telephony] Media stream connected');
+        break;
+      case 'start':
+        if (this.streamSid) return;
+        this.handleStart(message.start).catch(err => {
+          console.error('[Telephony] Failed to start call:', err);
+          this.end('session failed');
+        });
+        break;
+      case 'media': {
+        if (message.media.track && message.media.track !== 'inbound') return;
+        if (!this.sessionReady || !this.session) return;
+        const pcm = this.inbound.transcode(Buffer.from(message.media.payload, 'base64'));
+        this.session.sendRealtimeInput({ media: encodePcm16(pcm) });
+        break;
+      }
+      case 'mark':
+        break;
+      case 'stop':
+        this.end('call ended');
+        break;
+    }
+  }
+
+  private async handleStart(start: { streamSid: string; callSid?: string; customParameters?: Record<string, string> }) {
+    if (this.startTimer) clearTimeout(this.startTimer);
+    this.startTimer = null;
+    this.streamSid = start.streamSid;
+    const params = start.customParameters ?? {};
+    if (!tokensMatch(params.token, this.options.token)) {
+      console.warn('[Telephony] Rejected call with a missing or wrong token');
+      this.end('unauthorized');
+      return;
+    }
+
+    const profile = this.selectProfile(params.restaurant);
+    // Callers can speak any of the venue's languages
+    const language: LanguageMode = profile.languages.length > 1 ? 'auto' : profile.languages[0];
+    this.toolHandlers = createToolHandlers(this.options.bookings.handlersFor(profile), getMenu(profile.id));
+    const settings = this.options.agentSettings(profile.id);
+    console.log(`[Telephony] Call ${start.callSid ?? start.streamSid} for ${profile.id}, language ${language}, model ${settings.model}`);
+
+    this.call = { profile, language, settings };
+    await this.openSession();
+    if (this.closed) return;
+    if (this.sessionReady) {
+      this.session?.sendClientContent({ turns: [{ role: 'user', parts: [{ text: GREETING_PROMPT }] }], turnComplete: true });
+    }
+
+    this.startLimits();
+  }
+
+  /**
+   * Opens the call's Live session, resuming the previous one when we hold a
+   * handle.
+   */
+  private async openSession() {
+    const { profile, language, settings } = this.call!;
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration;
+    // A reply cut short by the switch never completes
+    this.agentSpeaking = false;
+
+    const session = await this.ai.live.connect({
+      model: settings.model,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        // Voice and optional native audio features
+        ...buildAgentConfig(profile, settings),
+        systemInstruction: buildSystemInstruction(profile, language, {
+          personaName: resolvePersona(profile, settings).name,
+          tone: settings.tone,
+        }),
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        tools: [{ functionDeclarations: TOOL_DECLARATIONS }],
+        sessionResumption: { handle: this.resumptionHandle ?? undefined },
+        contextWindowCompression: { slidingWindow: {} },
+      },
+      callbacks: {
+        onopen: () => console.log(this.resumptionHandle ? '[Telephony] Live session resumed' : '[Telephony] Live session opened'),
+        onmessage: (msg) => {
+          if (isCurrent()) this.handleModelMessage(msg);
+        },
+        onerror: (err) => console.error('[Telephony] Live session error:', err),
+        onclose: () => {
+          if (isCurrent()) this.handleSessionClosed();
+        },
+      },
+    });
+    if (this.closed || !isCurrent()) {
+      session.close();
+      return;
+    }
+    this.session = session;
+    this.sessionReady = true;
+    this.reconnectAttempts = 0;
+  }
+
+  private handleSessionClosed() {
+    this.sessionReady = false;
+    if (this.closed) return;
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Retries the session with exponential backoff after an unexpected close,
+   * hanging up once the attempts run out.
+   */
+  private scheduleReconnect() {
+    if (this.closed || this.reconnectTimer) return;
+    if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+      console.error('[Telephony] Giving up after', this.reconnectAttempts, 'reconnect attempts');
+      this.end('live session closed');
+      return;
+    }
+
+    const delay = RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts;
+    this.reconnectAttempts++;
+    console.log(`[Telephony] Live session dropped, reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.openSession();
+      } catch (err) {
+        console.error('[Telephony] Reconnect attempt failed:', err);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  /**
+   * The server is about to drop the session: open a resumed one right away
+   * and close the old one once the new one is up.
+   */
+  private async handleGoAway(timeLeft?: string) {
+    console.log('[Telephony] Server sent goAway, time left:', timeLeft);
+    if (!this.sessionReady) return;
+    const previous = this.session;
+    this.sessionReady = false;
+    try {
+      await this.openSession();
+    } catch (err) {
+      console.error('[Telephony] Failed to open replacement session:', err);
+      this.scheduleReconnect();
+    }
+    previous?.close();
+  }
+
+  /**
+   * Checks the call against the limits every second: the agent warns the
+   * caller first, then the call is ended.
+   */
+  private startLimits() {
+    const { limits } = this.options;
+    if (limits.maxSessionSeconds <= 0 && limits.idleTimeoutSeconds <= 0) return;
+    const limiter = new SessionLimiter(limits);
+    this.limiter = limiter;
+    let last = Date.now();
+
+    this.limitTimer = setInterval(() => {
+      const now = Date.now();
+      const action = limiter.advance((now - last) / 1000, !this.agentSpeaking);
+      last = now;
+      if (action?.type === 'end') {
+        this.end(action.reason === 'idle' ? 'caller silent' : 'maximum call length reached');
+      } else if (action && this.sessionReady) {
+        const text = buildLimitWarning(action.reason, action.secondsLeft);
+        this.session?.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+      }
+    }, LIMIT_CHECK_INTERVAL_MS);
+  }
+
+  private selectProfile(requested?: string): RestaurantProfile {
+    const profile = getProfile(requested);
+    if (requested && !profile) {
+      console.warn(`[Telephony] Unknown restaurant "${requested}", using "${DEFAULT_PROFILE.id}"`);
+    }
+    return profile ?? DEFAULT_PROFILE;
+  }
+
+  private handleModelMessage(message: LiveServerMessage) {
+    const content = message.serverContent;
+
+    content?.modelTurn?.parts?.forEach(part => {
+      if (!part.inlineData?.data) return;
+      this.agentSpeaking = true;
+      this.sendAgentAudio(Buffer.from(part.inlineData.data, 'base64'));
+    });
+
+    if (content?.inputTranscription?.text) {
+      console.log('[Telephony] Caller:', content.inputTranscription.text);
+      this.limiter?.noteGuestActivity();
+    }
+    if (content?.outputTranscription?.text) console.log('[Telephony] Agent:', content.outputTranscription.text);
+
+    if (content?.interrupted) {
+      console.log('[Telephony] Caller barged in, flushing agent audio');
+      this.agentSpeaking = false;
+      this.flushAgentAudio();
+    }
+
+    if (content?.turnComplete) {
+      this.agentSpeaking = false;
+      this.sendPendingFrame();
+    }
+
+    if (message.toolCall?.functionCalls?.length) {
+      this.handleToolCall(message.toolCall.functionCalls);
+    }
+
+    if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+      this.resumptionHandle = message.sessionResumptionUpdate.newHandle;
+    }
+
+    if (message.goAway) {
+      this.handleGoAway(message.goAway.timeLeft);
+    }
+  }
+
+  private async handleToolCall(functionCalls: FunctionCall[]) {
+    console.log('[Telephony] Tool call:', functionCalls.map(call => call.name).join(', '));
+    const functionResponses = await Promise.all(
+      functionCalls.map(call => executeToolCall(call, this.toolHandlers))
+    );
+    if (this.sessionReady) this.session?.sendToolResponse({ functionResponses });
+  }
+
+  /**
+   * Sends agent audio in whole 20 ms frames, keeping any remainder for the
+   * next chunk.
+   */
+  private sendAgentAudio(pcm: Uint8Array) {
+    const mulaw = this.outbound.transcode(pcm);
+    for (const byte of mulaw) {
+      this.pendingFrame.push(byte);
+      if (this.pendingFrame.length === PHONE_FRAME_BYTES) this.sendPendingFrame();
+    }
+  }
+
+  private sendPendingFrame() {
+    if (this.pendingFrame.length === 0) return;
+    const payload = Buffer.from(this.pendingFrame).toString('base64');
+    this.pendingFrame = [];
+    this.sendToPhone({ event: 'media', streamSid: this.streamSid, media: { payload } });
+  }
+
+  /**
+   * Barge-in: drop what we have not sent yet and tell the phone side to
+   * discard the audio it has buffered.
+   */
+  private flushAgentAudio() {
+    this.pendingFrame = [];
+    this.outbound.reset();
+    this.sendToPhone({ event: 'clear', streamSid: this.streamSid });
+  }
+
+  private sendToPhone(message: Record<string, unknown>) {
+    if (!this.streamSid || this.socket.readyState !== this.socket.OPEN) return;
+    this.socket.send(JSON.stringify(message));
+  }
+
+  private end(reason: string) {
+    if (this.closed) return;
+    this.closed = true;
+    this.sessionReady = false;
+    console.log('[Telephony] Ending call:', reason);
+    if (this.limitTimer) clearInterval(this.limitTimer);
+    if (this.startTimer) clearTimeout(this.startTimer);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.session?.close();
+    if (this.socket.readyState === this.socket.OPEN) this.socket.close();
+    this.onEnd();
+  }
+}
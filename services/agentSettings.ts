@@ -0,0 +1,124 @@
+import { LiveConnectConfig } from '@google/genai';
+import { MODEL_NAME } from '../constants';
+import { KeyValueStorage, PersonaTone, RestaurantProfile } from '../types';
+
+const STORAGE_PREFIX = 'golden-spice:agent-settings';
+
+export interface LiveModelOption {
+  id: string;
+  label: string;
+  // Native audio models speak directly and support the optional features below
+  nativeAudio: boolean;
+}
+
+export const LIVE_MODELS: LiveModelOption[] = [
+  { id: MODEL_NAME, label: 'Gemini 2.5 Flash native audio (09-2025)', nativeAudio: true },
+  { id: 'gemini-live-2.5-flash-preview', label: 'Gemini Live 2.5 Flash (half-cascade)', nativeAudio: false },
+  { id: 'gemini-2.0-flash-live-001', label: 'Gemini 2.0 Flash Live', nativeAudio: false },
+];
+
+// Prebuilt Live API voices and how Google describes them
+export const PREBUILT_VOICES: Array<{ name: string; style: string }> = [
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Zephyr', style: 'Bright' },
+];
+
+export const PERSONA_TONES: Array<{ id: PersonaTone; label: string }> = [
+  { id: 'warm', label: 'Warm' },
+  { id: 'formal', label: 'Formal' },
+  { id: 'playful', label: 'Playful' },
+  { id: 'concise', label: 'Concise' },
+];
+
+const MAX_PERSONA_NAME_LENGTH = 40;
+
+/**
+ * How the agent sounds and which model runs it, set per restaurant on the
+ * admin dashboard and kept by the server, which web sessions and phone calls
+ * both read. A null voice or persona name means "use the restaurant profile's".
+ */
+export interface AgentSettings {
+  model: string;
+  voice: string | null;
+  personaName: string | null;
+  tone: PersonaTone;
+  // Native audio models only: adapt to the guest's tone of voice
+  affectiveDialog: boolean;
+  // Native audio models only: let the model stay quiet when not addressed
+  proactiveAudio: boolean;
+}
+
+export const DEFAULT_AGENT_SETTINGS: AgentSettings = {
+  model: MODEL_NAME,
+  voice: null,
+  personaName: null,
+  tone: 'warm',
+  affectiveDialog: false,
+  proactiveAudio: false,
+};
+
+const storageKey = (restaurantId: string) => `${STORAGE_PREFIX}:${restaurantId}`;
+
+/**
+ * Fills in defaults and drops values we no longer offer, e.g. a retired model.
+ */
+export function normalizeAgentSettings(raw: unknown): AgentSettings {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<keyof AgentSettings, unknown>>;
+  const name = typeof input.personaName === 'string' ? input.personaName.trim().slice(0, MAX_PERSONA_NAME_LENGTH) : '';
+  return {
+    model: LIVE_MODELS.some(m => m.id === input.model) ? (input.model as string) : DEFAULT_AGENT_SETTINGS.model,
+    voice: PREBUILT_VOICES.some(v => v.name === input.voice) ? (input.voice as string) : null,
+    personaName: name || null,
+    tone: PERSONA_TONES.some(t => t.id === input.tone) ? (input.tone as PersonaTone) : DEFAULT_AGENT_SETTINGS.tone,
+    affectiveDialog: input.affectiveDialog === true,
+    proactiveAudio: input.proactiveAudio === true,
+  };
+}
+
+/**
+ * The restaurant's saved settings, from the server's storage.
+ */
+export function loadAgentSettings(restaurantId: string, storage: KeyValueStorage): AgentSettings {
+  try {
+    const raw = storage.getItem(storageKey(restaurantId));
+    return raw ? normalizeAgentSettings(JSON.parse(raw)) : DEFAULT_AGENT_SETTINGS;
+  } catch (e) {
+    console.warn('[AgentSettings] Failed to load agent settings, using defaults', e);
+    return DEFAULT_AGENT_SETTINGS;
+  }
+}
+
+export function saveAgentSettings(restaurantId: string, settings: AgentSettings, storage: KeyValueStorage) {
+  storage.setItem(storageKey(restaurantId), JSON.stringify(normalizeAgentSettings(settings)));
+}
+
+/**
+ * The name and voice the agent uses, after the settings' overrides.
+ */
+export function resolvePersona(profile: RestaurantProfile, settings: AgentSettings): { name: string; voice: string } {
+  return {
+    name: settings.personaName ?? profile.persona.name,
+    voice: settings.voice ?? profile.persona.voice,
+  };
+}
+
+/**
+ * Live session config for the chosen model, voice and optional features.
+ * Affective dialog and proactive audio are only sent to native audio models.
+ */
+export function buildAgentConfig(profile: RestaurantProfile, settings: AgentSettings): LiveConnectConfig {
+  const nativeAudio = LIVE_MODELS.find(m => m.id === settings.model)?.nativeAudio ?? false;
+  return {
+    speechConfig: {
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: resolvePersona(profile, settings).voice } },
+    },
+    enableAffectiveDialog: nativeAudio && settings.affectiveDialog ? true : undefined,
+    proactivity: nativeAudio && settings.proactiveAudio ? { proactiveAudio: true } : undefined,
+  };
+}
@@ -0,0 +1,43 @@
+import { AgentSettings, normalizeAgentSettings } from './agentSettings';
+import { DEFAULT_API_BASE } from './sessionCredentials';
+
+const settingsUrl = (apiBase: string, restaurantId: string) =>
+  `${apiBase}/agent-settings?restaurant=${encodeURIComponent(restaurantId)}`;
+
+/**
+ * The restaurant's current agent settings from our backend. Guest sessions
+ * read them at the start of every call.
+ */
+export async function fetchAgentSettings(restaurantId: string, apiBase = DEFAULT_API_BASE): Promise<AgentSettings> {
+  const response = await fetch(settingsUrl(apiBase, restaurantId));
+  if (!response.ok) throw new Error(`Agent settings request failed (${response.status})`);
+  return normalizeAgentSettings(await response.json());
+}
+
+/**
+ * Saves new settings for the restaurant. Only callers with ADMIN_TOKEN may
+ * change them; returns the settings as the server stored them.
+ */
+export async function updateAgentSettings(
+  restaurantId: string,
+  settings: AgentSettings,
+  adminToken: string,
+  apiBase = DEFAULT_API_BASE
+): Promise<AgentSettings> {
+  let response: Response;
+  try {
+    response = await fetch(settingsUrl(apiBase, restaurantId), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+      body: JSON.stringify(settings),
+    });
+  } catch {
+    throw new Error('Could not reach the server. Please check your connection.');
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message ?? `Saving agent settings failed (${response.status})`);
+  }
+  return normalizeAgentSettings(body);
+}
@@ -0,0 +1,121 @@
+const STORAGE_KEY = 'golden-spice:audio-settings';
+
+/**
+ * Capture and playback preferences, remembered per browser.
+ * A null device id means "use the system default".
+ */
+export interface AudioSettings {
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  inputDeviceId: null,
+  outputDeviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+export interface AudioDeviceList {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+// AudioContext.setSinkId is not in TypeScript's DOM lib yet
+type SinkableAudioContext = AudioContext & {
+  sinkId: string;
+  setSinkId(sinkId: string): Promise<void>;
+};
+
+export function loadAudioSettings(
+  storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null
+): AudioSettings {
+  try {
+    const raw = storage?.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(raw) } : DEFAULT_AUDIO_SETTINGS;
+  } catch (e) {
+    console.warn('[AudioDevices] Failed to load audio settings, using defaults', e);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveAudioSettings(
+  settings: AudioSettings,
+  storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null
+) {
+  try {
+    storage?.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('[AudioDevices] Failed to persist audio settings', e);
+  }
+}
+
+/**
+ * getUserMedia constraints for the settings. The device is only `ideal`, so
+ * an unplugged headset falls back to the default microphone instead of failing.
+ */
+export function buildAudioConstraints(settings: AudioSettings): MediaTrackConstraints {
+  return {
+    deviceId: settings.inputDeviceId ? { ideal: settings.inputDeviceId } : undefined,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+    channelCount: 1,
+  };
+}
+
+/**
+ * Lists microphones and speakers. Labels stay empty until the page has been
+ * granted microphone access.
+ */
+export async function listAudioDevices(): Promise<AudioDeviceList> {
+  if (typeof navigator === 'undefined' || !navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  // Chrome adds "default"/"communications" aliases; the null choice covers them
+  const real = devices.filter(d => d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications');
+  return {
+    inputs: real.filter(d => d.kind === 'audioinput'),
+    outputs: real.filter(d => d.kind === 'audiooutput'),
+  };
+}
+
+/**
+ * Calls the listener whenever a device is plugged in or removed.
+ */
+export function watchDeviceChanges(listener: () => void): () => void {
+  const devices = typeof navigator !== 'undefined' ? navigator.mediaDevices : undefined;
+  if (!devices?.addEventListener) return () => {};
+  devices.addEventListener('devicechange', listener);
+  return () => devices.removeEventListener('devicechange', listener);
+}
+
+export function supportsOutputSelection(): boolean {
+  return typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+}
+
+/**
+ * Routes an AudioContext to a speaker, falling back to the default one when
+ * the device is missing. Returns the sink actually in use ('' = default).
+ */
+export async function applyOutputDevice(
+  context: AudioContext,
+  deviceId: string | null,
+  available: MediaDeviceInfo[]
+): Promise<string> {
+  if (!supportsOutputSelection()) return '';
+  const sinkable = context as SinkableAudioContext;
+  const target = deviceId && available.some(d => d.deviceId === deviceId) ? deviceId : '';
+  if (sinkable.sinkId === target) return target;
+  try {
+    await sinkable.setSinkId(target);
+    console.log('[AudioDevices] Output routed to', target || 'default device');
+    return target;
+  } catch (e) {
+    console.warn('[AudioDevices] Failed to switch output device, keeping current one', e);
+    return sinkable.sinkId;
+  }
+}
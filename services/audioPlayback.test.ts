@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeAudioContext } from '../test/fakeAudioContext';
+import { PlaybackEngine } from './audioPlayback';
+
+const RATE = 24000;
+
+// Little-endian PCM16 bytes of `ms` milliseconds of a constant sample
+const pcm = (ms: number, value = 0x1000) => {
+  const bytes = new Uint8Array((RATE * ms / 1000) * 2);
+  for (let i = 0; i < bytes.length; i += 2) {
+    bytes[i] = value & 0xff;
+    bytes[i + 1] = value >> 8;
+  }
+  return bytes;
+};
+
+function createEngine() {
+  const context = new FakeAudioContext({ sampleRate: RATE });
+  const engine = new PlaybackEngine(context.asAudioContext(), context.destination as unknown as AudioNode);
+  const events: string[] = [];
+  const scheduled: number[][] = [];
+  engine.on('drained', () => events.push('drained'));
+  engine.on('underrun', lead => events.push(`underrun:${lead}`));
+  engine.on('playing', playing => events.push(`playing:${playing}`));
+  engine.on('scheduled', samples => scheduled.push(Array.from(samples)));
+  return { context, engine, events, scheduled };
+}
+
+describe('PlaybackEngine', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('joins a sample split across chunks', () => {
+    const { engine, scheduled } = createEngine();
+
+    // 0x4000 = 0.5, then a 0xc000 (-0.5) split after its low byte, then 0x4000
+    engine.enqueue(new Uint8Array([0x00, 0x40, 0x00]), RATE);
+    engine.enqueue(new Uint8Array([0xc0, 0x00, 0x40]), RATE);
+    engine.endOfStream();
+
+    expect(scheduled).toEqual([[0.5], [-0.5, 0.5]]);
+  });
+
+  it('drops a dangling odd byte on interrupt', () => {
+    const { engine, scheduled } = createEngine();
+
+    engine.enqueue(new Uint8Array([0x00, 0x40, 0x00]), RATE);
+    engine.interrupt();
+    engine.enqueue(new Uint8Array([0x00, 0x40]), RATE);
+    engine.endOfStream();
+
+    expect(scheduled).toEqual([[0.5]]);
+  });
+
+  it('reports drained once a finished stream has played out', () => {
+    const { context, engine, events } = createEngine();
+
+    engine.enqueue(pcm(80), RATE);
+    engine.endOfStream();
+    vi.advanceTimersByTime(10);
+    context.advance(0.1);
+
+    expect(events).toEqual(['playing:true', 'playing:false', 'drained']);
+  });
+
+  it('grows the lead after running dry mid-stream', () => {
+    const { context, engine, events } = createEngine();
+
+    // 80 ms fills the 60 ms lead, so it starts right away
+    engine.enqueue(pcm(80), RATE);
+    expect(context.sources).toHaveLength(1);
+    vi.advanceTimersByTime(10);
+    context.advance(0.1);
+    expect(events).toEqual(['playing:true', 'playing:false', 'underrun:80', 'drained']);
+
+    // 60 ms no longer fills the lead: it waits for more or for the lead to pass
+    engine.enqueue(pcm(60), RATE);
+    expect(context.sources).toHaveLength(1);
+    vi.advanceTimersByTime(80);
+    expect(context.sources).toHaveLength(2);
+  });
+
+  it('is not drained while rebuffering after an underrun', () => {
+    const { context, engine, events } = createEngine();
+
+    engine.enqueue(pcm(80), RATE);
+    vi.advanceTimersByTime(10);
+    // The clock passes the end of the queue before its source reports ending,
+    // and a short chunk arrives in between
+    context.currentTime = 0.1;
+    engine.enqueue(pcm(20), RATE);
+    context.advance(0);
+
+    expect(events).toEqual(['playing:true', 'playing:false', 'underrun:80']);
+    vi.advanceTimersByTime(80);
+    expect(context.sources).toHaveLength(2);
+  });
+
+  it('shrinks the lead after a stream that played through', () => {
+    const { context, engine } = createEngine();
+
+    engine.enqueue(pcm(80), RATE);
+    engine.endOfStream();
+    context.advance(0.1);
+
+    // The lead is now 55 ms
+    engine.enqueue(pcm(55), RATE);
+    expect(context.sources).toHaveLength(2);
+  });
+
+  it('fades out on interrupt and reports the queue drained', () => {
+    const { context, engine, events } = createEngine();
+
+    engine.enqueue(pcm(80), RATE);
+    vi.advanceTimersByTime(10);
+    context.currentTime = 0.02;
+    const silentAt = engine.interrupt();
+
+    expect(silentAt).toBeCloseTo(0.035);
+    expect(context.sources[0].stopTime).toBeCloseTo(0.035);
+    expect(events).toEqual(['playing:true', 'playing:false', 'drained']);
+    // Nothing more is reported for the cut-off source
+    context.advance(1);
+    expect(events).toHaveLength(3);
+  });
+});
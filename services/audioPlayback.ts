@@ -0,0 +1,254 @@
+import { TypedEmitter } from '../utils/events';
+import { pcm16ToFloat32 } from '../utils/audio';
+
+// Jitter buffer: audio starting from silence waits until this much is
+// buffered. The lead grows after each underrun and shrinks again after
+// streams that played through cleanly.
+const START_LEAD_MS = 60;
+const MIN_LEAD_MS = 40;
+const MAX_LEAD_MS = 200;
+const UNDERRUN_STEP_MS = 20;
+const RECOVERY_STEP_MS = 5;
+
+// Barge-in fades the agent out instead of cutting it mid-waveform
+const FADE_OUT_MS = 15;
+
+// Starting a source this close to the playhead risks it starting late
+const SCHEDULE_MARGIN_SEC = 0.005;
+
+interface PendingChunk {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export type PlaybackEvents = {
+  // Audio is audible (true) or has stopped (false)
+  playing: [playing: boolean];
+  // Everything queued has played out or was cut off
+  drained: [];
+  // The queue ran dry while more audio was expected; carries the new lead
+  underrun: [leadMs: number];
+  // A chunk was scheduled to start at `startTime` on the context clock
+  scheduled: [samples: Float32Array, startTime: number, sampleRate: number];
+};
+
+/**
+ * Gapless playback of streamed 16-bit mono PCM. Chunks may split samples
+ * across their boundaries; a trailing odd byte is carried into the next one.
+ * Each utterance plays through its own gain node so a barge-in can fade it
+ * out, and `playing` follows what is actually audible rather than what has
+ * been received.
+ */
+export class PlaybackEngine extends TypedEmitter<PlaybackEvents> {
+  private sources = new Set<AudioBufferSourceNode>();
+  private voice: GainNode | null = null;
+  private nextStartTime = 0;
+
+  private pending: PendingChunk[] = [];
+  private pendingMs = 0;
+  private prebufferTimer: ReturnType<typeof setTimeout> | null = null;
+  private leadMs = START_LEAD_MS;
+
+  // Odd byte left over from the previous chunk
+  private carry: number | null = null;
+
+  // More audio is expected until endOfStream(), so running dry is an underrun
+  private streaming = false;
+  private underranThisStream = false;
+  private underruns = 0;
+
+  private playing = false;
+  private playingTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private context: AudioContext, private destination: AudioNode) {
+    super();
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Queues little-endian PCM16 bytes for playback after what is already queued.
+   */
+  enqueue(bytes: Uint8Array, sampleRate: number) {
+    const samples = this.decode(bytes);
+    if (!samples.length) return;
+    this.streaming = true;
+    this.pending.push({ samples, sampleRate });
+    this.pendingMs += (samples.length / sampleRate) * 1000;
+
+    // While audio is queued ahead of the playhead, that queue is the buffer
+    const queuedAhead = this.sources.size > 0 && this.nextStartTime > this.context.currentTime + SCHEDULE_MARGIN_SEC;
+    if (queuedAhead || this.pendingMs >= this.leadMs) {
+      this.flush();
+    } else if (!this.prebufferTimer) {
+      // A short reply may never fill the lead; start it anyway
+      this.prebufferTimer = setTimeout(() => this.flush(), this.leadMs);
+    }
+  }
+
+  /**
+   * No more audio is expected for now (the turn ended, or the agent paused
+   * for a tool call): plays out what is buffered, and running dry afterwards
+   * is not an underrun.
+   */
+  endOfStream() {
+    if (this.streaming && !this.underranThisStream) {
+      this.leadMs = Math.max(MIN_LEAD_MS, this.leadMs - RECOVERY_STEP_MS);
+    }
+    this.streaming = false;
+    this.underranThisStream = false;
+    this.flush();
+  }
+
+  /**
+   * Fades out and drops everything queued. Returns the context time at which
+   * the output goes silent; new audio is scheduled from there.
+   */
+  interrupt(): number {
+    const now = this.context.currentTime;
+    const hadAudio = this.sources.size > 0 || this.pending.length > 0;
+    this.clearPending();
+    this.carry = null;
+    this.streaming = false;
+    this.underranThisStream = false;
+
+    let silentAt = now;
+    const voice = this.voice;
+    this.voice = null;
+    if (voice && this.sources.size > 0) {
+      silentAt = now + FADE_OUT_MS / 1000;
+      voice.gain.cancelScheduledValues(now);
+      voice.gain.setValueAtTime(voice.gain.value, now);
+      voice.gain.linearRampToValueAtTime(0, silentAt);
+      this.sources.forEach(source => {
+        source.onended = null;
+        try { source.stop(silentAt); } catch (e) { }
+      });
+      setTimeout(() => voice.disconnect(), FADE_OUT_MS * 2);
+    } else {
+      voice?.disconnect();
+    }
+    this.sources.clear();
+    this.nextStartTime = silentAt;
+
+    this.setPlaying(false);
+    if (hadAudio) this.emit('drained');
+    return silentAt;
+  }
+
+  /**
+   * Stops everything at once, for when the context is about to close.
+   */
+  dispose() {
+    this.clearPending();
+    this.sources.forEach(source => {
+      source.onended = null;
+      try { source.stop(); } catch (e) { }
+    });
+    this.sources.clear();
+    this.voice?.disconnect();
+    this.voice = null;
+    this.carry = null;
+    this.streaming = false;
+    this.nextStartTime = 0;
+    this.setPlaying(false);
+  }
+
+  /**
+   * Converts a chunk to samples, joining a sample split across chunks.
+   */
+  private decode(bytes: Uint8Array): Float32Array {
+    let data = bytes;
+    if (this.carry !== null) {
+      data = new Uint8Array(bytes.length + 1);
+      data[0] = this.carry;
+      data.set(bytes, 1);
+      this.carry = null;
+    }
+    if (data.length % 2 === 1) {
+      this.carry = data[data.length - 1];
+      data = data.subarray(0, data.length - 1);
+    }
+    return pcm16ToFloat32(data);
+  }
+
+  /**
+   * Schedules everything buffered, back to back after the queued audio.
+   */
+  private flush() {
+    if (this.prebufferTimer) {
+      clearTimeout(this.prebufferTimer);
+      this.prebufferTimer = null;
+    }
+    if (!this.pending.length) return;
+
+    const now = this.context.currentTime;
+    const startAt = Math.max(this.nextStartTime, now + SCHEDULE_MARGIN_SEC);
+    if (!this.voice) {
+      this.voice = this.context.createGain();
+      this.voice.connect(this.destination);
+    }
+
+    let at = startAt;
+    for (const { samples, sampleRate } of this.pending) {
+      const buffer = this.context.createBuffer(1, samples.length, sampleRate);
+      buffer.copyToChannel(samples, 0);
+      const source = this.context.createBufferSource();
+      source.buffer = buffer;
+      source.connect(this.voice);
+      source.onended = () => this.handleEnded(source);
+      source.start(at);
+      this.sources.add(source);
+      this.emit('scheduled', samples, at, sampleRate);
+      at += buffer.duration;
+    }
+    this.pending = [];
+    this.pendingMs = 0;
+    this.nextStartTime = at;
+
+    if (!this.playing && !this.playingTimer) {
+      this.playingTimer = setTimeout(() => {
+        this.playingTimer = null;
+        if (this.sources.size > 0) this.setPlaying(true);
+      }, (startAt - now) * 1000);
+    }
+  }
+
+  private handleEnded(source: AudioBufferSourceNode) {
+    this.sources.delete(source);
+    if (this.sources.size > 0) return;
+    this.setPlaying(false);
+    if (this.streaming) this.noteUnderrun();
+    // Not drained while the jitter buffer refills after an underrun
+    if (!this.pending.length) this.emit('drained');
+  }
+
+  private noteUnderrun() {
+    this.underruns++;
+    this.underranThisStream = true;
+    this.leadMs = Math.min(MAX_LEAD_MS, this.leadMs + UNDERRUN_STEP_MS);
+    console.log(`[Playback] Underrun #${this.underruns}, buffering ${this.leadMs} ms before resuming`);
+    this.emit('underrun', this.leadMs);
+  }
+
+  private clearPending() {
+    if (this.prebufferTimer) {
+      clearTimeout(this.prebufferTimer);
+      this.prebufferTimer = null;
+    }
+    if (this.playingTimer) {
+      clearTimeout(this.playingTimer);
+      this.playingTimer = null;
+    }
+    this.pending = [];
+    this.pendingMs = 0;
+  }
+
+  private setPlaying(playing: boolean) {
+    if (this.playing === playing) return;
+    this.playing = playing;
+    this.emit('playing', playing);
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { RestaurantProfile } from '../types';
+import { AvailabilityEngine } from './availability';
+import { ReservationStore } from './reservationStore';
+import { DEFAULT_PROFILE } from './restaurantProfiles';
+
+// Noon at the restaurant (America/New_York) on Sunday 18 October 2026
+const NOW = new Date('2026-10-18T16:00:00Z');
+const TUESDAY = '2026-10-20';
+
+// One table for two and two for four, open 18:00–22:00 except Mondays
+const BISTRO: RestaurantProfile = {
+  ...DEFAULT_PROFILE,
+  timezone: 'America/New_York',
+  openingHours: [{ days: ['tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'], open: '18:00', close: '22:00' }],
+  seatingCapacity: 6,
+  tables: [{ id: 'T4a', seats: 4 }, { id: 'T2', seats: 2 }, { id: 'T4b', seats: 4 }],
+  booking: {
+    ...DEFAULT_PROFILE.booking,
+    slotMinutes: 30,
+    turnMinutes: [{ maxPartySize: 2, minutes: 90 }, { maxPartySize: 4, minutes: 120 }],
+  },
+};
+
+/**
+ * An engine over an empty book, and a way to book a party at the table
+ * the engine picks, as the booking tool does.
+ */
+function bistro(profile: RestaurantProfile = BISTRO) {
+  const store = new ReservationStore(profile, null);
+  const engine = new AvailabilityEngine(profile, store);
+  const book = (partySize: number, time: string, date = TUESDAY) => {
+    const { tableId } = engine.check(partySize, date, time);
+    store.add({ partySize, date, time, guestName: 'Sam Carter', phone: '+12125550123', tableId: tableId ?? undefined }, NOW);
+    return tableId;
+  };
+  return { store, engine, book };
+}
+
+describe('AvailabilityEngine', () => {
+  it('seats each party at the smallest free table it fits at', () => {
+    const { engine, book } = bistro();
+
+    expect(book(2, '19:00')).toBe('T2');
+    expect(book(2, '19:00')).toBe('T4a');
+    expect(engine.check(2, TUESDAY, '19:00')).toEqual({ available: true, tableId: 'T4b' });
+    expect(engine.check(5, TUESDAY, '19:30')).toEqual({ available: false, tableId: null });
+  });
+
+  it('keeps a table for the party\'s turn time', () => {
+    const { engine, book } = bistro();
+    book(2, '19:00');
+    book(4, '18:00');
+    book(4, '18:30');
+
+    // The table for two turns at 20:30, the others at 20:00 and 20:30
+    expect(engine.check(2, TUESDAY, '20:00')).toEqual({ available: true, tableId: 'T4a' });
+    book(2, '20:00');
+    expect(engine.check(2, TUESDAY, '20:00').available).toBe(false);
+    expect(engine.check(2, TUESDAY, '20:30')).toEqual({ available: true, tableId: 'T2' });
+  });
+
+  it('caps the covers arriving at one time', () => {
+    const { engine, book } = bistro();
+    book(4, '19:00');
+
+    // A table for four is free, but 4 + 3 guests arriving exceeds the 6 covers
+    expect(engine.check(3, TUESDAY, '19:00')).toEqual({ available: false, tableId: null });
+    expect(engine.check(2, TUESDAY, '19:00').available).toBe(true);
+    expect(engine.check(3, TUESDAY, '19:30').available).toBe(true);
+  });
+
+  it('offers the free times closest to the one asked for', () => {
+    const { engine, book } = bistro();
+    book(2, '19:00');
+    book(2, '19:00');
+    book(4, '18:00');
+    // Within the covers cap, but every table is taken
+    expect(engine.check(2, TUESDAY, '19:00').available).toBe(false);
+
+    // The 18:00 party leaves at 20:00, the 19:00 parties at 20:30
+    expect(engine.alternatives(2, TUESDAY, '19:00', NOW)).toEqual([
+      { date: TUESDAY, time: '20:00' },
+      { date: TUESDAY, time: '20:30' },
+      { date: TUESDAY, time: '21:00' },
+    ]);
+  });
+
+  it('looks at the following days when the day has no free table', () => {
+    const { engine } = bistro();
+
+    // Closed on Mondays
+    expect(engine.alternatives(2, '2026-10-19', '19:00', NOW)).toEqual([
+      { date: '2026-10-20', time: '19:00' },
+      { date: '2026-10-21', time: '19:00' },
+      { date: '2026-10-22', time: '19:00' },
+    ]);
+  });
+});
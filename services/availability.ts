@@ -0,0 +1,158 @@
+import { Reservation, RestaurantProfile, TableConfig } from '../types';
+import { addDays, daysBetween, formatMinutes, nowInTimeZone, weekdayOf } from '../utils/zonedTime';
+import { OpeningSchedule, getOpeningSchedule, parseTime, serviceMinutes } from './openingHours';
+import { ReservationStore } from './reservationStore';
+
+export interface SlotCheck {
+  available: boolean;
+  tableId: string | null; // the table the party would be seated at
+}
+
+export interface AlternativeSlot {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm (24h)
+}
+
+interface Seating {
+  start: number; // service minutes, see serviceMinutes()
+  end: number;
+  partySize: number;
+}
+
+// How many days after the requested one to look for a free table
+const ALTERNATIVE_DAYS = 7;
+const DEFAULT_ALTERNATIVES = 3;
+
+/**
+ * Decides whether a party can be seated at a given time, based on the
+ * venue's tables, turn times, opening hours and the bookings already in the
+ * store. A party gets the smallest free table it fits at, for as long as its
+ * turn time; bookings made before tables were assigned are placed the same
+ * way, in the order they were made.
+ */
+export class AvailabilityEngine {
+  private profile: RestaurantProfile;
+  private store: ReservationStore;
+  private schedule: OpeningSchedule | null;
+  // Smallest first, so best-fit is the first free table that is big enough
+  private tables: TableConfig[];
+
+  constructor(profile: RestaurantProfile, store: ReservationStore) {
+    this.profile = profile;
+    this.store = store;
+    this.schedule = getOpeningSchedule(profile);
+    this.tables = [...profile.tables].sort((a, b) => a.seats - b.seats);
+  }
+
+  turnMinutes(partySize: number): number {
+    const turns = [...this.profile.booking.turnMinutes].sort((a, b) => a.maxPartySize - b.maxPartySize);
+    return (turns.find(t => partySize <= t.maxPartySize) ?? turns[turns.length - 1]).minutes;
+  }
+
+  /**
+   * Whether `partySize` guests can be seated on `date` at `time` (HH:mm).
+   */
+  check(partySize: number, date: string, time: string): SlotCheck {
+    const start = this.toServiceMinutes(date, time);
+    if (start === null) return { available: false, tableId: null };
+
+    // The kitchen can only take so many covers arriving at once
+    const arriving = coversArriving(this.store.findByDate(date), time);
+    if (arriving + partySize > this.profile.seatingCapacity) return { available: false, tableId: null };
+
+    const table = this.freeTable(this.seatingsOn(date), { start, end: start + this.turnMinutes(partySize), partySize });
+    return { available: !!table, tableId: table?.id ?? null };
+  }
+
+  /**
+   * Bookable times on `date` for `partySize` guests, on the venue's slot
+   * grid. Times that have already passed at the venue are left out.
+   */
+  availableTimes(partySize: number, date: string, now: Date = new Date()): string[] {
+    return this.slotTimes(date, now).filter(time => this.check(partySize, date, time).available);
+  }
+
+  /**
+   * Free slots closest to the requested time: on the same day first, then
+   * at the nearest time on each of the following days.
+   */
+  alternatives(
+    partySize: number,
+    date: string,
+    time: string,
+    now: Date = new Date(),
+    limit = DEFAULT_ALTERNATIVES
+  ): AlternativeSlot[] {
+    const requested = parseTime(time) ?? 0;
+    const byDistance = (times: string[]) =>
+      [...times].sort((a, b) => Math.abs(parseTime(a)! - requested) - Math.abs(parseTime(b)! - requested));
+
+    const sameDay = byDistance(this.availableTimes(partySize, date, now).filter(t => t !== time))
+      .slice(0, limit)
+      .sort()
+      .map(t => ({ date, time: t }));
+    if (sameDay.length > 0) return sameDay;
+
+    const today = nowInTimeZone(this.profile.timezone, now).date;
+    const results: AlternativeSlot[] = [];
+    for (let offset = 1; offset <= ALTERNATIVE_DAYS && results.length < limit; offset++) {
+      const day = addDays(date, offset);
+      if (daysBetween(today, day) > this.profile.booking.maxDaysAhead) break;
+      const [nearest] = byDistance(this.availableTimes(partySize, day, now));
+      if (nearest) results.push({ date: day, time: nearest });
+    }
+    return results;
+  }
+
+  private toServiceMinutes(date: string, time: string): number | null {
+    const minutes = parseTime(time);
+    if (minutes === null) return null;
+    return this.schedule ? serviceMinutes(this.schedule, date, minutes) : minutes;
+  }
+
+  private slotTimes(date: string, now: Date): string[] {
+    const { date: today, minutes: nowMinutes } = nowInTimeZone(this.profile.timezone, now);
+    const windows = this.schedule?.[weekdayOf(date)] ?? [];
+    const times: string[] = [];
+    for (const window of windows) {
+      for (let m = window.open; m < window.close; m += this.profile.booking.slotMinutes) {
+        if (date === today && m <= nowMinutes) continue;
+        times.push(formatMinutes(m));
+      }
+    }
+    return times;
+  }
+
+  /**
+   * Which table each booking on `date` holds, and when.
+   */
+  private seatingsOn(date: string): Map<string, Seating[]> {
+    const seatings = new Map<string, Seating[]>(this.tables.map(t => [t.id, []]));
+    const bookings = [...this.store.findByDate(date)].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const booking of bookings) {
+      const start = this.toServiceMinutes(date, booking.time) ?? parseTime(booking.time);
+      if (start === null) continue;
+      const seating = { start, end: start + this.turnMinutes(booking.partySize), partySize: booking.partySize };
+      const assigned = booking.tableId && seatings.has(booking.tableId)
+        ? this.tables.find(t => t.id === booking.tableId)
+        : this.freeTable(seatings, seating);
+      if (assigned) {
+        seatings.get(assigned.id)!.push(seating);
+      } else {
+        console.warn(`[Availability] No table for booking ${booking.id} on ${date} at ${booking.time}`);
+      }
+    }
+    return seatings;
+  }
+
+  private freeTable(seatings: Map<string, Seating[]>, wanted: Seating): TableConfig | undefined {
+    return this.tables.find(table =>
+      table.seats >= wanted.partySize &&
+      seatings.get(table.id)!.every(s => s.end <= wanted.start || s.start >= wanted.end)
+    );
+  }
+}
+
+function coversArriving(reservations: Reservation[], time: string): number {
+  return reservations.filter(r => r.time === time).reduce((total, r) => total + r.partySize, 0);
+}
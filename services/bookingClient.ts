@@ -0,0 +1,35 @@
+import { DEFAULT_API_BASE } from './sessionCredentials';
+import { BOOKING_TOOLS, BookingHandlers, BookingTool, ToolArgs, ToolResult } from './tools';
+
+const UNAVAILABLE = 'The booking system cannot be reached right now. Apologise and suggest the guest tries again in a few minutes.';
+
+async function callBookingTool(apiBase: string, restaurantId: string, tool: BookingTool, args: ToolArgs): Promise<ToolResult> {
+  let response: Response;
+  try {
+    response = await fetch(`${apiBase}/bookings/${tool}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ restaurant: restaurantId, args }),
+    });
+  } catch (err) {
+    console.error(`[Bookings] ${tool} failed:`, err);
+    return { error: UNAVAILABLE };
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body || typeof body !== 'object') {
+    console.error(`[Bookings] ${tool} failed (${response.status})`, body);
+    return { error: response.status === 429 ? 'Too many booking requests. Ask the guest to wait a moment.' : UNAVAILABLE };
+  }
+  return body as ToolResult;
+}
+
+/**
+ * Booking tools answered by our backend, which keeps the one reservation
+ * book every guest session and phone call books into.
+ */
+export function createRemoteBookingHandlers(restaurantId: string, apiBase = DEFAULT_API_BASE): BookingHandlers {
+  return Object.fromEntries(
+    BOOKING_TOOLS.map(tool => [tool, (args: ToolArgs) => callBookingTool(apiBase, restaurantId, tool, args)])
+  ) as BookingHandlers;
+}
@@ -0,0 +1,59 @@
+import { nowInTimeZone } from '../utils/zonedTime';
+import { CallRecord } from './callHistory';
+
+export type CallOutcome = 'all' | 'booked' | 'not-booked';
+
+export interface CallFilter {
+  from?: string; // YYYY-MM-DD, inclusive, at the restaurant
+  to?: string; // YYYY-MM-DD, inclusive, at the restaurant
+  outcome?: CallOutcome;
+}
+
+export interface CallSummary {
+  calls: number;
+  bookings: number;
+  // Share of calls that ended with at least one confirmed booking (0-1)
+  conversionRate: number;
+  averageDurationSec: number;
+  // Number of calls per language, most used first
+  languages: Array<{ language: string; calls: number }>;
+}
+
+// The calls and headline numbers the admin dashboard shows
+export interface CallAnalytics {
+  calls: CallRecord[];
+  summary: CallSummary;
+}
+
+/**
+ * Calls matching the filter, with dates compared in the restaurant's timezone.
+ */
+export function filterCalls(calls: CallRecord[], filter: CallFilter, timeZone: string): CallRecord[] {
+  return calls.filter(call => {
+    const day = nowInTimeZone(timeZone, new Date(call.startedAt)).date;
+    if (filter.from && day < filter.from) return false;
+    if (filter.to && day > filter.to) return false;
+    if (filter.outcome === 'booked' && !call.bookingConfirmed) return false;
+    if (filter.outcome === 'not-booked' && call.bookingConfirmed) return false;
+    return true;
+  });
+}
+
+export function summarizeCalls(calls: CallRecord[]): CallSummary {
+  const bookings = calls.filter(call => call.bookingConfirmed).length;
+  const totalDuration = calls.reduce((sum, call) => sum + call.durationSec, 0);
+
+  const counts = new Map<string, number>();
+  calls.forEach(call => counts.set(call.language, (counts.get(call.language) ?? 0) + 1));
+  const languages = [...counts.entries()]
+    .map(([language, count]) => ({ language, calls: count }))
+    .sort((a, b) => b.calls - a.calls);
+
+  return {
+    calls: calls.length,
+    bookings,
+    conversionRate: calls.length ? bookings / calls.length : 0,
+    averageDurationSec: calls.length ? totalDuration / calls.length : 0,
+    languages,
+  };
+}
@@ -0,0 +1,213 @@
+import { KeyValueStorage, LanguageMode, MessageLog, TurnStatus } from '../types';
+import { SessionEndReason } from './sessionLimits';
+
+const STORAGE_PREFIX = 'golden-spice:calls';
+
+// Older calls drop off the log once it holds this many calls, or this many
+// characters of JSON
+const MAX_CALLS = 5000;
+const MAX_LOG_LENGTH = 8 * 1024 * 1024;
+// A longer call is stored without its last turns
+const MAX_RECORD_LENGTH = 32 * 1024;
+
+// Limits on what a guest's browser may report, so one report cannot fill the log
+export const MAX_CALL_TURNS = 500;
+export const MAX_TURN_TEXT_LENGTH = 4000;
+const MAX_CONFIRMATION_CODES = 10;
+const MAX_CALL_SECONDS = 24 * 60 * 60;
+
+const TURN_ROLES = ['user', 'model'] as const;
+const TURN_STATUSES: readonly TurnStatus[] = ['streaming', 'complete', 'interrupted'];
+const TURN_CHANNELS = ['voice', 'text', 'staff'] as const;
+const END_REASONS: readonly SessionEndReason[] = ['hangup', 'max-duration', 'idle'];
+
+export interface CallTurn {
+  role: 'user' | 'model';
+  text: string;
+  startedAt: string; // ISO timestamp
+  status: TurnStatus;
+  channel?: MessageLog['channel'];
+}
+
+/**
+ * Everything kept about a finished call.
+ */
+export interface CallRecord {
+  id: string;
+  restaurantId: string;
+  startedAt: string; // ISO timestamp
+  endedAt: string; // ISO timestamp
+  durationSec: number;
+  // The language the call ended in ('auto' when the agent followed the guest)
+  language: LanguageMode;
+  turns: CallTurn[];
+  bookingConfirmed: boolean;
+  confirmationCodes: string[];
+  endReason: SessionEndReason;
+  totalTokens: number;
+}
+
+// What a guest session reports when a call ends; the server fills in the rest
+export type CallReport = Omit<CallRecord, 'id' | 'restaurantId' | 'durationSec' | 'bookingConfirmed'>;
+
+export function toCallTurns(turns: MessageLog[]): CallTurn[] {
+  return turns.map(turn => ({
+    role: turn.role,
+    text: turn.text,
+    startedAt: turn.timestamp.toISOString(),
+    status: turn.status,
+    channel: turn.channel,
+  }));
+}
+
+const isIsoTime = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const oneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+/**
+ * Checks turns sent by a browser. Returns the turns with only the known
+ * fields, or the list of problems.
+ */
+export function validateCallTurns(raw: unknown): { turns: CallTurn[] | null; errors: string[] } {
+  if (!Array.isArray(raw)) return { turns: null, errors: ['turns must be an array'] };
+  if (raw.length > MAX_CALL_TURNS) return { turns: null, errors: [`turns must have at most ${MAX_CALL_TURNS} items`] };
+
+  const errors: string[] = [];
+  const turns = raw.map((item, index): CallTurn => {
+    const turn = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const path = `turns[${index}]`;
+    if (!oneOf(TURN_ROLES, turn.role)) errors.push(`${path}.role must be one of ${TURN_ROLES.join(', ')}`);
+    if (typeof turn.text !== 'string' || turn.text.length > MAX_TURN_TEXT_LENGTH) {
+      errors.push(`${path}.text must be a string of at most ${MAX_TURN_TEXT_LENGTH} characters`);
+    }
+    if (!isIsoTime(turn.startedAt)) errors.push(`${path}.startedAt must be a timestamp`);
+    if (!oneOf(TURN_STATUSES, turn.status)) errors.push(`${path}.status must be one of ${TURN_STATUSES.join(', ')}`);
+    if (turn.channel !== undefined && !oneOf(TURN_CHANNELS, turn.channel)) {
+      errors.push(`${path}.channel must be one of ${TURN_CHANNELS.join(', ')}`);
+    }
+    return {
+      role: turn.role as CallTurn['role'],
+      text: turn.text as string,
+      startedAt: turn.startedAt as string,
+      status: turn.status as TurnStatus,
+      ...(turn.channel === undefined ? {} : { channel: turn.channel as CallTurn['channel'] }),
+    };
+  });
+  return { turns: errors.length === 0 ? turns : null, errors };
+}
+
+/**
+ * Checks a finished call reported by a guest session for a restaurant
+ * speaking `languages`. Returns the report, or the list of problems.
+ */
+export function validateCallReport(raw: unknown, languages: string[]): { report: CallReport | null; errors: string[] } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { report: null, errors: ['report must be an object'] };
+  const input = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (!isIsoTime(input.startedAt)) errors.push('startedAt must be a timestamp');
+  if (!isIsoTime(input.endedAt)) errors.push('endedAt must be a timestamp');
+  if (isIsoTime(input.startedAt) && isIsoTime(input.endedAt)) {
+    const seconds = (Date.parse(input.endedAt) - Date.parse(input.startedAt)) / 1000;
+    if (seconds < 0 || seconds > MAX_CALL_SECONDS) errors.push('endedAt must be after startedAt, within a day');
+  }
+  if (input.language !== 'auto' && !oneOf(languages, input.language)) {
+    errors.push(`language must be one of auto, ${languages.join(', ')}`);
+  }
+  const { turns, errors: turnErrors } = validateCallTurns(input.turns);
+  errors.push(...turnErrors);
+  const codes = input.confirmationCodes;
+  if (!Array.isArray(codes) || codes.length > MAX_CONFIRMATION_CODES || codes.some(code => typeof code !== 'string')) {
+    errors.push(`confirmationCodes must be a list of at most ${MAX_CONFIRMATION_CODES} codes`);
+  }
+  if (!oneOf(END_REASONS, input.endReason)) errors.push(`endReason must be one of ${END_REASONS.join(', ')}`);
+  if (typeof input.totalTokens !== 'number' || !Number.isFinite(input.totalTokens) || input.totalTokens < 0) {
+    errors.push('totalTokens must be a number of at least 0');
+  }
+
+  if (errors.length > 0) return { report: null, errors };
+  return {
+    report: {
+      startedAt: input.startedAt as string,
+      endedAt: input.endedAt as string,
+      language: input.language as LanguageMode,
+      turns: turns!,
+      confirmationCodes: codes as string[],
+      endReason: input.endReason as SessionEndReason,
+      totalTokens: input.totalTokens as number,
+    },
+    errors: [],
+  };
+}
+
+const jsonLength = (value: unknown) => JSON.stringify(value).length;
+
+/**
+ * The record without the turns that take it past MAX_RECORD_LENGTH.
+ */
+function capRecord(record: CallRecord): CallRecord {
+  let length = jsonLength(record);
+  let end = record.turns.length;
+  while (length > MAX_RECORD_LENGTH && end > 0) {
+    end--;
+    length -= jsonLength(record.turns[end]) + 1;
+  }
+  return end === record.turns.length ? record : { ...record, turns: record.turns.slice(0, end) };
+}
+
+/**
+ * Call log for one restaurant. The server holds one per restaurant and
+ * builds the admin dashboard's analytics from it; without storage it is
+ * kept in memory only.
+ */
+export class CallHistoryStore {
+  private calls: CallRecord[] = [];
+  // Characters of JSON in `calls`
+  private length = 0;
+  private storageKey: string;
+
+  constructor(restaurantId: string, private storage: KeyValueStorage | null = null) {
+    this.storageKey = `${STORAGE_PREFIX}:${restaurantId}`;
+    this.load();
+  }
+
+  add(record: CallRecord) {
+    const capped = capRecord(record);
+    this.calls.push(capped);
+    this.length += jsonLength(capped);
+    while (this.calls.length > MAX_CALLS || this.length > MAX_LOG_LENGTH) {
+      this.length -= jsonLength(this.calls.shift());
+    }
+    this.save();
+  }
+
+  /**
+   * All calls for the restaurant, newest first.
+   */
+  list(): CallRecord[] {
+    return [...this.calls].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  private load() {
+    if (!this.storage) return;
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      const parsed = raw ? JSON.parse(raw) : [];
+      this.calls = Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+      console.warn('[CallHistory] Failed to load calls, starting empty', e);
+      this.calls = [];
+    }
+    this.length = this.calls.reduce((sum, call) => sum + jsonLength(call), 0);
+  }
+
+  private save() {
+    if (!this.storage) return;
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(this.calls));
+    } catch (e) {
+      console.error('[CallHistory] Failed to persist calls', e);
+    }
+  }
+}
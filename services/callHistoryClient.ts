@@ -0,0 +1,57 @@
+import { CallAnalytics, CallFilter } from './callAnalytics';
+import { CallReport } from './callHistory';
+import { DEFAULT_API_BASE } from './sessionCredentials';
+
+// Browsers refuse keepalive requests over 64 KiB
+const KEEPALIVE_MAX_BYTES = 60 * 1024;
+
+/**
+ * Sends a finished call to our backend's call history, once per session
+ * lease (`sessionId`). Best-effort: a call that cannot be reported is only
+ * missing from the analytics.
+ */
+export async function reportCall(
+  restaurantId: string,
+  sessionId: string,
+  call: CallReport,
+  apiBase = DEFAULT_API_BASE
+): Promise<void> {
+  const body = JSON.stringify({ restaurant: restaurantId, sessionId, call });
+  const response = await fetch(`${apiBase}/calls`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    // Lets a short call's report finish if the guest closes the page
+    keepalive: body.length < KEEPALIVE_MAX_BYTES,
+  });
+  if (!response.ok) throw new Error(`Call report failed (${response.status})`);
+}
+
+/**
+ * The restaurant's calls matching the filter, with headline numbers, built
+ * by the server. Needs ADMIN_TOKEN.
+ */
+export async function fetchCallAnalytics(
+  restaurantId: string,
+  filter: CallFilter,
+  adminToken: string,
+  apiBase = DEFAULT_API_BASE
+): Promise<CallAnalytics> {
+  const params = new URLSearchParams({ restaurant: restaurantId });
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(`${apiBase}/calls?${params}`, { headers: { Authorization: `Bearer ${adminToken}` } });
+  } catch {
+    throw new Error('Could not reach the server. Please check your connection.');
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message ?? `Call history request failed (${response.status})`);
+  }
+  return body as CallAnalytics;
+}
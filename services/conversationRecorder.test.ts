@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { ConversationRecorder } from './conversationRecorder';
+
+describe('ConversationRecorder', () => {
+  it('records staff audio at its own sample rate', () => {
+    const recorder = new ConversationRecorder();
+    recorder.start(0);
+
+    // 100 ms from the agent at 24 kHz, then 100 ms from staff at 16 kHz
+    recorder.addOutput(new Float32Array(2400).fill(0.5), 0);
+    recorder.addOutput(new Float32Array(1600).fill(0.25), 0.1, 16000);
+
+    const recording = recorder.finish([], 'Layla');
+    expect(recording.durationSec).toBeCloseTo(0.2);
+    // 44-byte header plus 0.2 s of 24 kHz PCM16
+    expect(recording.agentWav.size).toBe(44 + 4800 * 2);
+  });
+});
@@ -0,0 +1,94 @@
+import { MessageLog } from '../types';
+import { TimedSegment, encodeWav, int16ToFloat32, mixTracks, renderTimeline, resampleLinear } from '../utils/wav';
+import { toSrt, toTimedEntries, toTranscriptJson } from '../utils/transcriptExport';
+
+const INPUT_RATE = 16000;
+const OUTPUT_RATE = 24000;
+
+export interface ConversationRecording {
+  startedAt: Date;
+  durationSec: number;
+  guestWav: Blob; // 16 kHz mic audio
+  agentWav: Blob; // 24 kHz agent (and staff) audio as played
+  mixedWav: Blob; // both sides at 24 kHz
+  transcriptJson: string;
+  transcriptSrt: string;
+}
+
+/**
+ * Captures both sides of a call for later review.
+ *
+ * Mic frames are placed by wall-clock arrival time; model audio by the time
+ * it was scheduled on the output AudioContext. Both clocks are anchored when
+ * recording starts so the sides line up in the mixed file.
+ */
+export class ConversationRecorder {
+  private startedAt = new Date();
+  private perfOrigin = 0;
+  private outputOrigin = 0;
+  private input: TimedSegment[] = [];
+  private output: TimedSegment[] = [];
+
+  /**
+   * @param outputClock current time of the output AudioContext
+   */
+  start(outputClock: number) {
+    this.startedAt = new Date();
+    this.perfOrigin = performance.now();
+    this.outputOrigin = outputClock;
+    this.input = [];
+    this.output = [];
+  }
+
+  addInput(pcm: Int16Array) {
+    const samples = int16ToFloat32(pcm);
+    const receivedSec = (performance.now() - this.perfOrigin) / 1000;
+    this.input.push({ startSec: Math.max(0, receivedSec - samples.length / INPUT_RATE), samples });
+  }
+
+  /**
+   * @param scheduledAt output AudioContext time the chunk starts playing
+   * @param sampleRate the chunk's rate; staff audio arrives at 16 kHz
+   */
+  addOutput(samples: Float32Array, scheduledAt: number, sampleRate = OUTPUT_RATE) {
+    const resampled = sampleRate === OUTPUT_RATE ? samples.slice() : resampleLinear(samples, sampleRate, OUTPUT_RATE);
+    this.output.push({ startSec: scheduledAt - this.outputOrigin, samples: resampled });
+  }
+
+  /**
+   * Drops model audio that was queued but cut off by a barge-in.
+   */
+  truncateOutput(outputClock: number) {
+    const cutSec = outputClock - this.outputOrigin;
+    this.output = this.output
+      .filter(segment => segment.startSec < cutSec)
+      .map(segment => {
+        const keep = Math.floor((cutSec - segment.startSec) * OUTPUT_RATE);
+        return keep < segment.samples.length ? { ...segment, samples: segment.samples.slice(0, keep) } : segment;
+      });
+  }
+
+  finish(turns: MessageLog[], agentName: string): ConversationRecording {
+    const durationSec = Math.max(
+      (performance.now() - this.perfOrigin) / 1000,
+      ...this.output.map(s => s.startSec + s.samples.length / OUTPUT_RATE)
+    );
+
+    const guest = renderTimeline(this.input, INPUT_RATE, durationSec);
+    const agent = renderTimeline(this.output, OUTPUT_RATE, durationSec);
+    const mixed = mixTracks(resampleLinear(guest, INPUT_RATE, OUTPUT_RATE), agent);
+
+    const sessionTurns = turns.filter(turn => turn.timestamp >= this.startedAt);
+    const entries = toTimedEntries(sessionTurns, this.startedAt, durationSec, agentName);
+
+    return {
+      startedAt: this.startedAt,
+      durationSec,
+      guestWav: encodeWav(guest, INPUT_RATE),
+      agentWav: encodeWav(agent, OUTPUT_RATE),
+      mixedWav: encodeWav(mixed, OUTPUT_RATE),
+      transcriptJson: toTranscriptJson(entries, this.startedAt, durationSec),
+      transcriptSrt: toSrt(entries),
+    };
+  }
+}
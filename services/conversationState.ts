@@ -0,0 +1,91 @@
+import { ConversationState } from '../types';
+
+export type ConversationEvent =
+  | 'session-opened'
+  | 'session-closed'
+  | 'user-transcript' // input transcription arrived
+  | 'user-activity' // push-to-talk pressed
+  | 'user-text' // the guest sent a typed message
+  | 'model-output' // model transcript, audio or tool call arrived
+  | 'playback-started' // an audio chunk was queued for playback
+  | 'playback-drained' // the playback queue ran empty
+  | 'turn-complete'
+  | 'interrupted';
+
+/**
+ * Tracks who has the floor from the Live session's message stream and the
+ * playback queue.
+ *
+ * The model's turn only ends once `turnComplete` has arrived *and* the queued
+ * audio has finished playing, since audio is received faster than real time.
+ */
+export class ConversationStateMachine {
+  private current: ConversationState = 'idle';
+  private turnComplete = false;
+
+  constructor(private onChange: (state: ConversationState) => void) {}
+
+  get state(): ConversationState {
+    return this.current;
+  }
+
+  dispatch(event: ConversationEvent) {
+    const next = this.transition(event);
+    if (next === this.current) return;
+    this.current = next;
+    this.onChange(next);
+  }
+
+  private transition(event: ConversationEvent): ConversationState {
+    const state = this.current;
+
+    if (event === 'session-closed') {
+      this.turnComplete = false;
+      return 'idle';
+    }
+    if (state === 'idle') {
+      return event === 'session-opened' ? 'listening' : state;
+    }
+
+    switch (event) {
+      case 'user-transcript':
+      case 'user-activity':
+        // While the model is talking, barge-in is signalled by 'interrupted'
+        return state === 'model-speaking' ? state : 'user-speaking';
+
+      case 'user-text':
+        // The model answers typed messages without waiting for silence
+        this.turnComplete = false;
+        return state === 'model-speaking' ? state : 'waiting-for-model';
+
+      case 'model-output':
+        if (state === 'listening' || state === 'user-speaking' || state === 'interrupted') {
+          this.turnComplete = false;
+          return 'waiting-for-model';
+        }
+        return state;
+
+      case 'playback-started':
+        if (state !== 'model-speaking') this.turnComplete = false;
+        return 'model-speaking';
+
+      case 'playback-drained':
+        if (state !== 'model-speaking') return state;
+        // More audio may follow, e.g. after a tool call
+        return this.turnComplete ? 'listening' : 'waiting-for-model';
+
+      case 'turn-complete':
+        if (state === 'model-speaking') {
+          this.turnComplete = true;
+          return state;
+        }
+        return state === 'user-speaking' ? state : 'listening';
+
+      case 'interrupted':
+        return state === 'model-speaking' || state === 'waiting-for-model' ? 'interrupted' : state;
+
+      default:
+        return state;
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { readFileSync } from 'node:fs';
+import type { LiveClientToolResponse, LiveServerMessage } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConnectionState, MessageLog } from '../types';
+import { FakeAudioContext } from '../test/fakeAudioContext';
+import { DEFAULT_AGENT_SETTINGS } from './agentSettings';
+import { ConversationRecording } from './conversationRecorder';
+import { GeminiLiveService } from './geminiLive';
+import { FixtureEntry, ReplayTransport } from './liveFixtures';
+import type { MenuQueryResult } from './menu';
+
+// A recorded voice call: greeting, a menu question answered with a tool call
+const FIXTURE = readFileSync(new URL('../public/fixtures/menu-question.jsonl', import.meta.url), 'utf8');
+
+// 40 ms of a constant tone at 24 kHz, base64 PCM16
+const TONE_CHUNK = Buffer.alloc(960 * 2, Buffer.from([0x00, 0x10])).toString('base64');
+
+function serverAt(t: number, message: object): FixtureEntry {
+  return { type: 'server', t, message: message as LiveServerMessage };
+}
+
+// The agent is four chunks into a reply when the guest barges in
+const BARGE_IN: FixtureEntry[] = [
+  { type: 'open', t: 0 },
+  serverAt(10, { setupComplete: {} }),
+  serverAt(20, { serverContent: { outputTranscription: { text: 'Tonight we have a lamb' } } }),
+  ...[30, 40, 50, 60].map(t => serverAt(t, {
+    serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: 'audio/pcm;rate=24000', data: TONE_CHUNK } }] } },
+  })),
+  serverAt(100, { serverContent: { inputTranscription: { text: 'Sorry, one question' } } }),
+  serverAt(110, { serverContent: { interrupted: true } }),
+];
+
+function replayCall(fixture: string | FixtureEntry[] = FIXTURE, speed = 0) {
+  const transport = new ReplayTransport(fixture, { speed });
+  const contexts: FakeAudioContext[] = [];
+  const service = new GeminiLiveService({
+    transport,
+    useMicrophone: false,
+    autoReconnect: false,
+    reportCalls: false,
+    handoffUrl: null,
+    agentSettings: DEFAULT_AGENT_SETTINGS,
+    createAudioContext: (options) => {
+      const context = new FakeAudioContext(options);
+      contexts.push(context);
+      return context.asAudioContext();
+    },
+  });
+
+  const statuses: ConnectionState[] = [];
+  let turns: MessageLog[] = [];
+  let recording: ConversationRecording | null = null;
+  service.on('status', status => statuses.push(status));
+  service.on('transcript', next => { turns = next; });
+  service.on('recording', next => { recording = next; });
+
+  const toolResponses = () => transport.sent.filter(entry => entry.method === 'sendToolResponse');
+  // The second context is the 24 kHz output
+  const output = () => contexts[1];
+  return { transport, service, statuses, transcript: () => turns, recording: () => recording, toolResponses, output };
+}
+
+describe('GeminiLiveService replaying a fixture', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('builds the transcript, answers tool calls and plays the audio', async () => {
+    const call = replayCall();
+    await call.service.connect('en');
+    await call.transport.done;
+
+    expect(call.transcript().map(turn => [turn.role, turn.text])).toEqual([
+      ['model', 'Good evening, Golden Spice, how can I help?'],
+      ['user', 'Do you have vegetarian mains?'],
+      ['model', 'Yes, the saffron risotto and the stuffed aubergine.'],
+    ]);
+
+    const [response] = call.toolResponses();
+    const [functionResponse] = (response.params as LiveClientToolResponse).functionResponses!;
+    expect(functionResponse.id).toBe('function-call-1');
+    const output = functionResponse.response?.output as MenuQueryResult;
+    expect(output.items.map(item => item.name))
+      .toEqual(expect.arrayContaining(['Saffron Risotto', 'Stuffed Aubergine']));
+
+    // Four 40 ms chunks at 24 kHz, scheduled back to back
+    const sources = call.output().sources;
+    expect(sources).toHaveLength(4);
+    sources.forEach(source => expect(source.buffer?.duration).toBeCloseTo(0.04));
+    for (let i = 1; i < sources.length; i++) {
+      expect(sources[i].startTime).toBeCloseTo(sources[i - 1].startTime! + 0.04);
+    }
+
+    // The recording ends with the socket closing
+    expect(call.statuses).toEqual(['connecting', 'connected', 'disconnected']);
+    await call.service.disconnect();
+  });
+
+  it('replays the fixture again on the next call', async () => {
+    const call = replayCall();
+    await call.service.connect('en');
+    await call.transport.done;
+    await call.service.disconnect();
+
+    await call.service.connect('en');
+    await call.transport.done;
+    expect(call.toolResponses()).toHaveLength(2);
+    expect(call.statuses.filter(status => status === 'connected')).toHaveLength(2);
+    await call.service.disconnect();
+  });
+
+  it('can be disconnected twice', async () => {
+    const call = replayCall();
+    await call.service.connect('en');
+    await call.transport.done;
+    await call.service.disconnect();
+    await call.service.disconnect();
+    expect(call.output().state).toBe('closed');
+  });
+
+  it('fades the agent out, marks the turn interrupted and cuts the recording on barge-in', async () => {
+    vi.useFakeTimers();
+    try {
+      const call = replayCall(BARGE_IN, 1);
+      const interrupted = vi.fn();
+      call.service.on('interrupted', interrupted);
+      call.service.setRecordingEnabled(true);
+      await call.service.connect('en');
+
+      // The reply is scheduled from 5 ms; 100 ms in, the guest talks over it
+      await vi.advanceTimersByTimeAsync(100);
+      const sources = call.output().sources;
+      expect(sources).toHaveLength(4);
+      call.output().advance(0.1);
+      await vi.advanceTimersByTimeAsync(20);
+      await call.transport.done;
+
+      expect(interrupted).toHaveBeenCalledTimes(1);
+      // The two chunks still playing fade out over 15 ms; the rest had played
+      expect(sources.map(source => source.stopTime)).toEqual([null, null, expect.closeTo(0.115), expect.closeTo(0.115)]);
+      expect(call.transcript().map(turn => [turn.role, turn.text, turn.status])).toEqual([
+        ['model', 'Tonight we have a lamb', 'interrupted'],
+        ['user', 'Sorry, one question', 'streaming'],
+      ]);
+
+      await call.service.disconnect();
+      // The recorded agent audio stops where playback went silent, not
+      // where the queued reply would have ended (165 ms)
+      const agent = new Int16Array(await call.recording()!.agentWav.arrayBuffer(), 44);
+      let lastSound = agent.length - 1;
+      while (lastSound > 0 && agent[lastSound] === 0) lastSound--;
+      expect(lastSound / 24000).toBeCloseTo(0.115, 2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -1,193 +1,836 @@
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { createPcmBlob, decodeAudioData, decodeBase64 } from '../utils/audio';
-import { MODEL_NAME, SYSTEM_INSTRUCTIONS } from '../constants';
-import { Language } from '../types';
+import {
+  FunctionCall,
+  FunctionResponse,
+  LiveSendRealtimeInputParameters,
+  LiveServerMessage,
+  Modality,
+  Part,
+  UsageMetadata,
+} from '@google/genai';
+import { decodeBase64, encodePcm16 } from '../utils/audio';
+import { buildSystemInstruction } from '../constants';
+import { ConnectionState, ConversationState, LanguageMode, MessageLog, Reservation, RestaurantProfile } from '../types';
+import { TypedEmitter } from '../utils/events';
+import {
+  AudioSettings,
+  DEFAULT_AUDIO_SETTINGS,
+  applyOutputDevice,
+  buildAudioConstraints,
+  listAudioDevices,
+  watchDeviceChanges,
+} from './audioDevices';
+import { AgentSettings, DEFAULT_AGENT_SETTINGS, buildAgentConfig, resolvePersona } from './agentSettings';
+import { fetchAgentSettings } from './agentSettingsClient';
+import { getMenu } from './menu';
+import {
+  ESCALATE_TOOL_DECLARATION,
+  TOOL_DECLARATIONS,
+  ToolArgs,
+  ToolHandler,
+  ToolResult,
+  createToolHandlers,
+  executeToolCall,
+} from './tools';
+import { createRemoteBookingHandlers } from './bookingClient';
+import { DEFAULT_API_BASE } from './sessionCredentials';
+import { DEFAULT_PROFILE } from './restaurantProfiles';
+import { TranscriptModel } from './transcript';
+import { ConversationStateMachine } from './conversationState';
+import { ConversationRecorder, ConversationRecording } from './conversationRecorder';
+import { PlaybackEngine } from './audioPlayback';
+import { CallTurn, toCallTurns } from './callHistory';
+import { reportCall } from './callHistoryClient';
+import { HANDOFF_REASONS, HANDOFF_SAMPLE_RATE, HandoffReason, HandoffState } from './handoffProtocol';
+import { HANDBACK_NOTICE, StaffHandoff, handoffUrlFor } from './staffHandoff';
+import { GenAITransport, LiveSessionHandle, LiveTransport } from './liveTransport';
+import {
+  DEFAULT_SESSION_LIMITS,
+  LimitReason,
+  SessionEndReason,
+  SessionLimiter,
+  SessionLimits,
+  SessionUsage,
+  UsageMeter,
+  buildLimitWarning,
+} from './sessionLimits';
+import captureWorkletUrl from '../worklets/pcmCaptureProcessor.ts?worker&url';
+import type { PcmCaptureFrame, PcmCaptureOptions } from '../worklets/pcmCaptureProcessor';
 
-export class GeminiLiveService {
-  private ai: GoogleGenAI;
+// Gemini expects 16 kHz input; 320 samples = 20 ms frames
+const INPUT_SAMPLE_RATE = 16000;
+const INPUT_FRAME_SIZE = 320;
+
+// Reconnect backoff: 0.5s, 1s, 2s, 4s, 8s, then give up
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_ATTEMPTS = 5;
+
+// How often the model's output level is sampled for the visualizer
+const OUTPUT_LEVEL_INTERVAL_MS = 50;
+
+// How often call and idle time are checked against the limits
+const LIMIT_CHECK_INTERVAL_MS = 1000;
+
+// After a language switch the new session is given this many recent turns
+const LANGUAGE_SWITCH_CONTEXT_TURNS = 20;
+const LANGUAGE_SWITCH_NOTICE = '[System notice, not from the guest] The guest changed the language of the call. Carry on with the conversation above in the new language; do not greet them again.';
+
+// What create_reservation answers once a booking is made
+type ConfirmedBooking = Omit<Reservation, 'id' | 'createdAt'> & { confirmed?: boolean; confirmationCode?: string };
+
+// How the guest's turns are detected: server-side VAD, or held button/key
+export type InputMode = 'voice-activity' | 'push-to-talk';
+
+export interface GeminiLiveOptions {
+  // Venue the agent answers for; defaults to the first configured profile
+  profile?: RestaurantProfile;
+  // Where sessions come from; defaults to the real API via our backend
+  transport?: LiveTransport;
+  // Creates the Web Audio contexts, so tests can substitute fakes
+  createAudioContext?: (options?: AudioContextOptions) => AudioContext;
+  // Start calls with the microphone on; false starts in text chat, e.g. when
+  // replaying a fixture. Can be switched mid-call with setVoiceEnabled
+  useMicrophone?: boolean;
+  // Reopen dropped sessions automatically (disable for fixture replay)
+  autoReconnect?: boolean;
+  // Defaults to 'voice-activity'; can be changed between calls with setInputMode
+  inputMode?: InputMode;
+  // Microphone, speaker and capture processing; can be changed mid-call
+  audioSettings?: AudioSettings;
+  // Overrides the call limits the backend sends with each session
+  limits?: SessionLimits;
+  // Send finished calls to our backend's call history (the default); false
+  // keeps no log, e.g. for fixture replay
+  reportCalls?: boolean;
+  // Relay the agent escalates to when a guest needs staff; defaults to our
+  // backend's, null leaves the agent without the escalation tool
+  handoffUrl?: string | null;
+  // Model, voice and persona. By default each call uses the restaurant's
+  // settings from our backend; these (or setAgentSettings) override them
+  agentSettings?: AgentSettings;
+  // Our backend's API, which answers the booking tools and holds the agent
+  // settings; defaults to /api
+  apiBase?: string;
+}
+
+/**
+ * Events emitted by GeminiLiveService, as listener argument tuples.
+ */
+export type GeminiLiveEvents = {
+  status: [status: ConnectionState];
+  // Full conversation history whenever any turn changes
+  transcript: [turns: MessageLog[]];
+  // RMS level (0-1) of the guest's microphone or the agent's playback
+  level: [source: 'input' | 'output', level: number];
+  // Who has the floor: listening, user-speaking, model-speaking...
+  conversationState: [state: ConversationState];
+  error: [message: string];
+  // The guest barged in and queued agent audio was dropped
+  interrupted: [];
+  // Agent (or staff) audio is audible right now; unlike conversationState
+  // this excludes audio still being buffered
+  playing: [playing: boolean];
+  // Microphone streaming paused or resumed by the guest
+  muted: [muted: boolean];
+  // Push-to-talk button or key held down / released
+  talking: [talking: boolean];
+  // Microphone input switched on (voice) or off (text chat)
+  voice: [enabled: boolean];
+  // Agent replies played aloud or shown as text only
+  playback: [enabled: boolean];
+  // The microphone could not be opened, so the call continues as text chat
+  voiceUnavailable: [reason: string];
+  // A function call from the model and the response we sent back
+  toolCall: [call: FunctionCall, response: FunctionResponse];
+  // The agent confirmed a booking for the guest
+  booked: [reservation: Reservation];
+  // Token counts reported by the server
+  usage: [usage: UsageMetadata];
+  // Running token totals and duration for the call; sent with an end reason
+  // once it is over
+  sessionUsage: [usage: SessionUsage];
+  // The agent is warning the guest that a limit is about to end the call
+  limitWarning: [reason: LimitReason, secondsLeft: number];
+  // Audio and transcript exports when a recorded session ends
+  recording: [recording: ConversationRecording];
+  // Escalation progress: waiting for staff, staff talking, or back with the
+  // agent; null once the call has no escalation
+  handoff: [state: HandoffState | null];
+};
+
+const createBrowserAudioContext = (options?: AudioContextOptions): AudioContext =>
+  new (window.AudioContext || (window as any).webkitAudioContext)(options);
+
+export class GeminiLiveService extends TypedEmitter<GeminiLiveEvents> {
   private inputAudioContext: AudioContext | null = null;
   private outputAudioContext: AudioContext | null = null;
   private stream: MediaStream | null = null;
-  private processor: ScriptProcessorNode | null = null;
+  private captureNode: AudioWorkletNode | null = null;
   private inputSource: MediaStreamAudioSourceNode | null = null;
   private outputNode: GainNode | null = null;
+  private outputAnalyser: AnalyserNode | null = null;
+  private outputLevelTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Device routing; re-applied when devices are plugged in or removed
+  private audioSettings: AudioSettings;
+  private stopWatchingDevices: (() => void) | null = null;
+  private microphoneRestart: Promise<void> = Promise.resolve();
 
-  // Audio playback queue management
-  private nextStartTime = 0;
-  private sources = new Set<AudioBufferSourceNode>();
+  // Jitter-buffered playback into outputNode
+  private playback: PlaybackEngine | null = null;
 
-  // State callbacks
-  private onStatusChange: (status: string) => void;
-  private onAudioLevel: (level: number) => void;
-  private onError: (error: string) => void;
-  private onTranscript: (text: string, isUser: boolean) => void;
+  private profile: RestaurantProfile;
+  // The settings for the next call, and those the current call started with
+  // Set by the embedding app; null reads the restaurant's from the backend
+  private agentSettings: AgentSettings | null;
+  private callSettings: AgentSettings = DEFAULT_AGENT_SETTINGS;
+  private apiBase: string;
+  private transport: LiveTransport;
+  private createAudioContext: (options?: AudioContextOptions) => AudioContext;
+  private voiceEnabled: boolean;
+  private playbackEnabled = true;
+  private workletLoaded = false;
+  private autoReconnect: boolean;
 
-  private sessionPromise: Promise<any> | null = null;
-  private session: any = null;
-  private closeSession: (() => void) | null = null;
+  // Opt-in call recording; only enabled after the guest has consented
+  private recordingEnabled = false;
+  private conversationRecorder: ConversationRecorder | null = null;
+
+  private sessionPromise: Promise<LiveSessionHandle> | null = null;
+  private session: LiveSessionHandle | null = null;
   private isSessionReady = false;
+  private language: LanguageMode | null = null;
+
+  // Input gating: nothing is streamed while muted, and in push-to-talk mode
+  // only while the talk button is held
+  private inputMode: InputMode;
+  private muted = false;
+  private talking = false;
+
+  // Reconnection state. Each opened session gets a generation number so
+  // callbacks from a session we have already replaced are ignored.
+  private sessionGeneration = 0;
+  private resumptionHandle: string | null = null;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private isReconnecting = false;
+  private intentionalClose = false;
+  // Set by a language switch: the next session starts without a handle and
+  // is given the conversation so far instead
+  private carryOverTurns = false;
+
+  // Conversation history, kept across reconnects
+  private transcript: TranscriptModel;
+  private conversation: ConversationStateMachine;
+
+  // Local implementations of the function tools declared to the model
+  private toolHandlers: Record<string, ToolHandler>;
+
+  // Usage metering and call limits
+  private limitsOverride: SessionLimits | null;
+  private usageMeter: UsageMeter | null = null;
+  private limiter: SessionLimiter | null = null;
+  private limitTimer: ReturnType<typeof setInterval> | null = null;
+  private endReason: SessionEndReason = 'hangup';
+
+  // Call log: set once the first session of a call opens
+  private reportCalls: boolean;
+  private callStartedAt: Date | null = null;
+  private confirmationCodes: string[] = [];
+
+  // Staff handoff: while staff have taken over, the guest's microphone goes
+  // to them and the agent's audio is held back
+  private handoffUrl: string | null;
+  private handoff: StaffHandoff | null = null;
+  private staffActive = false;
+
+  constructor(options: GeminiLiveOptions = {}) {
+    super();
+    this.transcript = new TranscriptModel(turns => {
+      this.emit('transcript', turns);
+      this.handoff?.updateTranscript(this.callTurns());
+    });
+    this.profile = options.profile ?? DEFAULT_PROFILE;
+    this.agentSettings = options.agentSettings ?? null;
+    this.apiBase = options.apiBase ?? DEFAULT_API_BASE;
+    this.handoffUrl = options.handoffUrl === undefined ? handoffUrlFor() : options.handoffUrl;
+    this.toolHandlers = createToolHandlers(
+      createRemoteBookingHandlers(this.profile.id, this.apiBase),
+      getMenu(this.profile.id)
+    );
+    if (this.handoffUrl) {
+      this.toolHandlers.escalate_to_staff = (args) => this.escalate(args);
+    }
+    this.transport = options.transport ?? new GenAITransport();
+    this.createAudioContext = options.createAudioContext ?? createBrowserAudioContext;
+    this.voiceEnabled = options.useMicrophone ?? true;
+    this.autoReconnect = options.autoReconnect ?? true;
+    this.inputMode = options.inputMode ?? 'voice-activity';
+    this.audioSettings = options.audioSettings ?? DEFAULT_AUDIO_SETTINGS;
+    this.limitsOverride = options.limits ?? null;
+    this.reportCalls = options.reportCalls ?? true;
+    this.conversation = new ConversationStateMachine(state => this.emit('conversationState', state));
+  }
+
+  /**
+   * Turns call recording on or off for the next session.
+   */
+  setRecordingEnabled(enabled: boolean) {
+    this.recordingEnabled = enabled;
+  }
+
+  /**
+   * Chooses how the guest's turns are detected. Activity detection is part of
+   * the session setup, so this takes effect on the next call.
+   */
+  setInputMode(mode: InputMode) {
+    if (this.inputMode === mode) return;
+    if (this.sessionPromise && !this.intentionalClose) {
+      console.warn('[GeminiLive] Input mode changes apply to the next call');
+    }
+    this.inputMode = mode;
+  }
+
+  /**
+   * Chooses the model, voice and persona instead of the restaurant's saved
+   * ones. They are part of the session setup, so this takes effect on the
+   * next call.
+   */
+  setAgentSettings(settings: AgentSettings) {
+    if (this.sessionPromise && !this.intentionalClose) {
+      console.log('[GeminiLive] Agent settings apply to the next call');
+    }
+    this.agentSettings = settings;
+  }
 
-  constructor(
-    onStatusChange: (status: string) => void,
-    onAudioLevel: (level: number) => void,
-    onError: (error: string) => void,
-    onTranscript: (text: string, isUser: boolean) => void
-  ) {
-    const apiKey = process.env.GEMINI_API_KEY;
-    console.log('[GeminiLive] Initializing with API key:', apiKey ? `${apiKey.substring(0, 10)}...` : 'MISSING');
-    this.ai = new GoogleGenAI({ apiKey });
-    this.onStatusChange = onStatusChange;
-    this.onAudioLevel = onAudioLevel;
-    this.onError = onError;
-    this.onTranscript = onTranscript;
-  }
-
-  async connect(language: Language) {
+  /**
+   * Pauses or resumes microphone streaming without closing the session.
+   */
+  setMuted(muted: boolean) {
+    if (this.muted === muted) return;
+    if (muted) {
+      if (this.talking) {
+        this.stopTalking();
+      } else if (this.inputMode === 'voice-activity' && this.isSessionReady) {
+        // Lets server-side VAD close out any speech that was in progress
+        this.sendRealtime({ audioStreamEnd: true });
+      }
+    }
+    this.muted = muted;
+    console.log('[GeminiLive] Microphone', muted ? 'muted' : 'unmuted');
+    this.emit('muted', muted);
+  }
+
+  /**
+   * Applies new device and processing settings. During a call the microphone
+   * is reopened with the new constraints and playback is re-routed.
+   */
+  async setAudioSettings(settings: AudioSettings) {
+    const previous = this.audioSettings;
+    this.audioSettings = settings;
+    if (!this.outputAudioContext || this.intentionalClose) return;
+
+    const inputChanged = previous.inputDeviceId !== settings.inputDeviceId
+      || previous.echoCancellation !== settings.echoCancellation
+      || previous.noiseSuppression !== settings.noiseSuppression
+      || previous.autoGainControl !== settings.autoGainControl;
+    if (inputChanged) await this.restartMicrophone();
+    if (previous.outputDeviceId !== settings.outputDeviceId) await this.routeOutput();
+  }
+
+  /**
+   * Switches between voice and text chat without leaving the conversation.
+   * Turning voice on asks for the microphone if the call started as text.
+   */
+  async setVoiceEnabled(enabled: boolean) {
+    if (this.voiceEnabled === enabled) return;
+
+    if (!this.inputAudioContext || this.intentionalClose) {
+      // Not in a call: applies to the next one
+      this.voiceEnabled = enabled;
+      this.emit('voice', enabled);
+      return;
+    }
+
+    if (enabled) {
+      this.voiceEnabled = true;
+      if (!(await this.prepareVoiceOrFallBack())) return;
+      this.emit('voice', true);
+      if (this.isSessionReady) this.startCapture();
+    } else {
+      this.stopTalking();
+      if (this.isSessionReady && this.inputMode === 'voice-activity') {
+        this.sendRealtime({ audioStreamEnd: true });
+      }
+      this.stopCapture();
+      this.voiceEnabled = false;
+      this.emit('voice', false);
+    }
+    console.log('[GeminiLive] Voice input', enabled ? 'enabled' : 'disabled');
+  }
+
+  /**
+   * Plays agent replies aloud, or drops the audio and relies on the
+   * transcript. Turning playback off cuts off anything already queued.
+   */
+  setPlaybackEnabled(enabled: boolean) {
+    if (this.playbackEnabled === enabled) return;
+    this.playbackEnabled = enabled;
+    if (!enabled) this.stopPlayback();
+    this.emit('playback', enabled);
+  }
+
+  /**
+   * Sends a typed message on the live session. Returns false when there is
+   * no open session to send it on.
+   */
+  sendText(text: string): boolean {
+    const message = text.trim();
+    if (!message || !this.isSessionReady || !this.sessionPromise) return false;
+
+    if (this.staffActive) {
+      // Staff read it from the transcript; the agent stays out of it
+      this.transcript.addTypedMessage(message);
+      this.limiter?.noteGuestActivity();
+      return true;
+    }
+
+    this.sessionPromise.then(session => {
+      session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: message }] }], turnComplete: true });
+    }).catch(err => {
+      console.error('[GeminiLive] Failed to send text message:', err);
+      this.emit('error', 'Failed to send message');
+    });
+    this.transcript.addTypedMessage(message);
+    this.conversation.dispatch('user-text');
+    this.limiter?.noteGuestActivity();
+    return true;
+  }
+
+  /**
+   * Push-to-talk: the guest started holding the talk button.
+   */
+  startTalking() {
+    if (this.inputMode !== 'push-to-talk' || this.talking || this.muted || !this.isSessionReady || this.staffActive) return;
+    this.talking = true;
+    this.sendRealtime({ activityStart: {} });
+    this.conversation.dispatch('user-activity');
+    this.limiter?.noteGuestActivity();
+    this.emit('talking', true);
+  }
+
+  /**
+   * Push-to-talk: the guest released the talk button; the model may answer.
+   */
+  stopTalking() {
+    if (!this.talking) return;
+    this.talking = false;
+    if (this.isSessionReady) this.sendRealtime({ activityEnd: {} });
+    this.emit('talking', false);
+  }
+
+  async connect(language: LanguageMode) {
     try {
       console.log('[GeminiLive] Starting connection process for language:', language);
       this.isSessionReady = false;
-      this.onStatusChange('connecting');
+      this.language = language;
+      this.intentionalClose = false;
+      this.resumptionHandle = null;
+      this.carryOverTurns = false;
+      this.reconnectAttempts = 0;
+      this.endReason = 'hangup';
+      this.usageMeter = new UsageMeter();
+      this.emit('status', 'connecting');
+      this.callSettings = this.agentSettings ?? await this.loadCallSettings();
 
       // 1. Setup Audio Contexts
-      // Input: 16kHz for Gemini
-      this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
+      // Input: device rate; the capture worklet resamples to 16kHz for Gemini
+      this.inputAudioContext = this.createAudioContext();
       // Output: 24kHz from Gemini
-      this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      this.outputAudioContext = this.createAudioContext({ sampleRate: 24000 });
 
+      // Playback chain: sources -> gain -> analyser (output level) -> speakers
       this.outputNode = this.outputAudioContext.createGain();
-      this.outputNode.connect(this.outputAudioContext.destination);
+      this.outputAnalyser = this.outputAudioContext.createAnalyser();
+      this.outputAnalyser.fftSize = 512;
+      this.outputNode.connect(this.outputAnalyser);
+      this.outputAnalyser.connect(this.outputAudioContext.destination);
+      this.startPlayback(this.outputAudioContext, this.outputNode);
+      this.startOutputLevelMeter();
+      await this.routeOutput();
 
-      // 2. Get Microphone Stream
-      if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
-        throw new Error("Microphone access is not supported. This often happens on insecure (HTTP) connections. Please use HTTPS or localhost.");
+      // 2. Get Microphone Stream (a failure falls back to text chat)
+      if (this.voiceEnabled) {
+        await this.prepareVoiceOrFallBack();
       }
 
-      console.log('[GeminiLive] Requesting microphone access...');
-      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      console.log('[GeminiLive] Microphone access granted');
+      this.stopWatchingDevices = watchDeviceChanges(() => this.handleDeviceChange());
 
       // 3. Initialize Gemini Session
-      const config = {
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: SYSTEM_INSTRUCTIONS[language],
-          inputAudioTranscription: {}, // Request user transcription
-          outputAudioTranscription: {}, // Request model transcription
-        },
-      };
+      await this.openSession();
 
-      console.log('[GeminiLive] Connecting to Gemini Live API with config:', {
-        model: config.model,
-        voice: config.config.speechConfig?.voiceConfig,
-        language
-      });
+      // 4. Enforce the deployment's call limits
+      this.startLimits(this.limitsOverride ?? this.session?.limits ?? DEFAULT_SESSION_LIMITS);
 
-      // We use a promise wrapper to ensure we have the session before sending data
-      this.sessionPromise = this.ai.live.connect({
-        model: config.model,
-        config: config.config,
-        callbacks: {
-          onopen: this.handleOnOpen.bind(this),
-          onmessage: this.handleOnMessage.bind(this),
-          onclose: (event) => {
-            console.log('[GeminiLive] Session closed');
-            console.log('[GeminiLive] Close event:', event);
-            console.log('[GeminiLive] Close code:', event?.code);
-            console.log('[GeminiLive] Close reason:', event?.reason);
-            this.isSessionReady = false;
-            this.onStatusChange('disconnected');
-          },
-          onerror: (err) => {
-            console.error('[GeminiLive] Session error:', err);
-            console.error('[GeminiLive] Error details:', JSON.stringify(err, null, 2));
+    } catch (error) {
+      console.error('[GeminiLive] Failed to connect:', error);
+      console.error('[GeminiLive] Error stack:', error instanceof Error ? error.stack : 'N/A');
+      this.transport.endCall?.();
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.emit('error', `Connection failed: ${errorMessage}`);
+      this.emit('status', 'error');
+    }
+  }
+
+  /**
+   * The restaurant's saved settings, or the defaults when the backend
+   * cannot be reached, so the guest can still be served.
+   */
+  private async loadCallSettings(): Promise<AgentSettings> {
+    try {
+      return await fetchAgentSettings(this.profile.id, this.apiBase);
+    } catch (err) {
+      console.warn('[GeminiLive] Could not load agent settings, using defaults:', err);
+      return DEFAULT_AGENT_SETTINGS;
+    }
+  }
+
+  /**
+   * Opens a Live session, resuming the previous one when we hold a handle.
+   * Audio capture and playback are left untouched so a reconnect is seamless.
+   */
+  private async openSession() {
+    const language = this.language ?? this.profile.languages[0];
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration;
+
+    const settings = this.callSettings;
+    const config = {
+      model: settings.model,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        // Voice and optional native audio features
+        ...buildAgentConfig(this.profile, settings),
+        systemInstruction: buildSystemInstruction(this.profile, language, {
+          staffHandoff: !!this.handoffUrl,
+          personaName: resolvePersona(this.profile, settings).name,
+          tone: settings.tone,
+        }),
+        inputAudioTranscription: {}, // Request user transcription
+        outputAudioTranscription: {}, // Request model transcription
+        tools: [{
+          functionDeclarations: this.handoffUrl ? [...TOOL_DECLARATIONS, ESCALATE_TOOL_DECLARATION] : TOOL_DECLARATIONS,
+        }],
+        // Ask for resumption handles so a dropped socket can pick up where it left off
+        sessionResumption: { handle: this.resumptionHandle ?? undefined },
+        // Slide the context window instead of ending long calls at the token limit
+        contextWindowCompression: { slidingWindow: {} },
+        // Push-to-talk marks turns explicitly with activityStart/activityEnd
+        realtimeInputConfig: this.inputMode === 'push-to-talk'
+          ? { automaticActivityDetection: { disabled: true } }
+          : undefined,
+      },
+    };
+
+    console.log('[GeminiLive] Connecting to Gemini Live API with config:', {
+      model: config.model,
+      voice: config.config.speechConfig?.voiceConfig,
+      tone: settings.tone,
+      affectiveDialog: !!config.config.enableAffectiveDialog,
+      proactiveAudio: !!config.config.proactivity,
+      language,
+      resuming: !!this.resumptionHandle,
+      inputMode: this.inputMode
+    });
+
+    // We use a promise wrapper to ensure we have the session before sending data
+    this.sessionPromise = this.transport.connect({
+      model: config.model,
+      config: config.config,
+      callbacks: {
+        onopen: () => {
+          if (isCurrent()) this.handleOnOpen();
+        },
+        onmessage: (message) => {
+          if (isCurrent()) this.handleOnMessage(message);
+        },
+        onclose: (event) => {
+          console.log('[GeminiLive] Session closed');
+          console.log('[GeminiLive] Close event:', event);
+          console.log('[GeminiLive] Close code:', event?.code);
+          console.log('[GeminiLive] Close reason:', event?.reason);
+          if (!isCurrent()) return;
+          this.isSessionReady = false;
+          if (this.intentionalClose || !this.autoReconnect) {
+            this.transport.endCall?.();
+            this.conversation.dispatch('session-closed');
+            this.emit('status', 'disconnected');
+          } else {
+            this.scheduleReconnect();
+          }
+        },
+        onerror: (err) => {
+          console.error('[GeminiLive] Session error:', err);
+          console.error('[GeminiLive] Error details:', JSON.stringify(err, null, 2));
+          if (!isCurrent() || this.isReconnecting) return;
+          // A close event follows; reconnection is handled there
+          if (!this.autoReconnect) {
             const errorMessage = err instanceof Error ? err.message : 'Connection error occurred';
-            this.onError(`Connection error: ${errorMessage}`);
-            this.onStatusChange('error');
+            this.emit('error', `Connection error: ${errorMessage}`);
+            this.emit('status', 'error');
           }
         }
-      });
+      }
+    });
 
-      // Store the session for later use
-      this.session = await this.sessionPromise;
-      console.log('[GeminiLive] Session promise resolved, session object:', this.session);
+    // Store the session for later use
+    this.session = await this.sessionPromise;
+    console.log('[GeminiLive] Session promise resolved, session object:', this.session);
+  }
 
-      // We need to capture the close method effectively (it's not directly returned by connect in the simplified view, 
-      // but the `session` object resolved by the promise has it).
-      // However, for the SDK structure, we can usually just rely on standard cleanup. 
-      // The SDK's connect returns a promise that resolves to the session.
+  /**
+   * Retries the session with exponential backoff after an unexpected close.
+   */
+  private scheduleReconnect() {
+    if (this.intentionalClose || this.reconnectTimer) return;
 
-    } catch (error) {
-      console.error('[GeminiLive] Failed to connect:', error);
-      console.error('[GeminiLive] Error stack:', error instanceof Error ? error.stack : 'N/A');
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.onError(`Connection failed: ${errorMessage}`);
-      this.onStatusChange('error');
+    if (this.reconnectAttempts >= RECONNECT_MAX_ATTEMPTS) {
+      console.error('[GeminiLive] Giving up after', this.reconnectAttempts, 'reconnect attempts');
+      this.isReconnecting = false;
+      this.emit('error', 'Connection lost. Please tap the microphone to start again.');
+      this.disconnect().catch(err => console.error('[GeminiLive] Failed to end the call:', err));
+      return;
+    }
+
+    const delay = RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempts;
+    this.reconnectAttempts++;
+    this.isReconnecting = true;
+    this.emit('status', 'reconnecting');
+    console.log(`[GeminiLive] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.openSession();
+      } catch (err) {
+        console.error('[GeminiLive] Reconnect attempt failed:', err);
+        this.scheduleReconnect();
+      }
+    }, delay);
+  }
+
+  /**
+   * Changes the language the agent speaks. During a call the session is
+   * swapped for a fresh one with the new instructions; audio, recording and
+   * the transcript carry on.
+   */
+  async setLanguage(language: LanguageMode) {
+    if (this.language === language) return;
+    this.language = language;
+    if (!this.isSessionReady || this.intentionalClose) return;
+
+    console.log('[GeminiLive] Switching language to', language);
+    // The resumed context would keep the previous instructions, so start
+    // over and pass the conversation on instead
+    this.resumptionHandle = null;
+    this.carryOverTurns = true;
+    await this.replaceSession();
+  }
+
+  /**
+   * The server is about to drop us: open a resumed session right away and
+   * retire the old one once the new one is up.
+   */
+  private async handleGoAway(timeLeft?: string) {
+    console.log('[GeminiLive] Server sent goAway, time left:', timeLeft);
+    if (this.isReconnecting || this.intentionalClose || !this.autoReconnect) return;
+    await this.replaceSession();
+  }
+
+  /**
+   * Opens a new session alongside the current one and closes the old one
+   * afterwards, leaving the audio pipeline running.
+   */
+  private async replaceSession() {
+    const previous = this.sessionPromise;
+    this.isSessionReady = false;
+    this.isReconnecting = true;
+    this.emit('status', 'reconnecting');
+
+    try {
+      await this.openSession();
+    } catch (err) {
+      console.error('[GeminiLive] Failed to open replacement session:', err);
+      this.isReconnecting = false;
+      this.scheduleReconnect();
     }
+    previous?.then(session => session.close()).catch(() => {});
   }
 
   private handleOnOpen() {
     console.log('[GeminiLive] Session opened successfully');
     this.isSessionReady = true;
-    this.onStatusChange('connected');
+    this.emit('status', 'connected');
+    this.conversation.dispatch('session-opened');
+
+    if (this.isReconnecting) {
+      // Audio pipeline and recording are still running from before the drop
+      console.log('[GeminiLive] Session resumed');
+      this.isReconnecting = false;
+      this.reconnectAttempts = 0;
+      if (this.carryOverTurns) {
+        this.carryOverTurns = false;
+        this.sendRecentTurns();
+      }
+      // The new session never saw the start of a turn the guest is still holding
+      if (this.talking) this.sendRealtime({ activityStart: {} });
+      return;
+    }
+
+    this.callStartedAt = new Date();
+    this.confirmationCodes = [];
+
+    if (this.recordingEnabled && this.outputAudioContext) {
+      this.conversationRecorder = new ConversationRecorder();
+      this.conversationRecorder.start(this.outputAudioContext.currentTime);
+      console.log('[GeminiLive] Call recording started');
+    }
+
+    if (!this.voiceEnabled) {
+      console.log('[GeminiLive] Running without microphone input');
+      return;
+    }
+    this.startCapture();
+  }
+
+  /**
+   * Opens the microphone and loads the capture worklet. Throws when the
+   * browser has no microphone support or permission is denied.
+   */
+  private async prepareVoice() {
+    if (!this.inputAudioContext) return;
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      throw new Error("Microphone access is not supported. This often happens on insecure (HTTP) connections. Please use HTTPS or localhost.");
+    }
+
+    if (!this.stream) {
+      console.log('[GeminiLive] Requesting microphone access...');
+      this.stream = await this.openMicrophone();
+      console.log('[GeminiLive] Microphone access granted');
+    }
 
+    if (!this.workletLoaded) {
+      await this.inputAudioContext.audioWorklet.addModule(captureWorkletUrl);
+      this.workletLoaded = true;
+      console.log('[GeminiLive] Capture worklet loaded, device sample rate:', this.inputAudioContext.sampleRate);
+    }
+  }
+
+  private async prepareVoiceOrFallBack(): Promise<boolean> {
+    try {
+      await this.prepareVoice();
+      return true;
+    } catch (err) {
+      console.warn('[GeminiLive] Microphone unavailable, continuing with text chat:', err);
+      this.voiceEnabled = false;
+      this.emit('voice', false);
+      this.emit('voiceUnavailable', err instanceof Error ? err.message : 'Microphone unavailable');
+      return false;
+    }
+  }
+
+  /**
+   * Setup input pipeline: mic -> worklet (resample + Int16 on the audio thread) -> main thread
+   */
+  private startCapture() {
+    if (this.captureNode) return;
     if (!this.inputAudioContext || !this.stream) {
       console.error('[GeminiLive] Audio context or stream not available');
       return;
     }
 
-    // Setup input pipeline
     this.inputSource = this.inputAudioContext.createMediaStreamSource(this.stream);
-    this.processor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
+    const processorOptions: PcmCaptureOptions = {
+      targetSampleRate: INPUT_SAMPLE_RATE,
+      frameSize: INPUT_FRAME_SIZE,
+    };
+    this.captureNode = new AudioWorkletNode(this.inputAudioContext, 'pcm-capture-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      processorOptions,
+    });
 
-    this.processor.onaudioprocess = (e) => {
-      const inputData = e.inputBuffer.getChannelData(0);
+    this.captureNode.port.onmessage = (e: MessageEvent<PcmCaptureFrame>) => {
+      const { pcm, rms } = e.data;
 
-      // Calculate volume for visualizer
-      let sum = 0;
-      for (let i = 0; i < inputData.length; i++) {
-        sum += inputData[i] * inputData[i];
-      }
-      const rms = Math.sqrt(sum / inputData.length);
-      this.onAudioLevel(rms);
+      // Report volume for visualizer (flat while muted)
+      this.emit('level', 'input', this.muted ? 0 : rms);
 
-      // Send to API (only if session is ready)
-      if (!this.isSessionReady) {
-        return; // Skip sending audio until session is fully open
+      // Send to API only once the session is open, and only while the guest
+      // is unmuted and, in push-to-talk mode, holding the talk button.
+      // While staff have taken over, the guest talks to them freely.
+      if (!this.isSessionReady || this.muted) return;
+      const samples = new Int16Array(pcm);
+      if (this.staffActive) {
+        this.conversationRecorder?.addInput(samples);
+        this.handoff?.sendAudio(encodePcm16(samples).data);
+        return;
       }
+      if (this.inputMode === 'push-to-talk' && !this.talking) return;
 
-      const pcmBlob = createPcmBlob(inputData);
+      this.conversationRecorder?.addInput(samples);
+      this.sendRealtime({ media: encodePcm16(samples) });
+    };
 
-      if (this.sessionPromise) {
-        this.sessionPromise.then(session => {
-          // Check if session is still valid before sending
-          if (!session || typeof session.sendRealtimeInput !== 'function') {
-            console.error('[GeminiLive] Session is not valid or already closed');
-            this.isSessionReady = false;
-            return;
-          }
+    this.inputSource.connect(this.captureNode);
+    console.log('[GeminiLive] Audio pipeline connected and ready to send data');
+  }
 
-          try {
-            session.sendRealtimeInput({ media: pcmBlob });
-          } catch (err) {
-            console.error('[GeminiLive] Exception sending audio:', err);
-            this.isSessionReady = false;
-            this.onError('Failed to send audio data');
-          }
-        }).catch(err => {
-          console.error('[GeminiLive] Error sending audio:', err);
-          this.isSessionReady = false;
-          this.onError('Failed to send audio data');
-        });
+  /**
+   * Tears down the microphone pipeline and releases the device.
+   */
+  private stopCapture() {
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null;
+      this.captureNode.disconnect();
+      this.captureNode = null;
+    }
+    if (this.inputSource) {
+      this.inputSource.disconnect();
+      this.inputSource = null;
+    }
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+    this.emit('level', 'input', 0);
+  }
+
+  /**
+   * Sends audio or activity signals on the current session.
+   */
+  private sendRealtime(params: LiveSendRealtimeInputParameters) {
+    if (!this.sessionPromise) return;
+    this.sessionPromise.then(session => {
+      // Check if session is still valid before sending
+      if (!session || typeof session.sendRealtimeInput !== 'function') {
+        console.error('[GeminiLive] Session is not valid or already closed');
+        this.isSessionReady = false;
+        return;
       }
-    };
 
-    this.inputSource.connect(this.processor);
-    this.processor.connect(this.inputAudioContext.destination);
-    console.log('[GeminiLive] Audio pipeline connected and ready to send data');
+      try {
+        session.sendRealtimeInput(params);
+      } catch (err) {
+        console.error('[GeminiLive] Exception sending realtime input:', err);
+        this.isSessionReady = false;
+        this.emit('error', 'Failed to send audio data');
+      }
+    }).catch(err => {
+      console.error('[GeminiLive] Error sending realtime input:', err);
+      this.isSessionReady = false;
+      this.emit('error', 'Failed to send audio data');
+    });
   }
 
   private async handleOnMessage(message: LiveServerMessage) {
@@ -200,7 +843,7 @@ export class GeminiLiveService {
 
     if (message.serverContent?.modelTurn?.parts) {
       const parts = message.serverContent.modelTurn.parts;
-      parts.forEach((part: any) => {
+      parts.forEach((part: Part) => {
         if (part.text) {
           console.log('[GeminiLive] Model text response:', part.text);
         }
@@ -210,6 +853,29 @@ export class GeminiLiveService {
       });
     }
 
+    if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+      this.resumptionHandle = message.sessionResumptionUpdate.newHandle;
+    }
+
+    if (message.usageMetadata) {
+      this.emit('usage', message.usageMetadata);
+      if (this.usageMeter) {
+        this.usageMeter.add(message.usageMetadata);
+        this.emit('sessionUsage', this.usageMeter.report());
+      }
+    }
+
+    if (message.goAway) {
+      this.handleGoAway(message.goAway.timeLeft);
+    }
+
+    if (message.toolCall?.functionCalls?.length) {
+      // The agent stops talking while the tool runs; that gap is not an underrun
+      this.playback?.endOfStream();
+      this.conversation.dispatch('model-output');
+      await this.handleToolCall(message.toolCall.functionCalls);
+    }
+
     if (!this.outputAudioContext || !this.outputNode) {
       console.warn('[GeminiLive] Audio context not ready');
       return;
@@ -219,69 +885,420 @@ export class GeminiLiveService {
     const outputTranscript = message.serverContent?.outputTranscription?.text;
     if (outputTranscript) {
       console.log('[GeminiLive] Model transcript:', outputTranscript);
-      this.onTranscript(outputTranscript, false);
+      this.transcript.appendFragment('model', outputTranscript);
+      this.conversation.dispatch('model-output');
     }
 
+    // Note: inputTranscription is streamed in fragments; TranscriptModel stitches them into turns.
     const inputTranscript = message.serverContent?.inputTranscription?.text;
-    if (message.serverContent?.turnComplete && inputTranscript) {
-      // We might receive partials, but let's just log on turn complete or if text is present
-    }
-    // Note: inputTranscription is often streamed. We can simplify by just logging whatever comes in if it's substantial.
     if (inputTranscript) {
       console.log('[GeminiLive] User transcript:', inputTranscript);
-      this.onTranscript(inputTranscript, true);
+      this.transcript.appendFragment('user', inputTranscript);
+      this.conversation.dispatch('user-transcript');
+      this.limiter?.noteGuestActivity();
     }
 
-
     // 2. Handle Audio Output
     const audioData = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
 
-    if (audioData) {
-      this.nextStartTime = Math.max(this.nextStartTime, this.outputAudioContext.currentTime);
+    // The agent is held back while staff have taken over
+    if (audioData && this.playbackEnabled && !this.staffActive) {
+      this.playPcm(decodeBase64(audioData), 24000);
+    }
+
+    // 3. Handle Interruption
+    if (message.serverContent?.interrupted) {
+      console.log('[GeminiLive] Playback interrupted');
+      this.stopPlayback();
+      this.transcript.interrupt();
+      this.conversation.dispatch('interrupted');
+      this.emit('interrupted');
+    }
+
+    // 4. Handle Turn Completion
+    if (message.serverContent?.turnComplete) {
+      this.playback?.endOfStream();
+      this.transcript.completeTurn();
+      this.conversation.dispatch('turn-complete');
+    }
+  }
 
-      const audioBuffer = await decodeAudioData(
-        decodeBase64(audioData),
-        this.outputAudioContext,
-        24000,
-        1
-      );
+  /**
+   * Creates the playback engine on the output chain and follows its queue.
+   */
+  private startPlayback(context: AudioContext, output: AudioNode) {
+    const playback = new PlaybackEngine(context, output);
+    this.playback = playback;
+    playback.on('scheduled', (samples, startTime, sampleRate) =>
+      this.conversationRecorder?.addOutput(samples, startTime, sampleRate));
+    playback.on('drained', () => this.conversation.dispatch('playback-drained'));
+    playback.on('playing', playing => this.emit('playing', playing));
+  }
 
-      const source = this.outputAudioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(this.outputNode);
+  /**
+   * Queues 16-bit mono PCM for gapless playback on the output chain.
+   */
+  private playPcm(bytes: Uint8Array, sampleRate: number) {
+    if (!this.playback) return;
+    this.playback.enqueue(bytes, sampleRate);
+    this.conversation.dispatch('playback-started');
+  }
 
-      source.addEventListener('ended', () => {
-        this.sources.delete(source);
-      });
+  /**
+   * Fades out queued agent audio, keeping the recording in step.
+   */
+  private stopPlayback() {
+    if (!this.playback) return;
+    const silentAt = this.playback.interrupt();
+    this.conversationRecorder?.truncateOutput(silentAt);
+  }
 
-      source.start(this.nextStartTime);
-      this.nextStartTime += audioBuffer.duration;
-      this.sources.add(source);
+  private async handleToolCall(functionCalls: FunctionCall[]) {
+    console.log('[GeminiLive] Tool call:', functionCalls);
+    const functionResponses = await Promise.all(
+      functionCalls.map(call => executeToolCall(call, this.toolHandlers))
+    );
+    console.log('[GeminiLive] Tool responses:', functionResponses);
+    functionCalls.forEach((call, index) => {
+      const output = functionResponses[index].response?.output as ConfirmedBooking | undefined;
+      if (call.name === 'create_reservation' && output?.confirmed && output.confirmationCode) {
+        this.confirmationCodes.push(output.confirmationCode);
+        this.emit('booked', {
+          id: output.confirmationCode,
+          partySize: output.partySize,
+          date: output.date,
+          time: output.time,
+          guestName: output.guestName,
+          phone: output.phone,
+          createdAt: new Date().toISOString(),
+        });
+      }
+      this.emit('toolCall', call, functionResponses[index]);
+    });
+
+    if (!this.sessionPromise) return;
+    try {
+      const session = await this.sessionPromise;
+      session.sendToolResponse({ functionResponses });
+    } catch (err) {
+      console.error('[GeminiLive] Failed to send tool response:', err);
+      this.emit('error', 'Failed to send tool response');
     }
+  }
 
-    // 3. Handle Interruption
-    if (message.serverContent?.interrupted) {
-      console.log('[GeminiLive] Playback interrupted');
-      this.sources.forEach(source => {
-        try { source.stop(); } catch (e) { }
+  private async openMicrophone(): Promise<MediaStream> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: buildAudioConstraints(this.audioSettings) });
+    const track = stream.getAudioTracks()[0];
+    console.log('[GeminiLive] Capturing from', track?.label || 'default microphone', track?.getSettings());
+    // Fires when the device is unplugged or revoked
+    track?.addEventListener('ended', () => {
+      if (this.stream === stream) this.restartMicrophone();
+    });
+    return stream;
+  }
+
+  /**
+   * Swaps the microphone stream under the running capture worklet, so the
+   * session carries on with the new device. Restarts are serialized because
+   * unplugging a device fires both `ended` and `devicechange`.
+   */
+  private restartMicrophone(): Promise<void> {
+    this.microphoneRestart = this.microphoneRestart.then(() => this.swapMicrophone());
+    return this.microphoneRestart;
+  }
+
+  private async swapMicrophone() {
+    if (!this.voiceEnabled || !this.stream || !this.inputAudioContext) return;
+    try {
+      const stream = await this.openMicrophone();
+      if (this.intentionalClose) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      const previous = this.stream;
+      this.stream = stream;
+      if (this.captureNode) {
+        this.inputSource?.disconnect();
+        this.inputSource = this.inputAudioContext.createMediaStreamSource(stream);
+        this.inputSource.connect(this.captureNode);
+      }
+      previous.getTracks().forEach(track => track.stop());
+    } catch (err) {
+      console.error('[GeminiLive] Failed to reopen microphone:', err);
+      this.emit('error', 'Microphone unavailable. Please check your audio device.');
+    }
+  }
+
+  private async routeOutput() {
+    if (!this.outputAudioContext) return;
+    const { outputs } = await listAudioDevices();
+    await applyOutputDevice(this.outputAudioContext, this.audioSettings.outputDeviceId, outputs);
+  }
+
+  /**
+   * Hot-plug: follow the chosen devices as they come and go, falling back to
+   * the defaults while they are missing.
+   */
+  private async handleDeviceChange() {
+    if (!this.outputAudioContext || this.intentionalClose) return;
+    const { inputs } = await listAudioDevices();
+    const track = this.stream?.getAudioTracks()[0];
+    const current = track?.getSettings().deviceId;
+    const wanted = this.audioSettings.inputDeviceId;
+
+    const lostCurrent = !!track && (track.readyState === 'ended' || (!!current && current !== 'default' && !inputs.some(d => d.deviceId === current)));
+    const wantedReturned = !!track && !!wanted && wanted !== current && inputs.some(d => d.deviceId === wanted);
+    if (lostCurrent || wantedReturned) {
+      console.log('[GeminiLive] Audio devices changed, reopening microphone');
+      await this.restartMicrophone();
+    }
+    await this.routeOutput();
+  }
+
+  /**
+   * Samples the analyser on the output chain and reports the model's level.
+   * Silence is reported once rather than on every tick.
+   */
+  private startOutputLevelMeter() {
+    this.stopOutputLevelMeter();
+    if (!this.outputAnalyser) return;
+    const samples = new Float32Array(this.outputAnalyser.fftSize);
+    let lastLevel = -1;
+
+    this.outputLevelTimer = setInterval(() => {
+      if (!this.outputAnalyser) return;
+      this.outputAnalyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      const level = Math.min(1, Math.sqrt(sum / samples.length));
+      if (level === 0 && lastLevel === 0) return;
+      lastLevel = level;
+      this.emit('level', 'output', level);
+    }, OUTPUT_LEVEL_INTERVAL_MS);
+  }
+
+  private stopOutputLevelMeter() {
+    if (this.outputLevelTimer) {
+      clearInterval(this.outputLevelTimer);
+      this.outputLevelTimer = null;
+    }
+    this.outputAnalyser = null;
+    this.emit('level', 'output', 0);
+  }
+
+  /**
+   * Checks call and idle time once a second. Near a limit the agent is asked
+   * to warn the guest; at the limit the call is ended.
+   */
+  private startLimits(limits: SessionLimits) {
+    this.stopLimits();
+    if (limits.maxSessionSeconds <= 0 && limits.idleTimeoutSeconds <= 0) return;
+    console.log('[GeminiLive] Call limits:', limits);
+    const limiter = new SessionLimiter(limits);
+    this.limiter = limiter;
+    let last = Date.now();
+
+    this.limitTimer = setInterval(() => {
+      const now = Date.now();
+      const action = limiter.advance((now - last) / 1000, this.conversation.state === 'listening' && !this.staffActive);
+      last = now;
+      if (!action) return;
+
+      if (action.type === 'end') {
+        console.log('[GeminiLive] Ending call, limit reached:', action.reason);
+        this.endReason = action.reason;
+        this.disconnect().catch(err => console.error('[GeminiLive] Failed to end the call:', err));
+      } else {
+        console.log('[GeminiLive] Warning guest before limit:', action.reason, action.secondsLeft, 's left');
+        this.emit('limitWarning', action.reason, action.secondsLeft);
+        this.sendLimitWarning(action.reason, action.secondsLeft);
+      }
+    }, LIMIT_CHECK_INTERVAL_MS);
+  }
+
+  private stopLimits() {
+    if (this.limitTimer) {
+      clearInterval(this.limitTimer);
+      this.limitTimer = null;
+    }
+    this.limiter = null;
+  }
+
+  /**
+   * Has the agent speak the warning; it is not added to the transcript.
+   */
+  private sendLimitWarning(reason: LimitReason, secondsLeft: number) {
+    if (this.staffActive) return;
+    this.sendSystemNotice(buildLimitWarning(reason, secondsLeft));
+  }
+
+  /**
+   * Sends the agent an instruction as if from the guest, marked as a system
+   * notice; it is not added to the transcript.
+   */
+  private sendSystemNotice(text: string) {
+    if (!this.isSessionReady || !this.sessionPromise) return;
+    this.sessionPromise.then(session => {
+      session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+    }).catch(err => console.error('[GeminiLive] Failed to send system notice:', err));
+  }
+
+  /**
+   * Gives a session started without a resumption handle the recent turns of
+   * the call as context, without asking the agent to reply.
+   */
+  private sendRecentTurns() {
+    const turns = this.callTurns()
+      .filter(turn => turn.status !== 'streaming' && turn.text.trim())
+      .slice(-LANGUAGE_SWITCH_CONTEXT_TURNS)
+      .map(turn => ({
+        role: turn.role,
+        parts: [{ text: turn.channel === 'staff' ? `[Staff] ${turn.text}` : turn.text }],
+      }));
+    if (turns.length === 0 || !this.sessionPromise) return;
+    this.sessionPromise.then(session => {
+      session.sendClientContent({
+        turns: [...turns, { role: 'user', parts: [{ text: LANGUAGE_SWITCH_NOTICE }] }],
+        turnComplete: false,
       });
-      this.sources.clear();
-      this.nextStartTime = 0;
+    }).catch(err => console.error('[GeminiLive] Failed to send the conversation so far:', err));
+  }
+
+  /**
+   * Handles the `escalate_to_staff` tool: queues this conversation on the
+   * handoff relay so staff can see it and take over.
+   */
+  private async escalate(args: ToolArgs): Promise<ToolResult> {
+    if (this.handoff) return { queued: true, note: 'The guest is already waiting for staff.' };
+    const reason = HANDOFF_REASONS.includes(args.reason as HandoffReason) ? (args.reason as HandoffReason) : 'other';
+
+    const handoff = new StaffHandoff(this.handoffUrl!);
+    this.handoff = handoff;
+    handoff.on('state', state => this.handleHandoffState(state));
+    handoff.on('audio', data => {
+      if (this.staffActive) this.playPcm(decodeBase64(data), HANDOFF_SAMPLE_RATE);
+    });
+    handoff.on('text', text => this.transcript.addStaffMessage(text));
+    handoff.on('closed', () => {
+      if (this.handoff !== handoff) return;
+      console.warn('[GeminiLive] Lost the staff handoff relay');
+      this.endHandoff();
+    });
+
+    try {
+      await handoff.escalate({
+        restaurantId: this.profile.id,
+        reason,
+        summary: String(args.summary ?? ''),
+        turns: this.callTurns(),
+      });
+      console.log('[GeminiLive] Escalated to staff:', reason);
+      return { queued: true };
+    } catch (err) {
+      console.warn('[GeminiLive] Escalation failed:', err);
+      if (this.handoff === handoff) this.handoff = null;
+      return { error: 'No staff are available right now. Apologise, take a message and a phone number, and promise a call back.' };
+    }
+  }
+
+  private handleHandoffState(state: HandoffState) {
+    const wasStaff = this.staffActive;
+    this.staffActive = state === 'staff';
+    if (this.staffActive && !wasStaff) {
+      console.log('[GeminiLive] Staff took over the conversation');
+      this.stopTalking();
+      // Lets server-side VAD close out any speech the agent was hearing
+      if (this.inputMode === 'voice-activity' && this.isSessionReady) this.sendRealtime({ audioStreamEnd: true });
+      this.stopPlayback();
+      this.transcript.interrupt();
+    } else if (wasStaff && !this.staffActive) {
+      console.log('[GeminiLive] Staff handed the conversation back');
+      this.stopPlayback();
+      this.sendSystemNotice(HANDBACK_NOTICE);
+    }
+    this.emit('handoff', state);
+  }
+
+  /**
+   * Leaves the relay. If staff still had the guest, the agent takes over.
+   */
+  private endHandoff() {
+    if (!this.handoff) return;
+    this.handoff.close();
+    this.handoff = null;
+    if (this.staffActive) {
+      this.staffActive = false;
+      this.stopPlayback();
+      this.sendSystemNotice(HANDBACK_NOTICE);
     }
+    this.emit('handoff', null);
+  }
+
+  /**
+   * This call's turns; the transcript spans every call on this service.
+   */
+  private callTurns(): CallTurn[] {
+    const startedAt = this.callStartedAt;
+    return toCallTurns(startedAt ? this.transcript.history.filter(turn => turn.timestamp >= startedAt) : []);
+  }
+
+  /**
+   * Reports the finished call to the backend's call history.
+   */
+  private logCall(usage: SessionUsage) {
+    const startedAt = this.callStartedAt;
+    const turns = this.callTurns();
+    const sessionId = this.session?.sessionId;
+    this.callStartedAt = null;
+    if (!startedAt || !this.reportCalls || !sessionId) return;
+
+    reportCall(this.profile.id, sessionId, {
+      startedAt: startedAt.toISOString(),
+      endedAt: new Date().toISOString(),
+      language: this.language ?? this.profile.languages[0],
+      turns,
+      confirmationCodes: [...this.confirmationCodes],
+      endReason: usage.endReason ?? 'hangup',
+      totalTokens: usage.totalTokens,
+    }, this.apiBase).catch(err => console.error('[GeminiLive] Failed to report the call:', err));
   }
 
   async disconnect() {
     console.log('[GeminiLive] Disconnecting...');
     this.isSessionReady = false;
+    this.intentionalClose = true;
+    this.isReconnecting = false;
+    this.stopLimits();
+    this.endHandoff();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    // Each call starts unmuted with the talk button released
+    if (this.talking) {
+      this.talking = false;
+      this.emit('talking', false);
+    }
+    if (this.muted) {
+      this.muted = false;
+      this.emit('muted', false);
+    }
+
     // Clean up Web Audio
-    if (this.processor) {
-      this.processor.disconnect();
-      this.processor.onaudioprocess = null;
+    this.stopWatchingDevices?.();
+    this.stopWatchingDevices = null;
+    this.stopOutputLevelMeter();
+    this.playback?.dispose();
+    this.playback = null;
+    this.stopCapture();
+    this.workletLoaded = false;
+    // A second disconnect must not close them again
+    const contexts = [this.inputAudioContext, this.outputAudioContext];
+    this.inputAudioContext = null;
+    this.outputAudioContext = null;
+    for (const context of contexts) {
+      if (context) await context.close();
     }
-    if (this.inputSource) this.inputSource.disconnect();
-    if (this.stream) this.stream.getTracks().forEach(track => track.stop());
-    if (this.inputAudioContext) await this.inputAudioContext.close();
-    if (this.outputAudioContext) await this.outputAudioContext.close();
 
     // Clean up Gemini Session
     // Since the SDK doesn't expose a direct 'disconnect' on the generic type easily without the session object,
@@ -299,9 +1316,29 @@ export class GeminiLiveService {
         console.warn('[GeminiLive] Error closing session', e);
       }
     }
+    // Frees the call's slot on our backend
+    this.transport.endCall?.();
+
+    this.transcript.finalize();
+
+    if (this.conversationRecorder) {
+      const recording = this.conversationRecorder.finish(this.transcript.history, resolvePersona(this.profile, this.callSettings).name);
+      this.conversationRecorder = null;
+      console.log('[GeminiLive] Call recording finished:', recording.durationSec.toFixed(1), 's');
+      this.emit('recording', recording);
+    }
+
+    if (this.usageMeter) {
+      const usage = this.usageMeter.report(this.endReason);
+      this.usageMeter = null;
+      console.log('[GeminiLive] Call usage:', usage);
+      this.emit('sessionUsage', usage);
+      this.logCall(usage);
+    }
 
     console.log('[GeminiLive] Disconnected successfully');
-    this.onStatusChange('disconnected');
+    this.conversation.dispatch('session-closed');
+    this.emit('status', 'disconnected');
     this.sessionPromise = null;
   }
 }
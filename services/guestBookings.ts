@@ -0,0 +1,43 @@
+import { Reservation } from '../types';
+
+const STORAGE_PREFIX = 'golden-spice:guest-bookings';
+
+// Older bookings drop off the list
+const MAX_REMEMBERED = 20;
+
+const storageKey = (restaurantId: string) => `${STORAGE_PREFIX}:${restaurantId}`;
+
+const defaultStorage = (): Storage | null => (typeof localStorage !== 'undefined' ? localStorage : null);
+
+/**
+ * Bookings made from this browser, shown back to the guest. The restaurant's
+ * full reservation book stays on the server.
+ */
+export function loadGuestBookings(restaurantId: string, storage: Storage | null = defaultStorage()): Reservation[] {
+  try {
+    const raw = storage?.getItem(storageKey(restaurantId));
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.warn('[GuestBookings] Failed to load bookings, starting empty', e);
+    return [];
+  }
+}
+
+/**
+ * Adds a booking confirmed during a call and returns the updated list.
+ */
+export function rememberGuestBooking(
+  restaurantId: string,
+  reservation: Reservation,
+  storage: Storage | null = defaultStorage()
+): Reservation[] {
+  const bookings = [...loadGuestBookings(restaurantId, storage).filter(r => r.id !== reservation.id), reservation]
+    .slice(-MAX_REMEMBERED);
+  try {
+    storage?.setItem(storageKey(restaurantId), JSON.stringify(bookings));
+  } catch (e) {
+    console.error('[GuestBookings] Failed to persist bookings', e);
+  }
+  return bookings;
+}
@@ -0,0 +1,67 @@
+import { CallTurn } from './callHistory';
+
+/**
+ * Messages on the staff handoff relay (server/handoffRelay.ts). The guest's
+ * browser and the staff console each hold a WebSocket to the relay; audio
+ * goes both ways as base64 16 kHz mono PCM16 while staff have taken over.
+ * Guest messages typed during a takeover reach staff through the transcript.
+ * A staff console authenticates with an `auth` message before anything else.
+ */
+
+export const HANDOFF_REASONS = ['complaint', 'large-event', 'other'] as const;
+export type HandoffReason = typeof HANDOFF_REASONS[number];
+
+// waiting: queued for staff; staff: a member of staff has the guest; agent:
+// handed back, the agent is talking again
+export type HandoffState = 'waiting' | 'staff' | 'agent';
+
+export const HANDOFF_GUEST_PATH = '/api/handoff/guest';
+export const HANDOFF_STAFF_PATH = '/api/handoff/staff';
+export const HANDOFF_SAMPLE_RATE = 16000;
+
+export interface HandoffConversation {
+  id: string;
+  restaurantId: string;
+  reason: HandoffReason;
+  summary: string; // the agent's note for staff
+  state: HandoffState;
+  createdAt: string; // ISO timestamp
+  turns: CallTurn[];
+}
+
+// `escalate` carries the finished turns so far; each `transcript` carries the
+// turns finished since, which the relay appends
+export type GuestToRelay =
+  | { type: 'escalate'; restaurantId: string; reason: HandoffReason; summary: string; turns: CallTurn[] }
+  | { type: 'transcript'; turns: CallTurn[] }
+  | { type: 'audio'; data: string };
+
+export type RelayToGuest =
+  | { type: 'queued'; conversationId: string }
+  | { type: 'state'; state: HandoffState }
+  | { type: 'audio'; data: string }
+  | { type: 'text'; text: string };
+
+export type StaffToRelay =
+  | { type: 'auth'; token: string }
+  | { type: 'takeover'; conversationId: string }
+  | { type: 'release'; conversationId: string }
+  | { type: 'audio'; conversationId: string; data: string }
+  | { type: 'text'; conversationId: string; text: string };
+
+export type RelayToStaff =
+  | { type: 'conversations'; conversations: HandoffConversation[] }
+  | { type: 'audio'; conversationId: string; data: string };
+
+/**
+ * Parses a relay message, returning null for anything that is not a JSON
+ * object with a string `type`.
+ */
+export function parseHandoffMessage<T extends { type: string }>(raw: string): T | null {
+  try {
+    const message = JSON.parse(raw);
+    return message && typeof message === 'object' && typeof message.type === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,80 @@
+import { LanguageCode, LanguageDefinition, LanguageMode, UI_STRING_KEYS } from '../types';
+import { LANGUAGE_CONFIGS } from '../locales';
+import { Schema, validateSchema } from '../utils/schema';
+
+/**
+ * Schema every language JSON must satisfy.
+ * Keep in sync with the LanguageDefinition type.
+ */
+export const LANGUAGE_SCHEMA: Schema = {
+  code: { type: 'string', pattern: /^[a-z]{2,3}(-[A-Z]{2})?$/ },
+  label: { type: 'string' },
+  englishName: { type: 'string' },
+  dir: { type: 'enum', values: ['ltr', 'rtl'] },
+  speechInstruction: { type: 'string' },
+  ui: {
+    type: 'object',
+    fields: Object.fromEntries(UI_STRING_KEYS.map(key => [key, { type: 'string' }])) as Schema,
+  },
+};
+
+/**
+ * Validates a raw language config. Returns the typed definition, or the list of problems.
+ */
+export function validateLanguage(raw: unknown): { language: LanguageDefinition | null; errors: string[] } {
+  const errors = validateSchema(raw, LANGUAGE_SCHEMA);
+  return { language: errors.length === 0 ? (raw as LanguageDefinition) : null, errors };
+}
+
+function loadLanguages(): LanguageDefinition[] {
+  const languages: LanguageDefinition[] = [];
+  for (const raw of LANGUAGE_CONFIGS) {
+    const { language, errors } = validateLanguage(raw);
+    if (!language) {
+      const code = (raw as { code?: unknown })?.code ?? 'unknown';
+      console.error(`[Languages] Skipping invalid language "${code}":`, errors);
+      continue;
+    }
+    if (languages.some(l => l.code === language.code)) {
+      console.error(`[Languages] Skipping duplicate language code "${language.code}"`);
+      continue;
+    }
+    languages.push(language);
+  }
+  if (languages.length === 0) {
+    throw new Error('No valid languages found in locales/');
+  }
+  return languages;
+}
+
+export const LANGUAGES: LanguageDefinition[] = loadLanguages();
+
+export function getLanguage(code: LanguageCode): LanguageDefinition | undefined {
+  return LANGUAGES.find(l => l.code === code);
+}
+
+/**
+ * Picks the language the interface is shown in. A fixed mode uses that
+ * language; 'auto' uses the first browser preference the venue supports,
+ * falling back to the venue's default.
+ */
+export function resolveUiLanguage(
+  mode: LanguageMode,
+  supported: LanguageCode[],
+  preferred: readonly string[] = typeof navigator !== 'undefined' ? navigator.languages : []
+): LanguageDefinition {
+  let code = mode === 'auto' ? undefined : mode;
+  if (!code) {
+    code = preferred
+      .map(tag => supported.find(s => s === tag || s === tag.split('-')[0]))
+      .find(Boolean);
+  }
+  return getLanguage(code ?? supported[0]) ?? LANGUAGES[0];
+}
+
+/**
+ * Fills `{name}` placeholders in a UI string.
+ */
+export function formatMessage(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+}
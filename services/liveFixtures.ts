@@ -0,0 +1,189 @@
+import { LiveConnectParameters, LiveServerMessage } from '@google/genai';
+import { LiveSessionHandle, LiveTransport } from './liveTransport';
+
+/**
+ * One line of a JSONL session fixture. `t` is milliseconds since the
+ * transport started connecting.
+ */
+export type FixtureEntry =
+  | { type: 'meta'; version: 1; model: string; recordedAt: string; config?: unknown }
+  | { type: 'open'; t: number }
+  | { type: 'server'; t: number; message: LiveServerMessage }
+  | { type: 'client'; t: number; method: ClientMethod; params: unknown }
+  | { type: 'close'; t: number; code?: number; reason?: string };
+
+type ClientMethod = 'sendRealtimeInput' | 'sendClientContent' | 'sendToolResponse';
+
+export function parseFixture(jsonl: string): FixtureEntry[] {
+  return jsonl
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => JSON.parse(line) as FixtureEntry);
+}
+
+/**
+ * Wraps another transport and records every server message, every outbound
+ * call and their timing so the session can be replayed later.
+ */
+export class RecordingTransport implements LiveTransport {
+  private entries: FixtureEntry[] = [];
+
+  constructor(private inner: LiveTransport) {}
+
+  async connect(params: LiveConnectParameters): Promise<LiveSessionHandle> {
+    const startedAt = performance.now();
+    const elapsed = () => Math.round(performance.now() - startedAt);
+
+    this.entries = [{
+      type: 'meta',
+      version: 1,
+      model: params.model,
+      recordedAt: new Date().toISOString(),
+      config: params.config,
+    }];
+
+    const session = await this.inner.connect({
+      ...params,
+      callbacks: {
+        onopen: () => {
+          this.entries.push({ type: 'open', t: elapsed() });
+          params.callbacks.onopen?.();
+        },
+        onmessage: (message) => {
+          this.entries.push({ type: 'server', t: elapsed(), message });
+          params.callbacks.onmessage(message);
+        },
+        onerror: (event) => params.callbacks.onerror?.(event),
+        onclose: (event) => {
+          this.entries.push({ type: 'close', t: elapsed(), code: event?.code, reason: event?.reason });
+          params.callbacks.onclose?.(event);
+        },
+      },
+    });
+
+    const record = (method: ClientMethod, p: unknown) => {
+      this.entries.push({ type: 'client', t: elapsed(), method, params: p });
+    };
+
+    return {
+      sendRealtimeInput: (p) => { record('sendRealtimeInput', p); session.sendRealtimeInput(p); },
+      sendClientContent: (p) => { record('sendClientContent', p); session.sendClientContent(p); },
+      sendToolResponse: (p) => { record('sendToolResponse', p); session.sendToolResponse(p); },
+      close: () => session.close(),
+      limits: session.limits,
+      sessionId: session.sessionId,
+    };
+  }
+
+  endCall() {
+    this.inner.endCall?.();
+  }
+
+  get hasRecording(): boolean {
+    return this.entries.length > 1;
+  }
+
+  toJsonl(): string {
+    return this.entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+  }
+}
+
+interface ReplayOptions {
+  // Playback speed multiplier; 0 replays as fast as possible
+  speed?: number;
+}
+
+/**
+ * Feeds a recorded fixture back through the Live callbacks without network
+ * access. Outbound calls are captured in `sent` instead of being transmitted.
+ */
+export class ReplayTransport implements LiveTransport {
+  readonly sent: Array<{ method: ClientMethod; params: unknown }> = [];
+  private connections = 0;
+  private resolveDone: () => void = () => {};
+  private replayed = this.nextReplay();
+
+  /**
+   * Resolves once every recorded server event has been delivered to the
+   * latest connection. Each connect() replays the fixture from the start.
+   */
+  get done(): Promise<void> {
+    return this.replayed;
+  }
+
+  private nextReplay(): Promise<void> {
+    return new Promise<void>(resolve => { this.resolveDone = resolve; });
+  }
+
+  /**
+   * @param source JSONL text, parsed entries, or a URL to fetch the fixture from
+   */
+  constructor(private source: string | FixtureEntry[] | URL, private options: ReplayOptions = {}) {}
+
+  private async loadEntries(): Promise<FixtureEntry[]> {
+    if (Array.isArray(this.source)) return this.source;
+    if (typeof this.source === 'string') return parseFixture(this.source);
+
+    const response = await fetch(this.source);
+    if (!response.ok) throw new Error(`Failed to load fixture ${this.source} (${response.status})`);
+    return parseFixture(await response.text());
+  }
+
+  async connect(params: LiveConnectParameters): Promise<LiveSessionHandle> {
+    // Before the first await, so `done` already refers to this connection
+    if (this.connections++ > 0) this.replayed = this.nextReplay();
+    const resolveDone = this.resolveDone;
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    const entries = await this.loadEntries();
+    const speed = this.options.speed ?? 1;
+    const events = entries.filter(e => e.type === 'open' || e.type === 'server' || e.type === 'close');
+    let closed = false;
+
+    const deliver = (entry: FixtureEntry) => {
+      if (closed) return;
+      if (entry.type === 'open') {
+        params.callbacks.onopen?.();
+      } else if (entry.type === 'server') {
+        params.callbacks.onmessage(entry.message);
+      } else if (entry.type === 'close') {
+        closed = true;
+        params.callbacks.onclose?.({ code: entry.code, reason: entry.reason } as CloseEvent);
+      }
+    };
+
+    // The SDK resolves connect() only after the socket opens, so do the same
+    const [first, ...rest] = events;
+    if (first?.type === 'open') deliver(first);
+
+    (first?.type === 'open' ? rest : events).forEach((entry, index, list) => {
+      const t = 't' in entry ? entry.t : 0;
+      const delay = speed > 0 ? t / speed : index;
+      timers.push(setTimeout(() => {
+        deliver(entry);
+        if (index === list.length - 1) resolveDone();
+      }, delay));
+    });
+    if (events.length <= 1) resolveDone();
+
+    const capture = (method: ClientMethod) => (p: unknown) => {
+      this.sent.push({ method, params: p });
+    };
+
+    return {
+      sendRealtimeInput: capture('sendRealtimeInput'),
+      sendClientContent: capture('sendClientContent'),
+      sendToolResponse: capture('sendToolResponse'),
+      close: () => {
+        timers.forEach(clearTimeout);
+        timers.length = 0;
+        resolveDone();
+        if (!closed) {
+          closed = true;
+          params.callbacks.onclose?.({ code: 1000, reason: 'Replay closed' } as CloseEvent);
+        }
+      },
+    };
+  }
+}
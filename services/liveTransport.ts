@@ -0,0 +1,67 @@
+import {
+  GoogleGenAI,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from '@google/genai';
+import { DEFAULT_API_BASE, fetchSessionCredentials, releaseSession } from './sessionCredentials';
+import { SessionLimits } from './sessionLimits';
+
+/**
+ * The subset of the SDK's `Session` that GeminiLiveService relies on.
+ */
+export interface LiveSessionHandle {
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+  // Call limits announced by the backend for this deployment, if any
+  limits?: SessionLimits;
+  // The backend's lease for the call, shared by all of its sessions
+  sessionId?: string;
+}
+
+/**
+ * Opens Live sessions. Swapping the transport lets the service run against
+ * the real API, a recorder wrapping it, or a recorded fixture.
+ */
+export interface LiveTransport {
+  connect(params: LiveConnectParameters): Promise<LiveSessionHandle>;
+  // The call is over: frees anything held across its sessions
+  endCall?(): void;
+}
+
+/**
+ * Default transport: obtains short-lived credentials from our backend and
+ * connects to the Live API through the SDK. Every session of a call, after
+ * a reconnect, goAway or language switch, runs under the call's first lease.
+ */
+export class GenAITransport implements LiveTransport {
+  private sessionId: string | null = null;
+
+  // Base URL of our backend's API, e.g. https://hostess.example.com/api
+  constructor(private apiBase = DEFAULT_API_BASE) {}
+
+  async connect(params: LiveConnectParameters): Promise<LiveSessionHandle> {
+    const credentials = await fetchSessionCredentials(this.apiBase, this.sessionId ?? undefined);
+    this.sessionId = credentials.sessionId;
+
+    const ai = new GoogleGenAI({ apiKey: credentials.token, httpOptions: { apiVersion: 'v1alpha' } });
+    const session = await ai.live.connect(params);
+    return {
+      sendRealtimeInput: (p) => session.sendRealtimeInput(p),
+      sendClientContent: (p) => session.sendClientContent(p),
+      sendToolResponse: (p) => session.sendToolResponse(p),
+      close: () => session.close(),
+      limits: credentials.limits,
+      sessionId: credentials.sessionId,
+    };
+  }
+
+  endCall() {
+    if (!this.sessionId) return;
+    releaseSession(this.sessionId, this.apiBase);
+    this.sessionId = null;
+  }
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { getMenu, queryMenu } from './menu';
+
+describe('queryMenu', () => {
+  const menu = getMenu('golden-spice')!;
+
+  it('filters by a maximum price', () => {
+    const { items } = queryMenu(menu, { maxPrice: 10 });
+
+    expect(items.length).toBeGreaterThan(0);
+    expect(items.every(item => item.price <= 10)).toBe(true);
+  });
+
+  it('ignores a maximum price that is not a number', () => {
+    const everything = queryMenu(menu).totalMatches;
+
+    expect(queryMenu(menu, { maxPrice: NaN }).totalMatches).toBe(everything);
+    expect(queryMenu(menu, { maxPrice: Infinity }).totalMatches).toBe(everything);
+  });
+});
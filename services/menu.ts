@@ -0,0 +1,111 @@
+import { ALLERGENS, Allergen, DIETARY_TAGS, DietaryTag, Menu, MenuItem } from '../types';
+import { RESTAURANT_MENUS } from '../restaurants';
+import { Schema, validateSchema } from '../utils/schema';
+
+// Keeps tool responses short enough to be read out in a voice reply
+const MAX_RESULTS = 10;
+
+/**
+ * Schema every restaurant menu JSON must satisfy.
+ * Keep in sync with the Menu type.
+ */
+export const MENU_SCHEMA: Schema = {
+  currency: { type: 'string', pattern: /^[A-Z]{3}$/ },
+  categories: { type: 'string[]', minItems: 1 },
+  items: {
+    type: 'object[]',
+    minItems: 1,
+    fields: {
+      id: { type: 'string', pattern: /^[a-z0-9]+(-[a-z0-9]+)*$/ },
+      name: { type: 'string' },
+      category: { type: 'string' },
+      description: { type: 'string' },
+      price: { type: 'number', min: 0 },
+      allergens: { type: 'enum[]', values: ALLERGENS },
+      dietary: { type: 'enum[]', values: DIETARY_TAGS },
+      portion: { type: 'string', optional: true },
+    },
+  },
+};
+
+/**
+ * Validates a raw menu. Beyond the schema, item ids must be unique and every
+ * item must belong to a declared category.
+ */
+export function validateMenu(raw: unknown): { menu: Menu | null; errors: string[] } {
+  const errors = validateSchema(raw, MENU_SCHEMA);
+  if (errors.length === 0) {
+    const { categories, items } = raw as Menu;
+    const seen = new Set<string>();
+    items.forEach((item, index) => {
+      if (seen.has(item.id)) errors.push(`items[${index}].id "${item.id}" is duplicated`);
+      seen.add(item.id);
+      if (!categories.includes(item.category)) {
+        errors.push(`items[${index}].category "${item.category}" is not listed in categories`);
+      }
+    });
+  }
+  return { menu: errors.length === 0 ? (raw as Menu) : null, errors };
+}
+
+function loadMenus(): Map<string, Menu> {
+  const menus = new Map<string, Menu>();
+  for (const [restaurantId, raw] of Object.entries(RESTAURANT_MENUS)) {
+    const { menu, errors } = validateMenu(raw);
+    if (!menu) {
+      console.error(`[Menu] Skipping invalid menu for "${restaurantId}":`, errors);
+      continue;
+    }
+    menus.set(restaurantId, menu);
+  }
+  return menus;
+}
+
+const MENUS = loadMenus();
+
+export function getMenu(restaurantId: string): Menu | null {
+  return MENUS.get(restaurantId) ?? null;
+}
+
+export interface MenuQuery {
+  search?: string; // free text matched against name and description
+  category?: string;
+  dietary?: DietaryTag[]; // item must carry every tag
+  excludeAllergens?: Allergen[]; // item must contain none of these
+  maxPrice?: number;
+}
+
+export interface MenuQueryResult {
+  currency: string;
+  categories: string[];
+  items: MenuItem[];
+  totalMatches: number;
+}
+
+/**
+ * Filters the menu. All criteria are combined with AND; matching is
+ * case-insensitive and ignores unknown tags rather than failing.
+ */
+export function queryMenu(menu: Menu, query: MenuQuery = {}): MenuQueryResult {
+  const search = query.search?.trim().toLowerCase();
+  const category = query.category?.trim().toLowerCase();
+  const dietary = query.dietary?.map(tag => tag.toLowerCase()) ?? [];
+  const excluded = query.excludeAllergens?.map(allergen => allergen.toLowerCase()) ?? [];
+
+  const matches = menu.items.filter(item => {
+    if (category && item.category.toLowerCase() !== category) return false;
+    if (search && !`${item.name} ${item.description}`.toLowerCase().includes(search)) return false;
+    // A price the model could not give as a number is no limit at all
+    if (Number.isFinite(query.maxPrice) && item.price > query.maxPrice!) return false;
+    if (!dietary.every(tag => (item.dietary as string[]).includes(tag))) return false;
+    if (excluded.some(allergen => (item.allergens as string[]).includes(allergen))) return false;
+    return true;
+  });
+
+  return {
+    currency: menu.currency,
+    categories: menu.categories,
+    items: matches.slice(0, MAX_RESULTS),
+    totalMatches: matches.length,
+  };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { OpeningSchedule, parseTime, serviceMinutes } from './openingHours';
+
+describe('parseTime', () => {
+  it('reads 24-hour and am/pm times', () => {
+    expect(parseTime('19:30')).toBe(19 * 60 + 30);
+    expect(parseTime('7:30 pm')).toBe(19 * 60 + 30);
+    expect(parseTime('7.30 p.m.')).toBe(19 * 60 + 30);
+    expect(parseTime('19h30')).toBe(19 * 60 + 30);
+    expect(parseTime('7pm')).toBe(19 * 60);
+    expect(parseTime('9')).toBe(9 * 60);
+  });
+
+  it('reads noon and midnight either way', () => {
+    expect(parseTime('12 pm')).toBe(12 * 60);
+    expect(parseTime('noon')).toBe(12 * 60);
+    expect(parseTime('12 am')).toBe(0);
+    expect(parseTime('midnight')).toBe(0);
+  });
+
+  it('rejects times that are not on the clock', () => {
+    expect(parseTime('25:00')).toBeNull();
+    expect(parseTime('7:75')).toBeNull();
+    expect(parseTime('13 pm')).toBeNull();
+    // Spoken forms are normalised by the agent
+    expect(parseTime('half seven')).toBeNull();
+  });
+});
+
+describe('serviceMinutes', () => {
+  // Open 18:00 until 02:00, closed on Mondays
+  const late: OpeningSchedule = [0, 1, 2, 3, 4, 5, 6].map(day => day === 1 ? [] : [{ open: 18 * 60, close: 26 * 60 }]);
+
+  it('places times after midnight in the evening service', () => {
+    expect(serviceMinutes(late, '2026-10-16', 20 * 60)).toBe(20 * 60);
+    expect(serviceMinutes(late, '2026-10-16', 30)).toBe(24 * 60 + 30);
+  });
+
+  it('returns null outside the hours or on a closed day', () => {
+    expect(serviceMinutes(late, '2026-10-16', 3 * 60)).toBeNull();
+    expect(serviceMinutes(late, '2026-10-19', 20 * 60)).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import { RestaurantProfile } from '../types';
+import { WEEKDAYS, Weekday, formatMinutes, weekdayOf } from '../utils/zonedTime';
+
+export interface OpeningWindow {
+  open: number; // minutes after midnight
+  close: number; // may exceed 24:00 when the venue closes after midnight
+}
+
+// Opening windows per weekday, Sunday first; an empty list means closed
+export type OpeningSchedule = OpeningWindow[][];
+
+const TIME_PATTERN = /^(\d{1,2})(?:[:.h](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Reads a clock time ("19:30", "7:30 pm", "7pm", "noon") as minutes after
+ * midnight. Times without am/pm are read as 24-hour. Spoken forms such as
+ * "half seven" need context to place, so the agent normalises them first.
+ */
+export function parseTime(input: string): number | null {
+  const text = input.trim().toLowerCase();
+  if (text === 'noon' || text === 'midday') return 12 * 60;
+  if (text === 'midnight') return 0;
+
+  const match = text.match(TIME_PATTERN);
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3]?.replace(/\./g, '');
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  } else if (hour > 23) {
+    return null;
+  }
+  return hour * 60 + minute;
+}
+
+function toWindow(open: number, close: number): OpeningWindow {
+  return { open, close: close <= open ? close + MINUTES_PER_DAY : close };
+}
+
+/**
+ * Parses free-text hours such as "11:00 AM to 11:00 PM daily". Returns null
+ * when the text is not a single daily opening window.
+ */
+export function parseOpeningHours(hours: string): OpeningWindow | null {
+  const match = hours.toLowerCase().match(/^(.+?)\s*(?:to|-|–)\s*(.+?)(?:\s+daily)?$/);
+  if (!match) return null;
+  const open = parseTime(match[1]);
+  const close = parseTime(match[2]);
+  return open === null || close === null ? null : toWindow(open, close);
+}
+
+/**
+ * The weekly schedule for a profile, from its structured `openingHours`, or
+ * from the free-text `hours` when those are absent. Returns null when
+ * neither can be read; such profiles are rejected when they are loaded.
+ */
+export function getOpeningSchedule(profile: RestaurantProfile): OpeningSchedule | null {
+  if (!profile.openingHours) {
+    const daily = parseOpeningHours(profile.hours);
+    return daily ? WEEKDAYS.map(() => [daily]) : null;
+  }
+
+  const schedule: OpeningSchedule = WEEKDAYS.map(() => []);
+  for (const entry of profile.openingHours) {
+    const open = parseTime(entry.open);
+    const close = parseTime(entry.close);
+    if (open === null || close === null) return null;
+    entry.days.forEach(day => schedule[WEEKDAYS.indexOf(day as Weekday)].push(toWindow(open, close)));
+  }
+  schedule.forEach(windows => windows.sort((a, b) => a.open - b.open));
+  return schedule;
+}
+
+/**
+ * Places a clock time within a date's service. Times before the first
+ * opening are read as after midnight, belonging to the night before's
+ * service. Returns minutes since the date's midnight, or null when closed.
+ */
+export function serviceMinutes(schedule: OpeningSchedule, date: string, minutes: number): number | null {
+  const windows = schedule[weekdayOf(date)];
+  if (windows.length === 0) return null;
+  const inService = minutes < windows[0].open ? minutes + MINUTES_PER_DAY : minutes;
+  return windows.some(w => inService >= w.open && inService < w.close) ? inService : null;
+}
+
+/**
+ * Speakable summary of one day's hours, e.g. "12:00–15:00 and 18:00–23:00".
+ */
+export function describeWindows(windows: OpeningWindow[]): string {
+  return windows.map(w => `${formatMinutes(w.open)}–${formatMinutes(w.close)}`).join(' and ');
+}
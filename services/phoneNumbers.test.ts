@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { normalizePhoneNumber } from './phoneNumbers';
+
+describe('normalizePhoneNumber', () => {
+  it('reads national numbers as the venue country', () => {
+    expect(normalizePhoneNumber('(212) 555-0142', 'US')).toBe('+12125550142');
+    expect(normalizePhoneNumber('1 212 555 0142', 'US')).toBe('+12125550142');
+    expect(normalizePhoneNumber('07911 123456', 'GB')).toBe('+447911123456');
+  });
+
+  it('keeps the country code of international numbers', () => {
+    expect(normalizePhoneNumber('+44 (0)7911 123-456', 'US')).toBe('+447911123456');
+    expect(normalizePhoneNumber('0044 7911 123456', 'US')).toBe('+447911123456');
+  });
+
+  it('reads numbers as spoken', () => {
+    expect(normalizePhoneNumber('oh seven nine double one one two three four five six', 'GB')).toBe('+447911123456');
+  });
+
+  it('rejects numbers that cannot be dialled', () => {
+    expect(normalizePhoneNumber('555-0142', 'US')).toBeNull();
+    expect(normalizePhoneNumber('call me maybe', 'US')).toBeNull();
+    expect(normalizePhoneNumber('+0 20 7946 0958', 'GB')).toBeNull();
+    expect(normalizePhoneNumber('+1234567890123456', 'US')).toBeNull();
+    // National numbers need a country we know the rules for
+    expect(normalizePhoneNumber('2125550142', 'XX')).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Dialling rules for the countries venues can be configured with. Numbers
+ * given without a country code are read as national numbers of the venue's
+ * country; the trunk prefix (e.g. the leading 0 in the UK) is dropped.
+ */
+interface CountryRule {
+  callingCode: string;
+  trunkPrefix: string;
+  nationalLength: [min: number, max: number];
+}
+
+export const PHONE_COUNTRIES: Record<string, CountryRule> = {
+  US: { callingCode: '1', trunkPrefix: '1', nationalLength: [10, 10] },
+  CA: { callingCode: '1', trunkPrefix: '1', nationalLength: [10, 10] },
+  GB: { callingCode: '44', trunkPrefix: '0', nationalLength: [9, 10] },
+  FR: { callingCode: '33', trunkPrefix: '0', nationalLength: [9, 9] },
+  TR: { callingCode: '90', trunkPrefix: '0', nationalLength: [10, 10] },
+  RU: { callingCode: '7', trunkPrefix: '8', nationalLength: [10, 10] },
+  AE: { callingCode: '971', trunkPrefix: '0', nationalLength: [8, 9] },
+  SA: { callingCode: '966', trunkPrefix: '0', nationalLength: [8, 9] },
+};
+
+const DIGIT_WORDS: Record<string, string> = {
+  zero: '0', oh: '0', o: '0', nought: '0',
+  one: '1', two: '2', three: '3', four: '4', five: '5',
+  six: '6', seven: '7', eight: '8', nine: '9',
+};
+const REPEAT_WORDS: Record<string, number> = { double: 2, triple: 3 };
+
+/**
+ * Turns a number as a guest might say it ("oh-seven-nine double one...",
+ * "+44 (0)7911 123-456") into a plain string of digits with an optional
+ * leading "+". Returns null when anything other than digits is left.
+ */
+function toDigits(input: string): string | null {
+  const tokens = input.toLowerCase().replace(/\(0\)/g, '').match(/\+|[a-z]+|\d+/g) ?? [];
+  let out = '';
+  let repeat = 1;
+  for (const token of tokens) {
+    if (token === '+') {
+      if (out) return null;
+      out = '+';
+    } else if (/^\d+$/.test(token)) {
+      out += token[0].repeat(repeat) + token.slice(1);
+      repeat = 1;
+    } else if (REPEAT_WORDS[token]) {
+      repeat = REPEAT_WORDS[token];
+    } else if (DIGIT_WORDS[token]) {
+      out += DIGIT_WORDS[token].repeat(repeat);
+      repeat = 1;
+    } else {
+      return null;
+    }
+  }
+  return out;
+}
+
+/**
+ * Normalizes a phone number to E.164 (e.g. "+447911123456"), reading
+ * national numbers as belonging to `country`. Returns null when the number
+ * can't be a valid phone number.
+ */
+export function normalizePhoneNumber(input: string, country: string): string | null {
+  const digits = toDigits(input);
+  if (!digits) return null;
+
+  let international: string;
+  if (digits.startsWith('+')) {
+    international = digits.slice(1);
+  } else if (digits.startsWith('00')) {
+    international = digits.slice(2);
+  } else {
+    const rule = PHONE_COUNTRIES[country];
+    if (!rule) return null;
+    let national = digits;
+    if (national.length > rule.nationalLength[1] && national.startsWith(rule.trunkPrefix)) {
+      national = national.slice(rule.trunkPrefix.length);
+    }
+    if (national.length < rule.nationalLength[0] || national.length > rule.nationalLength[1]) return null;
+    international = rule.callingCode + national;
+  }
+
+  // E.164 allows at most 15 digits; nothing shorter than 8 is dialable internationally
+  if (!/^[1-9]\d{7,14}$/.test(international)) return null;
+  return `+${international}`;
+}
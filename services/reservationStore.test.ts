@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ReservationRequest } from '../types';
+import { ReservationStore, confirmationPrefix } from './reservationStore';
+import { DEFAULT_PROFILE } from './restaurantProfiles';
+
+// Noon at the restaurant (America/New_York)
+const NOW = new Date('2026-10-18T16:00:00Z');
+
+const booking = (overrides: Partial<ReservationRequest> = {}): ReservationRequest => ({
+  partySize: 2,
+  date: '2026-10-20',
+  time: '19:00',
+  guestName: 'Sam Carter',
+  phone: '+12125550123',
+  ...overrides,
+});
+
+describe('ReservationStore', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('saves valid bookings under a confirmation code', () => {
+    const store = new ReservationStore(DEFAULT_PROFILE, null);
+
+    const { reservation, issues } = store.add(booking({ time: '7:30 pm', tableId: 'T1' }), NOW);
+
+    expect(issues).toEqual([]);
+    expect(reservation).toMatchObject({ date: '2026-10-20', time: '19:30', tableId: 'T1' });
+    expect(reservation?.id).toMatch(/^GS-[A-Z2-9]{4}$/);
+    expect(store.list()).toEqual([reservation]);
+  });
+
+  it('never hands out a confirmation code twice', () => {
+    const store = new ReservationStore(DEFAULT_PROFILE, null);
+    // The second booking draws the first one's code before a fresh one
+    const random = vi.spyOn(Math, 'random');
+    [0, 0, 0, 0, 0, 0, 0, 0, 0.5, 0.5, 0.5, 0.5].forEach(value => random.mockReturnValueOnce(value));
+
+    const first = store.add(booking(), NOW).reservation;
+    const second = store.add(booking({ time: '20:00' }), NOW).reservation;
+
+    expect(first?.id).toBe('GS-AAAA');
+    expect(second?.id).toBe('GS-SSSS');
+  });
+
+  it('starts codes with the restaurant prefix', () => {
+    const profile = { ...DEFAULT_PROFILE, name: 'Blue Olive Bistro', booking: { ...DEFAULT_PROFILE.booking, confirmationPrefix: 'OLV' } };
+    const store = new ReservationStore(profile, null);
+
+    expect(store.add(booking(), NOW).reservation?.id).toMatch(/^OLV-[A-Z2-9]{4}$/);
+    const unprefixed = { ...DEFAULT_PROFILE.booking, confirmationPrefix: undefined };
+    expect(confirmationPrefix({ ...profile, booking: unprefixed, name: 'The Café Nour' })).toBe('CN');
+  });
+
+  it('rejects bookings that break the restaurant rules', () => {
+    const store = new ReservationStore(DEFAULT_PROFILE, null);
+
+    const codes = (request: ReservationRequest) => store.add(request, NOW).issues.map(issue => issue.code);
+
+    expect(codes(booking({ partySize: 0 }))).toEqual(['invalid_party_size']);
+    expect(codes(booking({ partySize: 40 }))).toEqual(['party_too_large']);
+    expect(codes(booking({ date: '2026-10-17' }))).toEqual(['date_in_past']);
+    expect(codes(booking({ date: '2026-13-01' }))).toEqual(['invalid_date']);
+    expect(codes(booking({ time: '03:00' }))).toEqual(['outside_opening_hours']);
+    expect(codes(booking({ time: 'soonish' }))).toEqual(['invalid_time']);
+    expect(store.list()).toEqual([]);
+  });
+});
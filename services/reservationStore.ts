@@ -0,0 +1,103 @@
+import { KeyValueStorage, Reservation, ReservationRequest, RestaurantProfile } from '../types';
+import { ValidationIssue, validateReservation } from './reservationValidation';
+
+const STORAGE_PREFIX = 'golden-spice:reservations';
+
+/**
+ * A restaurant's book of confirmed bookings. The server holds the one
+ * shared instance per restaurant (see server/bookingDesk.ts); without
+ * storage it is kept in memory only.
+ */
+export class ReservationStore {
+  private reservations: Reservation[] = [];
+  private profile: RestaurantProfile;
+  private storage: KeyValueStorage | null;
+  private storageKey: string;
+
+  constructor(profile: RestaurantProfile, storage: KeyValueStorage | null = null) {
+    this.profile = profile;
+    this.storageKey = `${STORAGE_PREFIX}:${profile.id}`;
+    this.storage = storage;
+    this.load();
+  }
+
+  list(): Reservation[] {
+    return [...this.reservations];
+  }
+
+  findByDate(date: string): Reservation[] {
+    return this.reservations.filter(r => r.date === date);
+  }
+
+  /**
+   * Checks the booking against the restaurant's rules once more and saves
+   * it under a confirmation code no other booking has.
+   */
+  add(request: ReservationRequest, now: Date = new Date()): { reservation: Reservation | null; issues: ValidationIssue[] } {
+    const { request: valid, issues } = validateReservation({ ...request }, this.profile, now);
+    if (!valid) return { reservation: null, issues };
+
+    const prefix = confirmationPrefix(this.profile);
+    const taken = new Set(this.reservations.map(r => r.id));
+    let id = createConfirmationCode(prefix);
+    while (taken.has(id)) id = createConfirmationCode(prefix);
+
+    const reservation: Reservation = {
+      ...valid,
+      tableId: request.tableId,
+      id,
+      createdAt: now.toISOString(),
+    };
+    this.reservations = [...this.reservations, reservation];
+    this.save();
+    return { reservation, issues: [] };
+  }
+
+  private load() {
+    if (!this.storage) return;
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      this.reservations = raw ? JSON.parse(raw) : [];
+    } catch (e) {
+      console.warn('[ReservationStore] Failed to load reservations, starting empty', e);
+      this.reservations = [];
+    }
+  }
+
+  private save() {
+    if (!this.storage) return;
+    try {
+      this.storage.setItem(this.storageKey, JSON.stringify(this.reservations));
+    } catch (e) {
+      console.error('[ReservationStore] Failed to persist reservations', e);
+    }
+  }
+}
+
+/**
+ * The profile's code prefix, or the initials of the restaurant's name
+ * without a leading "The" ("The Golden Spice" -> "GS").
+ */
+export function confirmationPrefix(profile: RestaurantProfile): string {
+  if (profile.booking.confirmationPrefix) return profile.booking.confirmationPrefix;
+  const initials = profile.name
+    .replace(/^the\s+/i, '')
+    .split(/\s+/)
+    .map(word => word.normalize('NFD').replace(/[^A-Za-z]/g, '').charAt(0).toUpperCase())
+    .join('')
+    .slice(0, 4);
+  return initials || 'RES';
+}
+
+/**
+ * Short, speakable confirmation code (e.g. "GS-4K7Q").
+ * Ambiguous characters (0/O, 1/I) are left out so guests can read it back.
+ */
+function createConfirmationCode(prefix: string): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let code = '';
+  for (let i = 0; i < 4; i++) {
+    code += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return `${prefix}-${code}`;
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { RestaurantProfile } from '../types';
+import { ZonedNow } from '../utils/zonedTime';
+import { resolveDate, validateBookingDay, validateBookingSlot, validateReservation } from './reservationValidation';
+import { DEFAULT_PROFILE } from './restaurantProfiles';
+
+// Friday 16 October 2026, 22:00 in New York
+const NOW = new Date('2026-10-16T22:00:00-04:00');
+
+// Open 18:00 until 02:00, closed on Mondays
+const LATE_NIGHT: RestaurantProfile = {
+  ...DEFAULT_PROFILE,
+  timezone: 'America/New_York',
+  openingHours: [{ days: ['tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'], open: '18:00', close: '02:00' }],
+  booking: { ...DEFAULT_PROFILE.booking, minPartySize: 2, maxPartySize: 8, maxDaysAhead: 30 },
+};
+
+const codes = (issues: { code: string }[]) => issues.map(issue => issue.code);
+
+describe('resolveDate', () => {
+  const today: ZonedNow = { date: '2026-10-16', minutes: 22 * 60, weekday: 5 };
+
+  it('resolves relative days', () => {
+    expect(resolveDate('today', today)).toBe('2026-10-16');
+    expect(resolveDate('Tonight', today)).toBe('2026-10-16');
+    expect(resolveDate('tomorrow evening', today)).toBe('2026-10-17');
+    expect(resolveDate('the day after tomorrow', today)).toBe('2026-10-18');
+    expect(resolveDate('in 3 days', today)).toBe('2026-10-19');
+    expect(resolveDate('in a week', today)).toBe('2026-10-23');
+  });
+
+  it('resolves weekdays, with "next" skipping today', () => {
+    expect(resolveDate('Friday', today)).toBe('2026-10-16');
+    expect(resolveDate('next Friday', today)).toBe('2026-10-23');
+    expect(resolveDate('next Monday', today)).toBe('2026-10-19');
+    expect(resolveDate('this Sunday', today)).toBe('2026-10-18');
+  });
+
+  it('passes dates through and rejects anything else', () => {
+    expect(resolveDate('2026-12-24', today)).toBe('2026-12-24');
+    expect(resolveDate('2026-02-30', today)).toBeNull();
+    expect(resolveDate('some day soon', today)).toBeNull();
+  });
+});
+
+describe('validateBookingDay', () => {
+  const day = (args: Record<string, unknown>) => validateBookingDay({ partySize: 4, date: 'tomorrow', ...args }, LATE_NIGHT, NOW);
+
+  it('accepts a party on an open day', () => {
+    expect(day({})).toEqual({ day: { partySize: 4, date: '2026-10-17' }, issues: [] });
+  });
+
+  it('flags the party size', () => {
+    expect(codes(day({ partySize: 'a few' }).issues)).toEqual(['invalid_party_size']);
+    expect(codes(day({ partySize: 1 }).issues)).toEqual(['party_too_small']);
+    expect(codes(day({ partySize: 9 }).issues)).toEqual(['party_too_large']);
+  });
+
+  it('flags the date', () => {
+    expect(codes(day({ date: 'whenever' }).issues)).toEqual(['invalid_date']);
+    expect(codes(day({ date: '2026-10-15' }).issues)).toEqual(['date_in_past']);
+    expect(codes(day({ date: 'in 31 days' }).issues)).toEqual(['date_too_far']);
+    expect(codes(day({ date: 'Monday' }).issues)).toEqual(['closed']);
+  });
+});
+
+describe('validateBookingSlot', () => {
+  const slot = (time: string) => validateBookingSlot({ partySize: 2, date: 'today', time }, LATE_NIGHT, NOW);
+
+  it('flags times it cannot read or that are outside the hours', () => {
+    expect(codes(slot('sevenish').issues)).toEqual(['invalid_time']);
+    expect(codes(slot('16:00').issues)).toEqual(['outside_opening_hours']);
+  });
+
+  it('flags times that have passed today', () => {
+    expect(codes(slot('21:00').issues)).toEqual(['time_in_past']);
+    expect(codes(slot('22:00').issues)).toEqual(['time_in_past']);
+  });
+
+  it('takes tonight\'s slots after midnight', () => {
+    expect(slot('00:30')).toEqual({ slot: { partySize: 2, date: '2026-10-16', time: '00:30' }, issues: [] });
+  });
+});
+
+describe('validateReservation', () => {
+  const reservation = (args: Record<string, unknown>) => validateReservation({
+    partySize: 2, date: 'tomorrow', time: '7:30 pm', guestName: 'Ada Byron', phone: '(212) 555-0142', ...args,
+  }, LATE_NIGHT, NOW);
+
+  it('normalizes the time and phone number', () => {
+    expect(reservation({ notes: 'Window seat' }).request).toEqual({
+      partySize: 2,
+      date: '2026-10-17',
+      time: '19:30',
+      guestName: 'Ada Byron',
+      phone: '+12125550142',
+      notes: 'Window seat',
+    });
+  });
+
+  it('flags a missing name and an invalid phone number', () => {
+    const { request, issues } = reservation({ guestName: '  ', phone: '555' });
+
+    expect(request).toBeNull();
+    expect(codes(issues)).toEqual(['missing_name', 'invalid_phone']);
+  });
+});
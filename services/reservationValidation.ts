@@ -0,0 +1,178 @@
+import { ReservationRequest, RestaurantProfile } from '../types';
+import {
+  WEEKDAYS,
+  ZonedNow,
+  addDays,
+  daysBetween,
+  formatMinutes,
+  isValidDate,
+  nowInTimeZone,
+  weekdayOf,
+} from '../utils/zonedTime';
+import { describeWindows, getOpeningSchedule, parseTime, serviceMinutes } from './openingHours';
+import { normalizePhoneNumber } from './phoneNumbers';
+
+export type ReservationField = 'partySize' | 'date' | 'time' | 'guestName' | 'phone';
+
+/**
+ * One problem with the booking details, phrased for the agent so it can ask
+ * the guest to correct it.
+ */
+export interface ValidationIssue {
+  field: ReservationField;
+  code: string;
+  message: string;
+}
+
+export interface BookingDay {
+  partySize: number;
+  date: string; // YYYY-MM-DD in the restaurant's timezone
+}
+
+export interface BookingSlot extends BookingDay {
+  time: string; // HH:mm (24h)
+}
+
+/**
+ * Resolves a date as the guest said it ("today", "tomorrow", "next Friday",
+ * "in 3 days" or YYYY-MM-DD) against today's date at the restaurant.
+ * A bare weekday means the next one, today included; "next" skips today.
+ */
+export function resolveDate(input: string, today: ZonedNow): string | null {
+  const text = input.trim().toLowerCase().replace(/[,.]/g, '').replace(/\s+/g, ' ');
+  if (isValidDate(text)) return text;
+
+  const withoutPartOfDay = text.replace(/ (night|evening|afternoon|morning|lunchtime)$/, '');
+  if (text === 'tonight' || withoutPartOfDay === 'today' || withoutPartOfDay === 'this') return today.date;
+  if (withoutPartOfDay === 'tomorrow') return addDays(today.date, 1);
+  if (withoutPartOfDay === 'day after tomorrow' || withoutPartOfDay === 'the day after tomorrow') {
+    return addDays(today.date, 2);
+  }
+  if (text === 'in a week') return addDays(today.date, 7);
+
+  const inDays = text.match(/^in (\d+) days?$/);
+  if (inDays) return addDays(today.date, Number(inDays[1]));
+
+  const weekday = withoutPartOfDay.match(/^(?:(this|next|on) )?([a-z]+)$/);
+  const target = weekday ? WEEKDAYS.indexOf(weekday[2] as typeof WEEKDAYS[number]) : -1;
+  if (weekday && target >= 0) {
+    let offset = (target - today.weekday + 7) % 7;
+    if (weekday[1] === 'next' && offset === 0) offset = 7;
+    return addDays(today.date, offset);
+  }
+  return null;
+}
+
+/**
+ * Checks party size and date against the restaurant's rules. Relative dates
+ * are resolved in the restaurant's timezone.
+ */
+export function validateBookingDay(
+  args: Record<string, unknown>,
+  profile: RestaurantProfile,
+  now: Date = new Date()
+): { day: BookingDay | null; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const { minPartySize, maxPartySize, maxDaysAhead } = profile.booking;
+  const today = nowInTimeZone(profile.timezone, now);
+
+  const partySize = Number(args.partySize);
+  if (!Number.isInteger(partySize) || partySize < 1) {
+    issues.push({ field: 'partySize', code: 'invalid_party_size', message: 'Ask how many guests the table is for.' });
+  } else if (partySize < minPartySize) {
+    issues.push({ field: 'partySize', code: 'party_too_small', message: `Bookings are for at least ${minPartySize} guests.` });
+  } else if (partySize > maxPartySize) {
+    issues.push({
+      field: 'partySize',
+      code: 'party_too_large',
+      message: `We can book at most ${maxPartySize} guests by phone. Suggest larger groups contact the restaurant directly.`,
+    });
+  }
+
+  const date = resolveDate(String(args.date ?? ''), today);
+  const schedule = getOpeningSchedule(profile);
+  if (!schedule) {
+    // Never guess when the venue is open
+    issues.push({ field: 'date', code: 'hours_unknown', message: 'Bookings cannot be taken right now. Apologise and suggest the guest contacts the restaurant directly.' });
+  } else if (!date) {
+    issues.push({ field: 'date', code: 'invalid_date', message: `Could not understand the date "${args.date ?? ''}". Ask the guest for the day again.` });
+  } else if (date < today.date) {
+    issues.push({ field: 'date', code: 'date_in_past', message: `${date} has already passed. Today is ${today.date}.` });
+  } else if (daysBetween(today.date, date) > maxDaysAhead) {
+    issues.push({ field: 'date', code: 'date_too_far', message: `We only take bookings up to ${maxDaysAhead} days ahead, until ${addDays(today.date, maxDaysAhead)}.` });
+  } else if (schedule[weekdayOf(date)].length === 0) {
+    issues.push({ field: 'date', code: 'closed', message: `We are closed on ${WEEKDAYS[weekdayOf(date)]}s.` });
+  }
+
+  if (issues.length > 0 || !date) return { day: null, issues };
+  return { day: { partySize, date }, issues };
+}
+
+/**
+ * Checks party size, date and time against the restaurant's rules,
+ * including its opening hours on that day.
+ */
+export function validateBookingSlot(
+  args: Record<string, unknown>,
+  profile: RestaurantProfile,
+  now: Date = new Date()
+): { slot: BookingSlot | null; issues: ValidationIssue[] } {
+  const { day, issues } = validateBookingDay(args, profile, now);
+  const today = nowInTimeZone(profile.timezone, now);
+
+  const minutes = parseTime(String(args.time ?? ''));
+  const schedule = getOpeningSchedule(profile);
+  // After-midnight times count from the date's midnight, past 24:00
+  const inService = minutes !== null && day && schedule ? serviceMinutes(schedule, day.date, minutes) : null;
+  if (minutes === null) {
+    issues.push({ field: 'time', code: 'invalid_time', message: `Could not understand the time "${args.time ?? ''}". Ask the guest for the time again.` });
+  } else if (day && schedule && inService === null) {
+    issues.push({
+      field: 'time',
+      code: 'outside_opening_hours',
+      message: `On ${WEEKDAYS[weekdayOf(day.date)]} we take bookings ${describeWindows(schedule[weekdayOf(day.date)])}.`,
+    });
+  } else if (day?.date === today.date && inService !== null && inService <= today.minutes) {
+    issues.push({ field: 'time', code: 'time_in_past', message: `It is already ${formatMinutes(today.minutes)} here. Ask for a later time.` });
+  }
+
+  if (!day || minutes === null || issues.length > 0) return { slot: null, issues };
+  return { slot: { ...day, time: formatMinutes(minutes) }, issues };
+}
+
+/**
+ * Validates and normalizes everything needed to finalize a booking: the
+ * slot, the guest's name and a phone number in E.164.
+ */
+export function validateReservation(
+  args: Record<string, unknown>,
+  profile: RestaurantProfile,
+  now: Date = new Date()
+): { request: ReservationRequest | null; issues: ValidationIssue[] } {
+  const { slot, issues } = validateBookingSlot(args, profile, now);
+
+  const guestName = String(args.guestName ?? '').trim();
+  if (!guestName) {
+    issues.push({ field: 'guestName', code: 'missing_name', message: 'Ask which name the booking should be under.' });
+  }
+
+  const phone = normalizePhoneNumber(String(args.phone ?? ''), profile.phoneCountry);
+  if (!phone) {
+    issues.push({
+      field: 'phone',
+      code: 'invalid_phone',
+      message: `"${args.phone ?? ''}" is not a valid phone number. Ask the guest to repeat it, including the country code if it is not a ${profile.phoneCountry} number.`,
+    });
+  }
+
+  if (!slot || issues.length > 0) return { request: null, issues };
+  return {
+    request: {
+      ...slot,
+      guestName,
+      phone,
+      notes: args.notes ? String(args.notes) : undefined,
+    },
+    issues,
+  };
+}
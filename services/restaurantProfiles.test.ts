@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { validateBookingSlot } from './reservationValidation';
+import { DEFAULT_PROFILE, validateRestaurantProfile } from './restaurantProfiles';
+
+describe('validateRestaurantProfile', () => {
+  it('accepts the bundled profile', () => {
+    expect(validateRestaurantProfile(DEFAULT_PROFILE).errors).toEqual([]);
+  });
+
+  it('rejects hours it cannot read instead of leaving them unenforced', () => {
+    const { openingHours, ...withoutSchedule } = DEFAULT_PROFILE;
+    const raw = { ...withoutSchedule, hours: 'Lunch and dinner, closed Mondays' };
+
+    const { profile, errors } = validateRestaurantProfile(raw);
+
+    expect(profile).toBeNull();
+    expect(errors).toEqual(['hours "Lunch and dinner, closed Mondays" could not be read; add structured openingHours']);
+    // A profile that skipped loading still takes no bookings
+    const { slot, issues } = validateBookingSlot({ partySize: 2, date: 'tomorrow', time: '19:00' }, raw);
+    expect(slot).toBeNull();
+    expect(issues.map(issue => issue.code)).toContain('hours_unknown');
+  });
+});
@@ -0,0 +1,136 @@
+import { RestaurantProfile } from '../types';
+import { RESTAURANT_CONFIGS } from '../restaurants';
+import { Schema, validateSchema } from '../utils/schema';
+import { WEEKDAYS, isValidTimeZone } from '../utils/zonedTime';
+import { LANGUAGES } from './languages';
+import { getOpeningSchedule } from './openingHours';
+import { PHONE_COUNTRIES } from './phoneNumbers';
+
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Schema every restaurant JSON config must satisfy.
+ * Keep in sync with the RestaurantProfile type.
+ */
+export const PROFILE_SCHEMA: Schema = {
+  id: { type: 'string', pattern: /^[a-z0-9]+(-[a-z0-9]+)*$/ },
+  name: { type: 'string' },
+  cuisine: { type: 'string' },
+  hours: { type: 'string' },
+  openingHours: {
+    type: 'object[]',
+    optional: true,
+    minItems: 1,
+    fields: {
+      days: { type: 'enum[]', values: WEEKDAYS, minItems: 1 },
+      open: { type: 'string', pattern: HH_MM },
+      close: { type: 'string', pattern: HH_MM },
+    },
+  },
+  location: { type: 'string' },
+  specialties: { type: 'string' },
+  seatingCapacity: { type: 'number', min: 1 },
+  tables: {
+    type: 'object[]',
+    minItems: 1,
+    fields: {
+      id: { type: 'string' },
+      seats: { type: 'number', min: 1 },
+    },
+  },
+  timezone: { type: 'string' },
+  phoneCountry: { type: 'enum', values: Object.keys(PHONE_COUNTRIES) },
+  booking: {
+    type: 'object',
+    fields: {
+      minPartySize: { type: 'number', min: 1 },
+      maxPartySize: { type: 'number', min: 1 },
+      maxDaysAhead: { type: 'number', min: 0 },
+      slotMinutes: { type: 'number', min: 5 },
+      turnMinutes: {
+        type: 'object[]',
+        minItems: 1,
+        fields: {
+          maxPartySize: { type: 'number', min: 1 },
+          minutes: { type: 'number', min: 15 },
+        },
+      },
+      // Read out to guests, so kept short and unambiguous
+      confirmationPrefix: { type: 'string', pattern: /^[A-Z]{1,4}$/, optional: true },
+    },
+  },
+  persona: {
+    type: 'object',
+    fields: {
+      name: { type: 'string' },
+      voice: { type: 'string' },
+    },
+  },
+  languages: { type: 'enum[]', values: LANGUAGES.map(l => l.code), minItems: 1 },
+};
+
+/**
+ * Validates a raw config. Returns the typed profile, or the list of problems.
+ */
+export function validateRestaurantProfile(raw: unknown): { profile: RestaurantProfile | null; errors: string[] } {
+  const errors = validateSchema(raw, PROFILE_SCHEMA);
+  if (errors.length === 0) {
+    const profile = raw as RestaurantProfile;
+    const { timezone, booking, tables } = profile;
+    if (!isValidTimeZone(timezone)) errors.push(`timezone "${timezone}" is not a known IANA timezone`);
+    if (booking.minPartySize > booking.maxPartySize) errors.push('booking.minPartySize must not exceed booking.maxPartySize');
+    if (Math.max(...tables.map(t => t.seats)) < booking.maxPartySize) {
+      errors.push('booking.maxPartySize must fit at the largest table');
+    }
+    if (Math.max(...booking.turnMinutes.map(t => t.maxPartySize)) < booking.maxPartySize) {
+      errors.push('booking.turnMinutes must cover parties up to booking.maxPartySize');
+    }
+    if (new Set(tables.map(t => t.id)).size !== tables.length) errors.push('tables must have unique ids');
+    if (!getOpeningSchedule(profile)) {
+      errors.push(`hours "${profile.hours}" could not be read; add structured openingHours`);
+    }
+  }
+  return { profile: errors.length === 0 ? (raw as RestaurantProfile) : null, errors };
+}
+
+function loadProfiles(): RestaurantProfile[] {
+  const profiles: RestaurantProfile[] = [];
+  for (const raw of RESTAURANT_CONFIGS) {
+    const { profile, errors } = validateRestaurantProfile(raw);
+    if (!profile) {
+      const id = (raw as { id?: unknown })?.id ?? 'unknown';
+      console.error(`[RestaurantProfiles] Skipping invalid profile "${id}":`, errors);
+      continue;
+    }
+    if (profiles.some(p => p.id === profile.id)) {
+      console.error(`[RestaurantProfiles] Skipping duplicate profile id "${profile.id}"`);
+      continue;
+    }
+    profiles.push(profile);
+  }
+  if (profiles.length === 0) {
+    throw new Error('No valid restaurant profiles found in restaurants/');
+  }
+  return profiles;
+}
+
+export const RESTAURANT_PROFILES: RestaurantProfile[] = loadProfiles();
+export const DEFAULT_PROFILE: RestaurantProfile = RESTAURANT_PROFILES[0];
+
+export function getProfile(id: string | null | undefined): RestaurantProfile | undefined {
+  return RESTAURANT_PROFILES.find(p => p.id === id);
+}
+
+/**
+ * Picks the profile for the current page: `/r/<id>` or `?restaurant=<id>`,
+ * falling back to the default profile.
+ */
+export function selectProfileFromLocation(location: Pick<Location, 'pathname' | 'search'>): RestaurantProfile {
+  const pathMatch = location.pathname.match(/^\/r\/([^/]+)/);
+  const requested = pathMatch?.[1] ?? new URLSearchParams(location.search).get('restaurant');
+  const profile = getProfile(requested);
+  if (requested && !profile) {
+    console.warn(`[RestaurantProfiles] Unknown restaurant "${requested}", using "${DEFAULT_PROFILE.id}"`);
+  }
+  return profile ?? DEFAULT_PROFILE;
+}
@@ -0,0 +1,49 @@
+import { SessionLimits } from './sessionLimits';
+
+export interface SessionCredentials {
+  token: string;
+  sessionId: string;
+  expiresAt: string;
+  // Call limits configured for this deployment (older servers omit them)
+  limits?: SessionLimits;
+}
+
+// Same-origin by default; the embeddable widget points this at our server
+export const DEFAULT_API_BASE = '/api';
+
+/**
+ * Asks our backend for a short-lived, single-use Live API token.
+ * The real API key never leaves the server. Passing the call's `sessionId`
+ * renews its lease instead of starting a new one.
+ */
+export async function fetchSessionCredentials(apiBase = DEFAULT_API_BASE, sessionId?: string): Promise<SessionCredentials> {
+  let response: Response;
+  try {
+    response = await fetch(`${apiBase}/session`, {
+      method: 'POST',
+      ...(sessionId ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ sessionId }) } : {}),
+    });
+  } catch {
+    throw new Error('Could not reach the reservation server. Please check your connection.');
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.message ?? `Session request failed (${response.status})`);
+  }
+  return body as SessionCredentials;
+}
+
+/**
+ * Tells the backend a session has ended so it frees the slot immediately.
+ * Best-effort: leases also expire on their own.
+ */
+export function releaseSession(sessionId: string, apiBase = DEFAULT_API_BASE) {
+  const payload = JSON.stringify({ sessionId });
+  if (typeof navigator !== 'undefined' && navigator.sendBeacon) {
+    // text/plain keeps this a simple request, so it also works cross-origin
+    navigator.sendBeacon(`${apiBase}/session/release`, new Blob([payload], { type: 'text/plain;charset=UTF-8' }));
+    return;
+  }
+  fetch(`${apiBase}/session/release`, { method: 'POST', body: payload, keepalive: true }).catch(() => {});
+}
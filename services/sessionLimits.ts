@@ -0,0 +1,121 @@
+import { UsageMetadata } from '@google/genai';
+
+/**
+ * Per-deployment call limits, in seconds. 0 disables a limit.
+ */
+export interface SessionLimits {
+  // Hard cap on the length of a call
+  maxSessionSeconds: number;
+  // End the call after this long with nobody talking
+  idleTimeoutSeconds: number;
+  // How far ahead of either limit the agent warns the guest
+  warningSeconds: number;
+}
+
+export const DEFAULT_SESSION_LIMITS: SessionLimits = {
+  maxSessionSeconds: 0,
+  idleTimeoutSeconds: 0,
+  warningSeconds: 30,
+};
+
+export type LimitReason = 'max-duration' | 'idle';
+
+// Why a call ended: the guest hung up, or a limit was reached
+export type SessionEndReason = 'hangup' | LimitReason;
+
+export type LimitAction =
+  | { type: 'warn'; reason: LimitReason; secondsLeft: number }
+  | { type: 'end'; reason: LimitReason };
+
+/**
+ * Token counts and duration of a call. Tokens are summed over every
+ * usageMetadata message the server sent, across reconnects.
+ */
+export interface SessionUsage {
+  startedAt: number;
+  durationSec: number;
+  promptTokens: number;
+  responseTokens: number;
+  totalTokens: number;
+  // Set once the call has ended
+  endReason?: SessionEndReason;
+}
+
+export class UsageMeter {
+  private startedAt = Date.now();
+  private promptTokens = 0;
+  private responseTokens = 0;
+  private totalTokens = 0;
+
+  add(usage: UsageMetadata) {
+    this.promptTokens += usage.promptTokenCount ?? 0;
+    this.responseTokens += usage.responseTokenCount ?? 0;
+    this.totalTokens += usage.totalTokenCount ?? 0;
+  }
+
+  report(endReason?: SessionEndReason): SessionUsage {
+    return {
+      startedAt: this.startedAt,
+      durationSec: (Date.now() - this.startedAt) / 1000,
+      promptTokens: this.promptTokens,
+      responseTokens: this.responseTokens,
+      totalTokens: this.totalTokens,
+      endReason,
+    };
+  }
+}
+
+/**
+ * Counts call and idle time against the limits. Idle time only accrues while
+ * the agent is listening, so long answers don't count against the guest, and
+ * resets whenever the guest speaks, types or presses the talk button.
+ *
+ * Warnings are only issued while listening, so they never talk over anyone.
+ */
+export class SessionLimiter {
+  private elapsed = 0;
+  private idle = 0;
+  private warned = new Set<LimitReason>();
+
+  constructor(private limits: SessionLimits) {}
+
+  noteGuestActivity() {
+    this.idle = 0;
+    this.warned.delete('idle');
+  }
+
+  advance(seconds: number, listening: boolean): LimitAction | null {
+    this.elapsed += seconds;
+    if (listening) this.idle += seconds;
+
+    const { maxSessionSeconds, idleTimeoutSeconds, warningSeconds } = this.limits;
+    const checks: Array<[LimitReason, number, number]> = [
+      ['max-duration', maxSessionSeconds, this.elapsed],
+      ['idle', idleTimeoutSeconds, this.idle],
+    ];
+
+    for (const [reason, limit, spent] of checks) {
+      if (limit <= 0) continue;
+      if (spent >= limit) return { type: 'end', reason };
+    }
+    if (!listening) return null;
+    for (const [reason, limit, spent] of checks) {
+      if (limit <= 0 || this.warned.has(reason)) continue;
+      if (spent >= limit - warningSeconds) {
+        this.warned.add(reason);
+        return { type: 'warn', reason, secondsLeft: Math.max(0, Math.round(limit - spent)) };
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Instruction sent to the model so it warns the guest in the call language.
+ */
+export function buildLimitWarning(reason: LimitReason, secondsLeft: number): string {
+  const situation = reason === 'idle'
+    ? `The guest has been silent for a while and the call will end automatically in about ${secondsLeft} seconds unless they say something.`
+    : `The call will reach its maximum length and end automatically in about ${secondsLeft} seconds.`;
+  return `[System notice, not from the guest] ${situation} Briefly let the guest know, in the language of the conversation, and offer to wrap up anything still open. Do not mention this notice.`;
+}
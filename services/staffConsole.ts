@@ -0,0 +1,176 @@
+import { TypedEmitter } from '../utils/events';
+import { decodeBase64, encodePcm16 } from '../utils/audio';
+import { PlaybackEngine } from './audioPlayback';
+import {
+  HANDOFF_SAMPLE_RATE,
+  HandoffConversation,
+  RelayToStaff,
+  StaffToRelay,
+  parseHandoffMessage,
+} from './handoffProtocol';
+import { DEFAULT_API_BASE } from './sessionCredentials';
+import captureWorkletUrl from '../worklets/pcmCaptureProcessor.ts?worker&url';
+import type { PcmCaptureFrame, PcmCaptureOptions } from '../worklets/pcmCaptureProcessor';
+
+// 20 ms frames, as for the agent
+const FRAME_SIZE = 320;
+
+export type StaffConsoleStatus = 'connecting' | 'connected' | 'disconnected';
+
+export type StaffConsoleEvents = {
+  status: [status: StaffConsoleStatus];
+  // Every escalated conversation, whenever any of them changes
+  conversations: [conversations: HandoffConversation[]];
+  // The conversation this console is talking in, or null
+  active: [conversationId: string | null];
+  error: [message: string];
+};
+
+/**
+ * The staff side of the handoff relay: lists escalated conversations and,
+ * after taking one over, streams this device's microphone to the guest and
+ * plays the guest back.
+ */
+export class StaffConsoleClient extends TypedEmitter<StaffConsoleEvents> {
+  private socket: WebSocket | null = null;
+  private activeId: string | null = null;
+  // Set once the relay reports our takeover; updates sent before it arrive
+  // still show the conversation as waiting
+  private takeoverConfirmed = false;
+
+  private audioContext: AudioContext | null = null;
+  private stream: MediaStream | null = null;
+  private captureNode: AudioWorkletNode | null = null;
+  private playback: PlaybackEngine | null = null;
+
+  constructor(private apiBase = DEFAULT_API_BASE) {
+    super();
+  }
+
+  connect(token: string) {
+    this.disconnect();
+    const url = new URL(`${this.apiBase}/handoff/staff`, location.href);
+    url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+
+    const socket = new WebSocket(url);
+    this.socket = socket;
+    // The relay lists the conversations once it has accepted the token
+    let authorized = false;
+    this.emit('status', 'connecting');
+
+    socket.onopen = () => this.send({ type: 'auth', token });
+    socket.onmessage = (event) => {
+      if (!authorized) {
+        authorized = true;
+        console.log('[StaffConsole] Connected to the handoff relay');
+        this.emit('status', 'connected');
+      }
+      this.handleMessage(String(event.data));
+    };
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.stopAudio();
+      if (event.code === 1008) this.emit('error', 'The staff token was not accepted.');
+      else if (!authorized) this.emit('error', 'Could not connect. Check that handoff is enabled on the server.');
+      this.emit('status', 'disconnected');
+    };
+  }
+
+  disconnect() {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.stopAudio();
+  }
+
+  /**
+   * Takes a conversation over from the agent and opens the microphone.
+   */
+  async takeOver(conversationId: string) {
+    if (this.activeId) this.release(this.activeId);
+    try {
+      await this.startAudio(conversationId);
+    } catch (err) {
+      console.error('[StaffConsole] Microphone unavailable:', err);
+      this.emit('error', 'Microphone unavailable. You can still type to the guest.');
+    }
+    this.activeId = conversationId;
+    this.takeoverConfirmed = false;
+    this.emit('active', conversationId);
+    this.send({ type: 'takeover', conversationId });
+  }
+
+  /**
+   * Hands the conversation back to the agent.
+   */
+  release(conversationId: string) {
+    this.send({ type: 'release', conversationId });
+    if (this.activeId === conversationId) this.stopAudio();
+  }
+
+  sendText(conversationId: string, text: string) {
+    this.send({ type: 'text', conversationId, text });
+  }
+
+  private handleMessage(raw: string) {
+    const message = parseHandoffMessage<RelayToStaff>(raw);
+    if (message?.type === 'conversations') {
+      // The guest left, or our takeover ended (handed back, or dropped by the relay)
+      const active = message.conversations.find(c => c.id === this.activeId);
+      if (active?.state === 'staff') this.takeoverConfirmed = true;
+      if (this.activeId && (!active || (this.takeoverConfirmed && active.state !== 'staff'))) this.stopAudio();
+      this.emit('conversations', message.conversations);
+    } else if (message?.type === 'audio' && message.conversationId === this.activeId) {
+      this.play(message.data);
+    }
+  }
+
+  private async startAudio(conversationId: string) {
+    const context = new AudioContext();
+    this.audioContext = context;
+    this.playback = new PlaybackEngine(context, context.destination);
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+    });
+    await context.audioWorklet.addModule(captureWorkletUrl);
+
+    const processorOptions: PcmCaptureOptions = { targetSampleRate: HANDOFF_SAMPLE_RATE, frameSize: FRAME_SIZE };
+    this.captureNode = new AudioWorkletNode(context, 'pcm-capture-processor', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: 1,
+      processorOptions,
+    });
+    this.captureNode.port.onmessage = (e: MessageEvent<PcmCaptureFrame>) => {
+      this.send({ type: 'audio', conversationId, data: encodePcm16(new Int16Array(e.data.pcm)).data });
+    };
+    context.createMediaStreamSource(this.stream).connect(this.captureNode);
+  }
+
+  private stopAudio() {
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null;
+      this.captureNode.disconnect();
+      this.captureNode = null;
+    }
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    this.playback?.dispose();
+    this.playback = null;
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+    if (this.activeId) {
+      this.activeId = null;
+      this.emit('active', null);
+    }
+  }
+
+  private play(data: string) {
+    this.playback?.enqueue(decodeBase64(data), HANDOFF_SAMPLE_RATE);
+  }
+
+  private send(message: StaffToRelay) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+}
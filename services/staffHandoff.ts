@@ -0,0 +1,138 @@
+import { TypedEmitter } from '../utils/events';
+import { CallTurn, MAX_CALL_TURNS } from './callHistory';
+import { GuestToRelay, HandoffReason, HandoffState, RelayToGuest, parseHandoffMessage } from './handoffProtocol';
+import { DEFAULT_API_BASE } from './sessionCredentials';
+
+// How long the relay has to accept an escalation before we give up
+const QUEUE_TIMEOUT_MS = 5000;
+
+// Tells the agent it has the conversation again; not shown to the guest
+export const HANDBACK_NOTICE = '[System notice, not from the guest] A member of staff spoke with the guest directly and has handed the conversation back to you. Ask the guest whether there is anything else you can help with.';
+
+export interface EscalationRequest {
+  restaurantId: string;
+  reason: HandoffReason;
+  summary: string;
+  turns: CallTurn[];
+}
+
+export type StaffHandoffEvents = {
+  state: [state: HandoffState];
+  // Base64 16 kHz PCM16 from the member of staff
+  audio: [data: string];
+  // A message staff typed to the guest
+  text: [text: string];
+  // The relay connection dropped after the escalation was queued
+  closed: [];
+};
+
+/**
+ * WebSocket URL of the guest side of the handoff relay, next to our API.
+ */
+export function handoffUrlFor(apiBase = DEFAULT_API_BASE): string | null {
+  if (typeof location === 'undefined' || typeof WebSocket === 'undefined') return null;
+  const url = new URL(`${apiBase}/handoff/guest`, location.href);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return url.toString();
+}
+
+// Turns up to the first one still being spoken; later ones wait for it
+const finishedTurns = (turns: CallTurn[]) => {
+  const streaming = turns.findIndex(turn => turn.status === 'streaming');
+  return streaming === -1 ? turns : turns.slice(0, streaming);
+};
+
+/**
+ * The guest's side of an escalated conversation: queues it on the relay,
+ * keeps staff's copy of the transcript current and carries audio both ways
+ * once a member of staff takes over.
+ */
+export class StaffHandoff extends TypedEmitter<StaffHandoffEvents> {
+  private socket: WebSocket | null = null;
+  // The latest transcript, and how many of its finished turns the relay has
+  private turns: CallTurn[] = [];
+  private sentTurns = 0;
+
+  constructor(private url: string) {
+    super();
+  }
+
+  /**
+   * Resolves once the relay has queued the conversation for staff.
+   */
+  escalate(request: EscalationRequest): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      this.socket = socket;
+      this.turns = request.turns;
+      let queued = false;
+
+      const fail = (message: string) => {
+        clearTimeout(timer);
+        if (this.socket === socket) this.close();
+        reject(new Error(message));
+      };
+      const timer = setTimeout(() => fail('The staff relay did not respond'), QUEUE_TIMEOUT_MS);
+
+      socket.onopen = () => {
+        const turns = finishedTurns(this.turns);
+        this.sentTurns = turns.length;
+        this.send({ type: 'escalate', ...request, turns: turns.slice(-MAX_CALL_TURNS) });
+      };
+      socket.onmessage = (event) => {
+        const message = parseHandoffMessage<RelayToGuest>(String(event.data));
+        switch (message?.type) {
+          case 'queued':
+            queued = true;
+            clearTimeout(timer);
+            this.emit('state', 'waiting');
+            resolve();
+            break;
+          case 'state':
+            this.emit('state', message.state);
+            break;
+          case 'audio':
+            this.emit('audio', message.data);
+            break;
+          case 'text':
+            this.emit('text', message.text);
+            break;
+        }
+      };
+      socket.onclose = () => {
+        if (!queued) {
+          fail('Could not reach the staff relay');
+        } else if (this.socket === socket) {
+          this.socket = null;
+          this.emit('closed');
+        }
+      };
+    });
+  }
+
+  /**
+   * Sends staff the turns that finished since the last update.
+   */
+  updateTranscript(turns: CallTurn[]) {
+    this.turns = turns;
+    const finished = finishedTurns(turns);
+    if (finished.length <= this.sentTurns) return;
+    if (this.send({ type: 'transcript', turns: finished.slice(this.sentTurns) })) this.sentTurns = finished.length;
+  }
+
+  sendAudio(data: string) {
+    this.send({ type: 'audio', data });
+  }
+
+  close() {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+  }
+
+  private send(message: GuestToRelay): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { ToolHandler, executeToolCall } from './tools';
+
+describe('executeToolCall', () => {
+  const handlers: Record<string, ToolHandler> = {
+    echo: async (args) => ({ said: args.text }),
+  };
+
+  it('runs the named handler', async () => {
+    expect(await executeToolCall({ id: 'call-1', name: 'echo', args: { text: 'hi' } }, handlers))
+      .toEqual({ id: 'call-1', name: 'echo', response: { output: { said: 'hi' } } });
+  });
+
+  it('treats names from the object prototype as unknown tools', async () => {
+    for (const name of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      expect(await executeToolCall({ id: 'call-2', name }, handlers))
+        .toEqual({ id: 'call-2', name, response: { error: `Unknown tool: ${name}` } });
+    }
+  });
+});
@@ -0,0 +1,227 @@
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Type } from '@google/genai';
+import { ALLERGENS, Allergen, DIETARY_TAGS, DietaryTag, Menu, RestaurantProfile } from '../types';
+import { HANDOFF_REASONS } from './handoffProtocol';
+import { WEEKDAYS, weekdayOf } from '../utils/zonedTime';
+import { AlternativeSlot, AvailabilityEngine } from './availability';
+import { queryMenu } from './menu';
+import { ReservationStore } from './reservationStore';
+import { ValidationIssue, validateBookingDay, validateBookingSlot, validateReservation } from './reservationValidation';
+
+export type ToolArgs = Record<string, unknown>;
+export type ToolResult = Record<string, unknown>;
+export type ToolHandler = (args: ToolArgs) => ToolResult | Promise<ToolResult>;
+
+// Tools that read or write the shared reservation book, answered by the server
+export const BOOKING_TOOLS = ['check_availability', 'find_available_times', 'create_reservation'] as const;
+export type BookingTool = typeof BOOKING_TOOLS[number];
+export type BookingHandlers = Record<BookingTool, ToolHandler>;
+
+export function isBookingTool(name: string): name is BookingTool {
+  return (BOOKING_TOOLS as readonly string[]).includes(name);
+}
+
+/**
+ * Function declarations exposed to the Live session.
+ */
+export const TOOL_DECLARATIONS: FunctionDeclaration[] = [
+  {
+    name: 'check_availability',
+    description: 'Checks whether a table for the given party size is free at the requested date and time. When it is not, returns the nearest free alternatives.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        partySize: { type: Type.INTEGER, description: 'Number of guests.' },
+        date: { type: Type.STRING, description: 'Reservation date as YYYY-MM-DD, or as the guest said it, e.g. "tomorrow" or "next Friday".' },
+        time: { type: Type.STRING, description: 'Reservation time as a clock time, e.g. "19:30" or "7:30 pm". Convert spoken times such as "half seven" or "quarter to eight" yourself, with am/pm or in 24-hour time.' },
+      },
+      required: ['partySize', 'date', 'time'],
+    },
+  },
+  {
+    name: 'find_available_times',
+    description: 'Lists the times a table for the given party size is still free on a date. Use it when the guest asks what is available.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        partySize: { type: Type.INTEGER, description: 'Number of guests.' },
+        date: { type: Type.STRING, description: 'Date as YYYY-MM-DD, or as the guest said it, e.g. "tomorrow" or "next Friday".' },
+      },
+      required: ['partySize', 'date'],
+    },
+  },
+  {
+    name: 'create_reservation',
+    description: 'Books a table once the guest has confirmed all details. Returns a confirmation code.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        partySize: { type: Type.INTEGER, description: 'Number of guests.' },
+        date: { type: Type.STRING, description: 'Reservation date as YYYY-MM-DD, or as the guest said it, e.g. "tomorrow" or "next Friday".' },
+        time: { type: Type.STRING, description: 'Reservation time as a clock time, e.g. "19:30" or "7:30 pm". Convert spoken times such as "half seven" or "quarter to eight" yourself, with am/pm or in 24-hour time.' },
+        guestName: { type: Type.STRING, description: 'Name the booking is under.' },
+        phone: { type: Type.STRING, description: 'Contact phone number, digits as the guest gave them.' },
+        notes: { type: Type.STRING, description: 'Optional requests such as high chairs or occasions.' },
+      },
+      required: ['partySize', 'date', 'time', 'guestName', 'phone'],
+    },
+  },
+  {
+    name: 'lookup_menu',
+    description: 'Searches the menu for dishes and drinks, with prices, allergens, dietary tags and portion sizes. Call with no arguments to list everything.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        search: { type: Type.STRING, description: 'Free text to match against dish names and descriptions, e.g. "lamb".' },
+        category: { type: Type.STRING, description: 'Menu section, e.g. "Starters", "Mains", "Desserts", "Drinks".' },
+        dietary: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING, enum: [...DIETARY_TAGS] },
+          description: 'Only return items that carry all of these tags.',
+        },
+        excludeAllergens: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING, enum: [...ALLERGENS] },
+          description: 'Only return items that contain none of these allergens.',
+        },
+        maxPrice: { type: Type.NUMBER, description: 'Maximum price in the menu currency.' },
+      },
+    },
+  },
+];
+
+/**
+ * Declared only when a staff handoff relay is available; handled by the
+ * service that owns the guest's connection, see services/staffHandoff.ts.
+ */
+export const ESCALATE_TOOL_DECLARATION: FunctionDeclaration = {
+  name: 'escalate_to_staff',
+  description: 'Asks a member of staff to join the conversation and speak with the guest directly.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      reason: { type: Type.STRING, enum: [...HANDOFF_REASONS], description: 'Why staff are needed.' },
+      summary: { type: Type.STRING, description: 'One or two sentences for staff: who the guest is and what they need.' },
+    },
+    required: ['reason', 'summary'],
+  },
+};
+
+/**
+ * Tool result that hands validation problems back to the agent, so it can
+ * ask the guest to correct them instead of guessing.
+ */
+function correctionsNeeded(issues: ValidationIssue[]): ToolResult {
+  return {
+    error: 'Some booking details need correcting. Ask the guest about each issue, then try again.',
+    issues,
+  };
+}
+
+const withWeekdays = (slots: AlternativeSlot[]) =>
+  slots.map(slot => ({ ...slot, weekday: WEEKDAYS[weekdayOf(slot.date)] }));
+
+/**
+ * The booking tools against a restaurant's reservation book. Each handler
+ * runs synchronously, so a slot is checked and booked in one step. Only the
+ * server runs these; sessions reach them through services/bookingClient.ts.
+ */
+export function createBookingHandlers(store: ReservationStore, profile: RestaurantProfile): BookingHandlers {
+  const availability = new AvailabilityEngine(profile, store);
+
+  return {
+    check_availability: (args) => {
+      const { slot, issues } = validateBookingSlot(args, profile);
+      if (!slot) return correctionsNeeded(issues);
+      const { partySize, date, time } = slot;
+      const { available } = availability.check(partySize, date, time);
+      return {
+        available,
+        date,
+        weekday: WEEKDAYS[weekdayOf(date)],
+        time,
+        partySize,
+        ...(available ? {} : { alternatives: withWeekdays(availability.alternatives(partySize, date, time)) }),
+      };
+    },
+
+    find_available_times: (args) => {
+      const { day, issues } = validateBookingDay(args, profile);
+      if (!day) return correctionsNeeded(issues);
+      const { partySize, date } = day;
+      return { date, weekday: WEEKDAYS[weekdayOf(date)], partySize, times: availability.availableTimes(partySize, date) };
+    },
+
+    create_reservation: (args) => {
+      const { request, issues } = validateReservation(args, profile);
+      if (!request) return correctionsNeeded(issues);
+      const { tableId } = availability.check(request.partySize, request.date, request.time);
+      if (!tableId) {
+        return {
+          error: 'That time slot is no longer available.',
+          alternatives: withWeekdays(availability.alternatives(request.partySize, request.date, request.time)),
+        };
+      }
+      const { reservation, issues: rejected } = store.add({ ...request, tableId });
+      if (!reservation) return correctionsNeeded(rejected);
+      return {
+        confirmed: true,
+        confirmationCode: reservation.id,
+        date: reservation.date,
+        weekday: WEEKDAYS[weekdayOf(reservation.date)],
+        time: reservation.time,
+        partySize: reservation.partySize,
+        guestName: reservation.guestName,
+        phone: reservation.phone,
+      };
+    },
+  };
+}
+
+/**
+ * Builds the handlers that back each declared tool: the booking tools
+ * given, plus the menu, which is answered locally.
+ */
+export function createToolHandlers(bookings: BookingHandlers, menu: Menu | null): Record<string, ToolHandler> {
+  return {
+    ...bookings,
+
+    lookup_menu: (args) => {
+      if (!menu) {
+        return { error: 'The menu is not available right now.' };
+      }
+      const result = queryMenu(menu, {
+        search: args.search ? String(args.search) : undefined,
+        category: args.category ? String(args.category) : undefined,
+        dietary: Array.isArray(args.dietary) ? (args.dietary as DietaryTag[]) : undefined,
+        excludeAllergens: Array.isArray(args.excludeAllergens) ? (args.excludeAllergens as Allergen[]) : undefined,
+        // null or '' would otherwise become a limit of 0
+        maxPrice: args.maxPrice != null && args.maxPrice !== '' ? Number(args.maxPrice) : undefined,
+      });
+      return { ...result };
+    },
+  };
+}
+
+/**
+ * Runs a single function call against the handlers and wraps the outcome
+ * in the shape expected by `session.sendToolResponse`.
+ */
+export async function executeToolCall(
+  call: FunctionCall,
+  handlers: Record<string, ToolHandler>
+): Promise<FunctionResponse> {
+  const name = call.name ?? '';
+  // Names like "constructor" would otherwise reach Object.prototype
+  const handler = Object.hasOwn(handlers, name) ? handlers[name] : undefined;
+  if (!handler) {
+    return { id: call.id, name, response: { error: `Unknown tool: ${name}` } };
+  }
+
+  try {
+    const output = await handler(call.args ?? {});
+    return { id: call.id, name, response: output.error ? output : { output } };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Tool execution failed';
+    return { id: call.id, name, response: { error: message } };
+  }
+}
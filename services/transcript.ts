@@ -0,0 +1,122 @@
+import { MessageLog } from '../types';
+
+type Role = MessageLog['role'];
+
+/**
+ * Accumulates streaming transcription fragments into one turn per speaker.
+ *
+ * A user turn closes when the model starts answering; a model turn closes
+ * on `turnComplete`, or is marked interrupted when the guest barges in.
+ */
+export class TranscriptModel {
+  private turns: MessageLog[] = [];
+  private open: Partial<Record<Role, MessageLog>> = {};
+  private nextId = 1;
+
+  constructor(private onChange: (turns: MessageLog[]) => void) {}
+
+  appendFragment(role: Role, fragment: string) {
+    if (!fragment) return;
+
+    // The model answering means the guest has finished speaking
+    if (role === 'model') this.close('user', 'complete');
+
+    const current = this.open[role];
+    if (current) {
+      this.replace(current, { ...current, text: current.text + fragment });
+    } else {
+      const turn: MessageLog = {
+        id: `turn-${this.nextId++}`,
+        role,
+        text: fragment,
+        timestamp: new Date(),
+        status: 'streaming',
+      };
+      this.open[role] = turn;
+      this.turns = [...this.turns, turn];
+    }
+    this.emit();
+  }
+
+  /**
+   * Adds a message the guest typed. It is complete as soon as it is sent.
+   */
+  addTypedMessage(text: string) {
+    this.close('user', 'complete');
+    const now = new Date();
+    this.turns = [...this.turns, {
+      id: `turn-${this.nextId++}`,
+      role: 'user',
+      text,
+      timestamp: now,
+      endedAt: now,
+      status: 'complete',
+      channel: 'text',
+    }];
+    this.emit();
+  }
+
+  /**
+   * Adds a message typed by a member of staff who has taken over. It stands
+   * in for the agent's side and is complete as soon as it arrives.
+   */
+  addStaffMessage(text: string) {
+    this.close('user', 'complete');
+    this.close('model', 'complete');
+    const now = new Date();
+    this.turns = [...this.turns, {
+      id: `turn-${this.nextId++}`,
+      role: 'model',
+      text,
+      timestamp: now,
+      endedAt: now,
+      status: 'complete',
+      channel: 'staff',
+    }];
+    this.emit();
+  }
+
+  completeTurn() {
+    // After a barge-in the model turn is already closed and the guest may
+    // still be talking, so only end the guest's turn when the model answered
+    if (this.open.model) {
+      this.close('user', 'complete');
+      this.close('model', 'complete');
+    }
+    this.emit();
+  }
+
+  interrupt() {
+    this.close('model', 'interrupted');
+    this.emit();
+  }
+
+  /**
+   * Closes anything still streaming, e.g. when the session ends mid-sentence.
+   */
+  finalize() {
+    this.close('user', 'complete');
+    this.close('model', 'interrupted');
+    this.emit();
+  }
+
+  get history(): MessageLog[] {
+    return this.turns;
+  }
+
+  private close(role: Role, status: MessageLog['status']) {
+    const current = this.open[role];
+    if (!current) return;
+    this.replace(current, { ...current, text: current.text.trim(), status, endedAt: new Date() });
+    delete this.open[role];
+  }
+
+  private replace(previous: MessageLog, next: MessageLog) {
+    this.turns = this.turns.map(turn => (turn === previous ? next : turn));
+    if (this.open[previous.role] === previous) this.open[previous.role] = next;
+  }
+
+  private emit() {
+    this.onChange(this.turns);
+  }
+}
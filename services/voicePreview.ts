@@ -0,0 +1,116 @@
+import { LiveServerMessage, Modality } from '@google/genai';
+import { TONE_TRAITS } from '../constants';
+import { RestaurantProfile } from '../types';
+import { decodeBase64 } from '../utils/audio';
+import { AgentSettings, buildAgentConfig, resolvePersona } from './agentSettings';
+import { PlaybackEngine } from './audioPlayback';
+import { GenAITransport, LiveSessionHandle, LiveTransport } from './liveTransport';
+
+// Gemini speaks at 24 kHz
+const OUTPUT_SAMPLE_RATE = 24000;
+
+// Gives up on a preview that has not finished by then
+const PREVIEW_TIMEOUT_MS = 20000;
+
+/**
+ * Lets staff hear a voice and persona before putting them live: opens a
+ * one-off Live session with the settings, asks for a short greeting and
+ * plays it. Each preview uses a session from our backend like a call does.
+ */
+export class VoicePreview {
+  private context: AudioContext | null = null;
+  private session: LiveSessionHandle | null = null;
+  private playback: PlaybackEngine | null = null;
+  private finish: ((error?: Error) => void) | null = null;
+
+  constructor(private transport: LiveTransport = new GenAITransport()) {}
+
+  /**
+   * Resolves once the greeting has finished playing or stop() was called.
+   */
+  play(profile: RestaurantProfile, settings: AgentSettings): Promise<void> {
+    this.stop();
+    const persona = resolvePersona(profile, settings);
+    const context = new AudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+    const playback = new PlaybackEngine(context, context.destination);
+    this.context = context;
+    this.playback = playback;
+
+    return new Promise((resolve, reject) => {
+      let turnComplete = false;
+      let drained = true;
+      const finish = (error?: Error) => {
+        if (this.finish !== finish) return;
+        clearTimeout(timer);
+        this.finish = null;
+        this.release();
+        if (error) reject(error);
+        else resolve();
+      };
+      this.finish = finish;
+      const timer = setTimeout(() => finish(new Error('The preview timed out')), PREVIEW_TIMEOUT_MS);
+
+      playback.on('drained', () => {
+        drained = true;
+        if (turnComplete) finish();
+      });
+
+      const handleMessage = (message: LiveServerMessage) => {
+        message.serverContent?.modelTurn?.parts?.forEach(part => {
+          if (!part.inlineData?.data) return;
+          drained = false;
+          playback.enqueue(decodeBase64(part.inlineData.data), OUTPUT_SAMPLE_RATE);
+        });
+        if (message.serverContent?.turnComplete) {
+          turnComplete = true;
+          playback.endOfStream();
+          if (drained) finish();
+        }
+      };
+
+      this.transport.connect({
+        model: settings.model,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          ...buildAgentConfig(profile, settings),
+          systemInstruction: `You are ${persona.name}, the hostess at "${profile.name}", a ${profile.cuisine} restaurant.\nKey traits:\n${TONE_TRAITS[settings.tone]}`,
+        },
+        callbacks: {
+          onmessage: handleMessage,
+          onerror: () => finish(new Error('The preview could not be played')),
+          // After the greeting has arrived, let it play out
+          onclose: () => {
+            if (!turnComplete) finish(new Error('The preview session closed early'));
+          },
+        },
+      }).then(session => {
+        // Stopped while connecting
+        if (this.finish !== finish) {
+          session.close();
+          this.transport.endCall?.();
+          return;
+        }
+        this.session = session;
+        session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: 'A guest has just called. Greet them in one or two short sentences.' }] }],
+          turnComplete: true,
+        });
+      }).catch(err => finish(err instanceof Error ? err : new Error(String(err))));
+    });
+  }
+
+  stop() {
+    this.finish?.();
+  }
+
+  private release() {
+    const session = this.session;
+    this.session = null;
+    session?.close();
+    this.transport.endCall?.();
+    this.playback?.dispose();
+    this.playback = null;
+    this.context?.close().catch(() => {});
+    this.context = null;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Just enough of Web Audio for the playback path to run under Node. Time
+ * only moves when a test calls advance(), which also fires `onended` for
+ * the sources that have finished by then.
+ */
+
+class FakeAudioParam {
+  constructor(public value: number) {}
+  setValueAtTime(value: number) { this.value = value; return this; }
+  linearRampToValueAtTime(value: number) { this.value = value; return this; }
+  setTargetAtTime(value: number) { this.value = value; return this; }
+  cancelScheduledValues() { return this; }
+}
+
+class FakeAudioNode {
+  readonly connections: unknown[] = [];
+  connect(destination: unknown) { this.connections.push(destination); return destination; }
+  disconnect() { this.connections.length = 0; }
+}
+
+class FakeGainNode extends FakeAudioNode {
+  readonly gain = new FakeAudioParam(1);
+}
+
+class FakeAnalyserNode extends FakeAudioNode {
+  fftSize = 2048;
+  getFloatTimeDomainData(array: Float32Array) { array.fill(0); }
+  getByteTimeDomainData(array: Uint8Array) { array.fill(128); }
+}
+
+export class FakeAudioBuffer {
+  private channels: Float32Array[];
+
+  constructor(readonly numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+
+  copyToChannel(source: Float32Array, channel: number) {
+    this.channels[channel].set(source.subarray(0, this.length));
+  }
+}
+
+export class FakeBufferSource extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  onended: (() => void) | null = null;
+  startTime: number | null = null;
+  stopTime: number | null = null;
+  ended = false;
+
+  start(when = 0) { this.startTime = when; }
+  stop(when = 0) { this.stopTime = when; }
+
+  get endTime(): number {
+    const natural = (this.startTime ?? 0) + (this.buffer?.duration ?? 0);
+    return this.stopTime === null ? natural : Math.min(natural, this.stopTime);
+  }
+}
+
+export class FakeAudioContext {
+  currentTime = 0;
+  state: AudioContextState = 'running';
+  readonly sampleRate: number;
+  readonly destination = new FakeAudioNode();
+  // Every source created, in order
+  readonly sources: FakeBufferSource[] = [];
+
+  constructor(options: AudioContextOptions = {}) {
+    this.sampleRate = options.sampleRate ?? 48000;
+  }
+
+  createGain() { return new FakeGainNode(); }
+  createAnalyser() { return new FakeAnalyserNode(); }
+
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(channels, length, sampleRate);
+  }
+
+  createBufferSource() {
+    const source = new FakeBufferSource();
+    this.sources.push(source);
+    return source;
+  }
+
+  async resume() { this.state = 'running'; }
+  async suspend() { this.state = 'suspended'; }
+  // Browsers reject closing a context twice
+  async close() {
+    if (this.state === 'closed') throw new DOMException('Cannot close a closed AudioContext.', 'InvalidStateError');
+    this.state = 'closed';
+  }
+
+  /**
+   * Moves the clock forward and ends the sources that have played out or
+   * reached their stop time, earliest first.
+   */
+  advance(seconds: number) {
+    this.currentTime += seconds;
+    const finished = this.sources
+      .filter(source => source.startTime !== null && !source.ended && source.endTime <= this.currentTime + 1e-9)
+      .sort((a, b) => a.endTime - b.endTime);
+    finished.forEach(source => {
+      source.ended = true;
+      source.onended?.();
+    });
+  }
+
+  asAudioContext(): AudioContext {
+    return this as unknown as AudioContext;
+  }
+}
@@ -1,13 +1,90 @@
-export enum Language {
-  ENGLISH = 'ENGLISH',
-  ARABIC = 'ARABIC'
+// BCP 47 code of a language registered in locales/, e.g. "en", "ar"
+export type LanguageCode = string;
+
+// What the agent speaks: a fixed language, or 'auto' to answer in the guest's language
+export type LanguageMode = LanguageCode | 'auto';
+
+export const UI_STRING_KEYS = [
+  'tagline',
+  'statusConnected',
+  'statusConnecting',
+  'statusReconnecting',
+  'statusReady',
+  'startCall',
+  'endCall',
+  'languageAuto',
+  'recordCalls',
+  'reservationsHeading',
+  'reservationsEmpty',
+  'reservationGuests',
+  'reservationWhen',
+  'transcriptEmpty',
+  'transcriptYou',
+  'transcriptInterrupted',
+  'consentTitle',
+  'consentBody',
+  'consentOptOut',
+  'consentDecline',
+  'consentAccept',
+  'recordingTitle',
+  'inputModeVoice',
+  'inputModePushToTalk',
+  'holdToTalk',
+  'releaseToSend',
+  'mute',
+  'unmute',
+  'micMuted',
+  'audioSettings',
+  'microphone',
+  'speaker',
+  'systemDefault',
+  'unnamedDevice',
+  'echoCancellation',
+  'noiseSuppression',
+  'autoGainControl',
+  'speakerUnsupported',
+  'modeVoice',
+  'modeText',
+  'typeMessage',
+  'send',
+  'playReplies',
+  'voiceUnavailable',
+  'callEndedIdle',
+  'callEndedMaxDuration',
+  'close',
+  'handoffWaiting',
+  'handoffStaff',
+  'transcriptStaff',
+  'captionsMode',
+  'captionsLabel',
+  'captionsEmpty',
+  'languageLabel',
+  'transcriptLabel',
+] as const;
+export type UiStringKey = typeof UI_STRING_KEYS[number];
+
+// Interface text for one language; `{name}` placeholders are filled by formatMessage
+export type UiStrings = Record<UiStringKey, string>;
+
+export interface LanguageDefinition {
+  code: LanguageCode;
+  label: string; // native name shown in the language toggle, e.g. "Français"
+  englishName: string; // used in the agent's instructions, e.g. "French"
+  dir: 'ltr' | 'rtl';
+  speechInstruction: string; // how the agent should speak this language
+  ui: UiStrings;
 }
 
+export type TurnStatus = 'streaming' | 'complete' | 'interrupted';
+
 export interface MessageLog {
   id: string;
   role: 'user' | 'model';
   text: string;
-  timestamp: Date;
+  timestamp: Date; // when the turn started
+  endedAt?: Date; // set once the turn is no longer streaming
+  status: TurnStatus;
+  channel?: 'voice' | 'text' | 'staff'; // 'text' for messages the guest typed, 'staff' for staff who took over
 }
 
 export interface AudioVisualizerProps {
@@ -16,4 +93,110 @@ export interface AudioVisualizerProps {
   volume: number;
 }
 
-export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+// Who has the floor in a live call; see services/conversationState.ts
+export type ConversationState =
+  | 'idle'
+  | 'listening'
+  | 'user-speaking'
+  | 'waiting-for-model'
+  | 'model-speaking'
+  | 'interrupted';
+
+export interface Reservation {
+  id: string;
+  partySize: number;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm (24h)
+  guestName: string;
+  phone: string;
+  notes?: string;
+  tableId?: string; // assigned by services/availability.ts
+  createdAt: string; // ISO timestamp
+}
+
+export type ReservationRequest = Omit<Reservation, 'id' | 'createdAt'>;
+
+export interface RestaurantPersona {
+  name: string; // what the agent calls itself, e.g. "Layla"
+  voice: string; // prebuilt Live API voice name, e.g. "Kore"
+}
+
+// How the agent comes across; each tone's traits are in constants.ts
+export type PersonaTone = 'warm' | 'formal' | 'playful' | 'concise';
+
+// Limits checked before a booking is accepted
+export interface BookingRules {
+  minPartySize: number;
+  maxPartySize: number; // larger groups are asked to contact the restaurant
+  maxDaysAhead: number; // how far in advance tables can be booked
+  slotMinutes: number; // spacing of the bookable times offered to guests
+  turnMinutes: TurnTime[]; // how long a party holds its table
+  confirmationPrefix?: string; // starts every confirmation code, e.g. "GS"; the name's initials when absent
+}
+
+// Parties of up to `maxPartySize` hold their table for `minutes`
+export interface TurnTime {
+  maxPartySize: number;
+  minutes: number;
+}
+
+export interface TableConfig {
+  id: string; // e.g. "T12", as staff refer to it
+  seats: number;
+}
+
+// Structured form of `hours`; `open` and `close` are 24-hour "HH:mm"
+export interface OpeningHoursEntry {
+  days: string[]; // weekday names, e.g. "monday"
+  open: string;
+  close: string; // earlier than `open` when closing after midnight
+}
+
+export interface RestaurantProfile {
+  id: string; // URL slug, e.g. "golden-spice"
+  name: string;
+  cuisine: string;
+  hours: string; // e.g. "11:00 AM to 11:00 PM daily", as the agent says it
+  openingHours?: OpeningHoursEntry[]; // enforced when booking; parsed from `hours` when absent
+  location: string;
+  specialties: string;
+  seatingCapacity: number; // maximum covers bookable into one time slot
+  tables: TableConfig[];
+  timezone: string; // IANA zone relative dates and times are resolved in
+  phoneCountry: string; // ISO country for numbers given without a country code
+  booking: BookingRules;
+  persona: RestaurantPersona;
+  languages: LanguageCode[]; // first entry is the default
+}
+
+export const ALLERGENS = [
+  'gluten', 'dairy', 'eggs', 'tree-nuts', 'peanuts', 'sesame',
+  'soy', 'fish', 'shellfish', 'mustard', 'celery', 'sulphites',
+] as const;
+export type Allergen = typeof ALLERGENS[number];
+
+export const DIETARY_TAGS = ['vegetarian', 'vegan', 'halal', 'gluten-free', 'dairy-free', 'spicy'] as const;
+export type DietaryTag = typeof DIETARY_TAGS[number];
+
+export interface MenuItem {
+  id: string;
+  name: string;
+  category: string; // must match one of Menu.categories
+  description: string;
+  price: number; // in Menu.currency
+  allergens: Allergen[];
+  dietary: DietaryTag[];
+  portion?: string; // e.g. "Serves 2", "250g"
+}
+
+export interface Menu {
+  currency: string; // ISO 4217, e.g. "USD"
+  categories: string[]; // in the order they appear on the printed menu
+  items: MenuItem[];
+}
+
+// The part of the Web Storage interface our stores need; the server keeps
+// it in files (see server/jsonFileStorage.ts)
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem'>;
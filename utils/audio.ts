@@ -35,31 +35,29 @@ export function createPcmBlob(data: Float32Array): { data: string; mimeType: str
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return encodePcm16(int16);
+}
+
+/**
+ * Wraps 16 kHz Int16 PCM (e.g. produced by the capture worklet) as a Blob for the API.
+ */
+export function encodePcm16(int16: Int16Array): { data: string; mimeType: string } {
   return {
-    data: encodeBase64(new Uint8Array(int16.buffer)),
+    data: encodeBase64(new Uint8Array(int16.buffer, int16.byteOffset, int16.byteLength)),
     mimeType: 'audio/pcm;rate=16000',
   };
 }
 
 /**
- * Decodes raw PCM data (Int16) into an AudioBuffer for playback.
+ * Converts little-endian Int16 PCM bytes to Float32 samples in [-1, 1].
+ * Reads through a DataView, so the bytes may start at any offset; a
+ * trailing odd byte is ignored.
  */
-export async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      // Convert back from Int16 to Float32 [-1, 1]
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
+export function pcm16ToFloat32(bytes: Uint8Array): Float32Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const samples = new Float32Array(bytes.byteLength >> 1);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, true) / 32768.0;
   }
-  return buffer;
+  return samples;
 }
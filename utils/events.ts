@@ -0,0 +1,39 @@
+/**
+ * Event name -> listener argument tuple, e.g. `{ status: [ConnectionState] }`.
+ */
+export type EventMap = Record<string, unknown[]>;
+
+export type Listener<Args extends unknown[]> = (...args: Args) => void;
+
+/**
+ * Minimal strongly typed event emitter. Subclasses call `emit`; consumers
+ * subscribe with `on`, which returns the matching unsubscribe function.
+ */
+export class TypedEmitter<Events extends EventMap> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let set = this.listeners[event];
+    if (!set) {
+      set = new Set();
+      this.listeners[event] = set;
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>) {
+    this.listeners[event]?.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, ...args: Events[K]) {
+    this.listeners[event]?.forEach(listener => {
+      try {
+        listener(...args);
+      } catch (err) {
+        // One faulty listener must not break the audio pipeline
+        console.error(`[Events] Listener for "${String(event)}" threw:`, err);
+      }
+    });
+  }
+}
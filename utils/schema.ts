@@ -0,0 +1,88 @@
+/**
+ * Minimal declarative schema for validating JSON configs (restaurant
+ * profiles, menus) without pulling in a validation library.
+ */
+export type FieldRule =
+  | { type: 'string'; pattern?: RegExp; optional?: boolean }
+  | { type: 'number'; min?: number; optional?: boolean }
+  | { type: 'enum'; values: readonly string[]; optional?: boolean }
+  | { type: 'enum[]'; values: readonly string[]; minItems?: number; optional?: boolean }
+  | { type: 'string[]'; minItems?: number; optional?: boolean }
+  | { type: 'object'; fields: Schema; optional?: boolean }
+  | { type: 'object[]'; fields: Schema; minItems?: number; optional?: boolean };
+
+export type Schema = Record<string, FieldRule>;
+
+/**
+ * Returns a list of human-readable problems; empty when the value is valid.
+ */
+export function validateSchema(value: unknown, schema: Schema, path = ''): string[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [`${path || 'value'} must be an object`];
+  }
+  const record = value as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const [key, rule] of Object.entries(schema)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const field = record[key];
+
+    if (field === undefined) {
+      if (!rule.optional) errors.push(`${fieldPath} is required`);
+      continue;
+    }
+
+    switch (rule.type) {
+      case 'string':
+        if (typeof field !== 'string' || !field.trim()) {
+          errors.push(`${fieldPath} must be a non-empty string`);
+        } else if (rule.pattern && !rule.pattern.test(field)) {
+          errors.push(`${fieldPath} must match ${rule.pattern}`);
+        }
+        break;
+      case 'number':
+        if (typeof field !== 'number' || !Number.isFinite(field)) {
+          errors.push(`${fieldPath} must be a number`);
+        } else if (rule.min !== undefined && field < rule.min) {
+          errors.push(`${fieldPath} must be at least ${rule.min}`);
+        }
+        break;
+      case 'enum':
+        if (typeof field !== 'string' || !rule.values.includes(field)) {
+          errors.push(`${fieldPath} must be one of ${rule.values.join(', ')}`);
+        }
+        break;
+      case 'enum[]':
+      case 'string[]':
+        if (!Array.isArray(field)) {
+          errors.push(`${fieldPath} must be an array`);
+          break;
+        }
+        if (rule.minItems !== undefined && field.length < rule.minItems) {
+          errors.push(`${fieldPath} must have at least ${rule.minItems} item(s)`);
+        }
+        if (rule.type === 'enum[]') {
+          field
+            .filter(item => !rule.values.includes(item))
+            .forEach(item => errors.push(`${fieldPath} contains unsupported value "${item}"`));
+        } else if (field.some(item => typeof item !== 'string')) {
+          errors.push(`${fieldPath} must only contain strings`);
+        }
+        break;
+      case 'object':
+        errors.push(...validateSchema(field, rule.fields, fieldPath));
+        break;
+      case 'object[]':
+        if (!Array.isArray(field)) {
+          errors.push(`${fieldPath} must be an array`);
+          break;
+        }
+        if (rule.minItems !== undefined && field.length < rule.minItems) {
+          errors.push(`${fieldPath} must have at least ${rule.minItems} item(s)`);
+        }
+        field.forEach((item, index) => errors.push(...validateSchema(item, rule.fields, `${fieldPath}[${index}]`)));
+        break;
+    }
+  }
+  return errors;
+}
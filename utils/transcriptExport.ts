@@ -0,0 +1,67 @@
+import { MessageLog } from '../types';
+
+export interface TranscriptEntry {
+  role: MessageLog['role'];
+  speaker: string;
+  text: string;
+  status: MessageLog['status'];
+  start: number; // seconds from the start of the recording
+  end: number;
+}
+
+/**
+ * Places turns on the recording timeline. Turns without an end time run
+ * until the next turn starts (or the recording ends).
+ */
+export function toTimedEntries(
+  turns: MessageLog[],
+  startedAt: Date,
+  durationSec: number,
+  agentName: string
+): TranscriptEntry[] {
+  const origin = startedAt.getTime();
+  return turns
+    .filter(turn => turn.text.trim())
+    .map((turn, index, list) => {
+      const start = Math.max(0, (turn.timestamp.getTime() - origin) / 1000);
+      const fallbackEnd = list[index + 1] ? (list[index + 1].timestamp.getTime() - origin) / 1000 : durationSec;
+      const end = turn.endedAt ? (turn.endedAt.getTime() - origin) / 1000 : fallbackEnd;
+      return {
+        role: turn.role,
+        speaker: turn.role === 'user' ? 'Guest' : agentName,
+        text: turn.text.trim(),
+        status: turn.status,
+        start: round(start),
+        end: round(Math.min(durationSec, Math.max(end, start + 0.5))),
+      };
+    });
+}
+
+export function toTranscriptJson(entries: TranscriptEntry[], startedAt: Date, durationSec: number): string {
+  return JSON.stringify({ startedAt: startedAt.toISOString(), durationSec: round(durationSec), turns: entries }, null, 2);
+}
+
+export function toSrt(entries: TranscriptEntry[]): string {
+  return entries
+    .map((entry, index) => [
+      String(index + 1),
+      `${formatSrtTime(entry.start)} --> ${formatSrtTime(entry.end)}`,
+      `${entry.speaker}: ${entry.text}${entry.status === 'interrupted' ? ' [interrupted]' : ''}`,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Formats seconds as an SRT timestamp (HH:MM:SS,mmm).
+ */
+function formatSrtTime(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)},${pad(ms, 3)}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
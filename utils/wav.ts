@@ -0,0 +1,99 @@
+/**
+ * Audio segment placed on a recording timeline.
+ */
+export interface TimedSegment {
+  startSec: number;
+  samples: Float32Array;
+}
+
+/**
+ * Converts Int16 PCM to Float32 [-1, 1].
+ */
+export function int16ToFloat32(int16: Int16Array): Float32Array {
+  const out = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) {
+    out[i] = int16[i] / 32768.0;
+  }
+  return out;
+}
+
+/**
+ * Linear-interpolation resampler for offline use (exports, transcoding).
+ */
+export function resampleLinear(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || input.length === 0) return input;
+  const ratio = fromRate / toRate;
+  const outLength = Math.floor(input.length / ratio);
+  const out = new Float32Array(outLength);
+  for (let i = 0; i < outLength; i++) {
+    const pos = i * ratio;
+    const i0 = Math.floor(pos);
+    const i1 = Math.min(i0 + 1, input.length - 1);
+    out[i] = input[i0] + (input[i1] - input[i0]) * (pos - i0);
+  }
+  return out;
+}
+
+/**
+ * Renders timed segments onto a continuous track, filling gaps with silence
+ * and summing any overlap.
+ */
+export function renderTimeline(segments: TimedSegment[], sampleRate: number, durationSec: number): Float32Array {
+  const track = new Float32Array(Math.max(0, Math.ceil(durationSec * sampleRate)));
+  for (const { startSec, samples } of segments) {
+    const offset = Math.max(0, Math.round(startSec * sampleRate));
+    const end = Math.min(track.length, offset + samples.length);
+    for (let i = offset; i < end; i++) {
+      track[i] += samples[i - offset];
+    }
+  }
+  return track;
+}
+
+/**
+ * Sums tracks of the same rate into one, clamping to [-1, 1].
+ */
+export function mixTracks(...tracks: Float32Array[]): Float32Array {
+  const length = Math.max(0, ...tracks.map(t => t.length));
+  const out = new Float32Array(length);
+  for (const track of tracks) {
+    for (let i = 0; i < track.length; i++) out[i] += track[i];
+  }
+  for (let i = 0; i < length; i++) out[i] = Math.max(-1, Math.min(1, out[i]));
+  return out;
+}
+
+/**
+ * Encodes mono Float32 samples as a 16-bit PCM WAV file.
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // Audio format: PCM
+  view.setUint16(22, 1, true); // Channels: mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * bytesPerSample, true); // Byte rate
+  view.setUint16(32, bytesPerSample, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * bytesPerSample, s < 0 ? s * 0x8000 : s * 0x7FFF, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
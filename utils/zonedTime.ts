@@ -0,0 +1,68 @@
+/**
+ * Calendar helpers for a restaurant's local time. Dates are plain
+ * `YYYY-MM-DD` strings and times are minutes after midnight, so nothing
+ * depends on the timezone of the device running the agent.
+ */
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface ZonedNow {
+  date: string; // YYYY-MM-DD
+  minutes: number; // minutes after local midnight
+  weekday: number; // 0 = Sunday
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The current local date and time in the given IANA timezone.
+ */
+export function nowInTimeZone(timeZone: string, now: Date = new Date()): ZonedNow {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? '00';
+  const date = `${get('year')}-${get('month')}-${get('day')}`;
+  return { date, minutes: Number(get('hour')) * 60 + Number(get('minute')), weekday: weekdayOf(date) };
+}
+
+const toUtc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+export function isValidDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const parsed = toUtc(date);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+export function addDays(date: string, days: number): string {
+  const d = toUtc(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((toUtc(to).getTime() - toUtc(from).getTime()) / 86_400_000);
+}
+
+export function weekdayOf(date: string): number {
+  return toUtc(date).getUTCDay();
+}
+
+export function formatMinutes(minutes: number): string {
+  const m = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
@@ -9,12 +9,13 @@ export default defineConfig(({ mode }) => {
       port: 3000,
       host: '0.0.0.0',
       allowedHosts: ['stage.3r.agency'],
+      proxy: {
+        // Session credentials, bookings and the handoff relay come from server/index.ts
+        // (run with `npm run dev:server`)
+        '/api': { target: env.API_PROXY_TARGET || 'http://localhost:3001', ws: true },
+      },
     },
     plugins: [react()],
-    define: {
-      'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-    },
     resolve: {
       alias: {
         '@': path.resolve(__dirname, '.'),
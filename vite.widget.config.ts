@@ -0,0 +1,33 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+/**
+ * Second build target: the embeddable widget (widget/index.tsx) as a single
+ * script, written next to the app build so the server hosts it at
+ * /widget/hostess-widget.js. Run after `npm run build`, which empties dist/.
+ */
+export default defineConfig({
+  plugins: [react()],
+  // Asset URLs (the capture worklet) resolve against the script, not the host page
+  base: './',
+  define: {
+    // React reads this; library builds don't replace it by default
+    'process.env.NODE_ENV': JSON.stringify('production'),
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  },
+  build: {
+    outDir: 'dist/widget',
+    emptyOutDir: true,
+    lib: {
+      entry: path.resolve(__dirname, 'widget/index.tsx'),
+      name: 'GoldenSpiceHostess',
+      formats: ['iife'],
+      fileName: () => 'hostess-widget.js',
+    },
+  },
+});
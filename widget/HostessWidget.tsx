@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useGeminiLive } from '../hooks/useGeminiLive';
+import { resolveUiLanguage } from '../services/languages';
+import { GenAITransport } from '../services/liveTransport';
+import { handoffUrlFor } from '../services/staffHandoff';
+import { LanguageMode, RestaurantProfile } from '../types';
+
+interface HostessWidgetProps {
+  profile: RestaurantProfile;
+  language: LanguageMode;
+  // Our backend's API, e.g. https://hostess.example.com/api
+  apiBase: string;
+}
+
+// Only the latest exchange fits in the compact panel
+const VISIBLE_TURNS = 6;
+
+const MicIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" aria-hidden="true">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 006-6v-1.5m-6 7.5a6 6 0 01-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 01-3-3V4.5a3 3 0 116 0v8.25a3 3 0 01-3 3z" />
+  </svg>
+);
+
+const StopIcon = () => (
+  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" aria-hidden="true">
+    <path strokeLinecap="round" strokeLinejoin="round" d="M5.25 7.5A2.25 2.25 0 017.5 5.25h9a2.25 2.25 0 012.25 2.25v9a2.25 2.25 0 01-2.25 2.25h-9a2.25 2.25 0 01-2.25-2.25v-9z" />
+  </svg>
+);
+
+/**
+ * The agent as a floating mic button with a compact transcript, for
+ * embedding on a restaurant's own site. Rendered inside a shadow root by
+ * widget/index.tsx; sessions come from our backend, never an API key.
+ */
+const HostessWidget: React.FC<HostessWidgetProps> = ({ profile, language, apiBase }) => {
+  const transport = useMemo(() => new GenAITransport(apiBase), [apiBase]);
+  // Calls are reported to our backend and show up on the admin dashboard like
+  // calls from the guest page
+  const live = useGeminiLive({ profile, transport, apiBase, handoffUrl: handoffUrlFor(apiBase) });
+  const [open, setOpen] = useState(false);
+  const transcriptRef = useRef<HTMLOListElement>(null);
+
+  const uiLanguage = resolveUiLanguage(language, profile.languages);
+  const strings = uiLanguage.ui;
+  const inCall = live.status === 'connected' || live.status === 'connecting' || live.status === 'reconnecting';
+
+  // Follow the language attribute; a live call switches over in place
+  const { setLanguage } = live;
+  useEffect(() => {
+    setLanguage(language);
+  }, [language, setLanguage]);
+
+  useEffect(() => {
+    const el = transcriptRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [live.turns]);
+
+  const toggleCall = async () => {
+    if (inCall) {
+      await live.disconnect();
+    } else {
+      setOpen(true);
+      await live.connect(language);
+    }
+  };
+
+  const statusLabel = {
+    connected: strings.statusConnected,
+    connecting: strings.statusConnecting,
+    reconnecting: strings.statusReconnecting,
+    disconnected: strings.statusReady,
+    error: strings.statusReady,
+  }[live.status];
+
+  const limitNotice = live.status === 'disconnected' && live.usage?.endReason && live.usage.endReason !== 'hangup'
+    ? (live.usage.endReason === 'idle' ? strings.callEndedIdle : strings.callEndedMaxDuration)
+    : null;
+
+  const turns = live.turns.slice(-VISIBLE_TURNS);
+
+  return (
+    <div className="widget" lang={uiLanguage.code} dir={uiLanguage.dir}>
+      {open && (
+        <section className="panel" aria-label={profile.name}>
+          <div className="panel-header">
+            <div>
+              <div className="title">{profile.name}</div>
+              <div className={`status ${live.status === 'connected' ? 'connected' : ''}`} role="status">{statusLabel}</div>
+            </div>
+            <button className="close" onClick={() => setOpen(false)} aria-label={strings.close}>&times;</button>
+          </div>
+
+          <ol className="transcript" ref={transcriptRef} aria-live="polite">
+            {turns.length === 0 && <li className="empty">{strings.transcriptEmpty}</li>}
+            {turns.map(turn => (
+              <li key={turn.id} className={`turn ${turn.role} ${turn.status}`}>
+                <div className="speaker">
+                  {turn.role === 'user' ? strings.transcriptYou : turn.channel === 'staff' ? strings.transcriptStaff : profile.persona.name}
+                </div>
+                <div className="text" dir="auto">{turn.text}</div>
+              </li>
+            ))}
+          </ol>
+
+          {live.error && <p className="notice error" role="alert">{live.error}</p>}
+          {live.voiceUnavailable && <p className="notice">{live.voiceUnavailable}</p>}
+          {limitNotice && <p className="notice">{limitNotice}</p>}
+          {inCall && live.handoff === 'waiting' && <p className="notice" role="status">{strings.handoffWaiting}</p>}
+          {inCall && live.handoff === 'staff' && <p className="notice" role="status">{strings.handoffStaff}</p>}
+        </section>
+      )}
+
+      <button
+        className={`mic ${inCall ? 'active' : ''} ${live.status === 'connecting' ? 'connecting' : ''}`}
+        onClick={toggleCall}
+        aria-label={inCall ? strings.endCall : `${strings.startCall} – ${profile.name}`}
+        title={inCall ? strings.endCall : strings.startCall}
+      >
+        {inCall ? <StopIcon /> : <MicIcon />}
+      </button>
+    </div>
+  );
+};
+
+export default HostessWidget;
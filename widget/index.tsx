@@ -0,0 +1,89 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import HostessWidget from './HostessWidget';
+import { WIDGET_CSS } from './styles';
+import { DEFAULT_PROFILE, getProfile } from '../services/restaurantProfiles';
+import { LanguageMode, RestaurantProfile } from '../types';
+
+/**
+ * Embeddable build of the agent:
+ *
+ *   <script src="https://hostess.example.com/widget/hostess-widget.js"></script>
+ *   <golden-spice-hostess restaurant="golden-spice" language="auto" theme-color="#EAB308"></golden-spice-hostess>
+ *
+ * Attributes: restaurant (profile id), language (a supported code or "auto"),
+ * theme-color (any CSS color), position ("right" or "left") and server (our
+ * backend's origin; defaults to wherever this script was loaded from).
+ */
+
+const TAG_NAME = 'golden-spice-hostess';
+const DEFAULT_THEME_COLOR = '#EAB308';
+
+// Captured while the script is first evaluated, when its URL is still known
+const SCRIPT_ORIGIN = new URL(import.meta.url).origin;
+
+function resolveProfile(requested: string | null): RestaurantProfile {
+  const profile = getProfile(requested);
+  if (requested && !profile) {
+    console.warn(`[HostessWidget] Unknown restaurant "${requested}", using "${DEFAULT_PROFILE.id}"`);
+  }
+  return profile ?? DEFAULT_PROFILE;
+}
+
+function resolveLanguage(requested: string | null, profile: RestaurantProfile): LanguageMode {
+  if (requested === 'auto' && profile.languages.length > 1) return 'auto';
+  if (requested && profile.languages.includes(requested)) return requested;
+  if (requested) console.warn(`[HostessWidget] ${profile.id} does not offer "${requested}"`);
+  return profile.languages[0];
+}
+
+class HostessWidgetElement extends HTMLElement {
+  static observedAttributes = ['restaurant', 'language', 'theme-color', 'server'];
+
+  private root: ReactDOM.Root | null = null;
+  private mount: HTMLDivElement | null = null;
+
+  connectedCallback() {
+    if (!this.mount) {
+      const shadow = this.attachShadow({ mode: 'open' });
+      const style = document.createElement('style');
+      style.textContent = WIDGET_CSS;
+      this.mount = document.createElement('div');
+      shadow.append(style, this.mount);
+    }
+    this.root = ReactDOM.createRoot(this.mount);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    // Unmounting ends any call in progress
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    this.render();
+  }
+
+  private render() {
+    if (!this.root) return;
+    const profile = resolveProfile(this.getAttribute('restaurant'));
+    const language = resolveLanguage(this.getAttribute('language'), profile);
+    const server = (this.getAttribute('server') || SCRIPT_ORIGIN).replace(/\/$/, '');
+
+    const themeColor = this.getAttribute('theme-color');
+    const accent = themeColor && CSS.supports('color', themeColor) ? themeColor : DEFAULT_THEME_COLOR;
+    this.style.setProperty('--accent', accent);
+
+    this.root.render(
+      <React.StrictMode>
+        {/* A different venue or backend starts over with a fresh service */}
+        <HostessWidget key={`${profile.id}|${server}`} profile={profile} language={language} apiBase={`${server}/api`} />
+      </React.StrictMode>
+    );
+  }
+}
+
+if (!customElements.get(TAG_NAME)) {
+  customElements.define(TAG_NAME, HostessWidgetElement);
+}
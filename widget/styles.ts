@@ -0,0 +1,105 @@
+/**
+ * Widget styles, injected into its shadow root so the host page's CSS can't
+ * reach in and ours can't leak out. `--accent` comes from the theme-color
+ * attribute.
+ */
+export const WIDGET_CSS = `
+:host {
+  all: initial;
+  position: fixed;
+  bottom: 20px;
+  z-index: 2147483000;
+  font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+  font-size: 14px;
+  line-height: 1.4;
+  color: #f8fafc;
+}
+:host([position="left"]) { left: 20px; }
+:host(:not([position="left"])) { right: 20px; }
+
+.widget { display: flex; flex-direction: column; align-items: flex-end; gap: 12px; }
+:host([position="left"]) .widget { align-items: flex-start; }
+
+.panel {
+  width: min(320px, calc(100vw - 40px));
+  background: #0f172a;
+  border: 1px solid #334155;
+  border-radius: 14px;
+  box-shadow: 0 12px 32px rgba(0, 0, 0, 0.35);
+  overflow: hidden;
+}
+.panel-header {
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  gap: 8px;
+  padding: 10px 14px;
+  border-bottom: 1px solid #1e293b;
+}
+.title { font-weight: 600; }
+.status { font-size: 12px; color: #94a3b8; }
+.status.connected { color: var(--accent); }
+.close {
+  background: none;
+  border: none;
+  color: #94a3b8;
+  font-size: 18px;
+  cursor: pointer;
+  padding: 0 4px;
+}
+.close:hover { color: #f8fafc; }
+
+.transcript {
+  list-style: none;
+  margin: 0;
+  padding: 10px 14px;
+  max-height: 220px;
+  overflow-y: auto;
+  display: flex;
+  flex-direction: column;
+  gap: 6px;
+}
+.turn { margin: 0; }
+.speaker { font-size: 11px; text-transform: uppercase; letter-spacing: 0.05em; color: #64748b; }
+.turn.model .speaker { color: var(--accent); }
+.turn.streaming .text { opacity: 0.75; }
+.empty { color: #64748b; font-style: italic; }
+
+.notice {
+  margin: 0 14px 10px;
+  padding: 8px 10px;
+  border-radius: 8px;
+  font-size: 12px;
+  background: #1e293b;
+  color: #cbd5e1;
+}
+.notice.error { background: #4c0519; color: #fecdd3; }
+
+.mic {
+  width: 56px;
+  height: 56px;
+  border-radius: 50%;
+  border: none;
+  background: var(--accent);
+  color: #0f172a;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  cursor: pointer;
+  box-shadow: 0 6px 18px rgba(0, 0, 0, 0.3);
+  transition: transform 0.15s ease;
+}
+.mic:hover { transform: scale(1.05); }
+.mic:focus-visible { outline: 3px solid #f8fafc; outline-offset: 2px; }
+.mic.active { background: #e11d48; color: #f8fafc; }
+.mic.connecting { opacity: 0.7; cursor: wait; }
+.mic svg { width: 26px; height: 26px; }
+
+@media (prefers-reduced-motion: no-preference) {
+  .mic.active { animation: pulse 1.6s ease-in-out infinite; }
+}
+@keyframes pulse {
+  0%, 100% { box-shadow: 0 0 0 0 rgba(225, 29, 72, 0.45); }
+  50% { box-shadow: 0 0 0 10px rgba(225, 29, 72, 0); }
+}
+`;
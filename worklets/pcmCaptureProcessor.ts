@@ -0,0 +1,98 @@
+/**
+ * AudioWorklet that turns microphone input into 16 kHz Int16 PCM frames.
+ *
+ * Runs on the audio rendering thread: it resamples from the device rate
+ * (whatever the browser actually gave us) to the target rate, converts to
+ * Int16 and posts fixed-size frames plus their RMS level to the main thread.
+ */
+
+// AudioWorkletGlobalScope is not part of the DOM lib, so declare what we use
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: { processorOptions?: unknown });
+}
+
+export interface PcmCaptureOptions {
+  targetSampleRate: number;
+  frameSize: number; // samples per posted frame, at the target rate
+}
+
+export interface PcmCaptureFrame {
+  pcm: ArrayBuffer; // Int16 little-endian samples
+  rms: number;
+}
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private ratio: number;
+  private frameSize: number;
+  private frame: Int16Array;
+  private frameIndex = 0;
+  private sumSquares = 0;
+
+  // Resampler state carried across 128-sample render quanta
+  private position = 0;
+  private lastSample = 0;
+
+  // One-pole low-pass to limit aliasing when downsampling
+  private filterAlpha: number;
+  private filterState = 0;
+
+  constructor(options: { processorOptions: PcmCaptureOptions }) {
+    super(options);
+    const { targetSampleRate, frameSize } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.frameSize = frameSize;
+    this.frame = new Int16Array(frameSize);
+
+    const cutoff = Math.min(targetSampleRate * 0.45, sampleRate / 2);
+    this.filterAlpha = this.ratio > 1 ? 1 - Math.exp((-2 * Math.PI * cutoff) / sampleRate) : 1;
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0]?.[0];
+    if (!input || input.length === 0) return true;
+
+    const n = input.length;
+    const filtered = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      this.filterState += this.filterAlpha * (input[i] - this.filterState);
+      filtered[i] = this.filterState;
+    }
+
+    // Linear interpolation; index -1 refers to the last sample of the previous quantum
+    let idx = this.position;
+    while (true) {
+      const i0 = Math.floor(idx);
+      if (i0 + 1 > n - 1) break;
+      const s0 = i0 < 0 ? this.lastSample : filtered[i0];
+      const s1 = filtered[i0 + 1];
+      this.pushSample(s0 + (s1 - s0) * (idx - i0));
+      idx += this.ratio;
+    }
+    this.position = idx - n;
+    this.lastSample = filtered[n - 1];
+
+    return true;
+  }
+
+  private pushSample(sample: number) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.frame[this.frameIndex++] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    this.sumSquares += s * s;
+
+    if (this.frameIndex === this.frameSize) {
+      const message: PcmCaptureFrame = {
+        pcm: this.frame.buffer,
+        rms: Math.sqrt(this.sumSquares / this.frameSize),
+      };
+      this.port.postMessage(message, [this.frame.buffer]);
+      this.frame = new Int16Array(this.frameSize);
+      this.frameIndex = 0;
+      this.sumSquares = 0;
+    }
+  }
+}
+
+registerProcessor('pcm-capture-processor', PcmCaptureProcessor);